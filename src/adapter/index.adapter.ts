@@ -4,16 +4,45 @@ import {
   type PgVectorAdapterConfig,
 } from "./pg_vector.adpater";
 import { QdrantAdapter, type QdrantAdapterConfig } from "./qdrant.adapter";
+import { MemoryAdapter, type MemoryAdapterConfig } from "./memory.adapter";
+import {
+  MemoryStore,
+  PgVectorStore,
+  QdrantStore,
+  RedisStore,
+  type VectorStore,
+} from "../store";
+import {
+  exportCollection,
+  importCollection,
+  type ExportCollectionOptions,
+  type ExportCollectionResult,
+  type ImportCollectionOptions,
+  type ImportCollectionResult,
+} from "../archive";
+
+export enum VectorStoreType {
+  Redis = "REDIS",
+  PgVector = "PGVECTOR",
+  Qdrant = "QDRANT",
+  Memory = "MEMORY",
+}
+
 export interface VectorSmithAdapterConfig {
   redis?: RedisAdapterConfig;
   pgvector?: PgVectorAdapterConfig;
   qdrant?: QdrantAdapterConfig;
+  /** In-process store, e.g. for tests; `{}` keeps everything in memory only. */
+  memory?: MemoryAdapterConfig;
+  defaultStore?: VectorStoreType;
 }
 
 export class VectorSmithAdapter {
   private redis?: RedisAdapter;
   private pgvector?: PgVectorAdapter;
   private qdrant?: QdrantAdapter;
+  private memory?: MemoryAdapter;
+  private readonly stores = new Map<VectorStoreType, VectorStore>();
   private readonly config: VectorSmithAdapterConfig;
 
   public constructor(config: VectorSmithAdapterConfig = {}) {
@@ -21,14 +50,31 @@ export class VectorSmithAdapter {
 
     if (config.redis) {
       this.redis = new RedisAdapter(config.redis);
+      this.stores.set(VectorStoreType.Redis, new RedisStore(this.redis));
     }
 
     if (config.pgvector) {
       this.pgvector = new PgVectorAdapter(config.pgvector);
+      this.stores.set(
+        VectorStoreType.PgVector,
+        new PgVectorStore(this.pgvector)
+      );
     }
 
     if (config.qdrant) {
       this.qdrant = new QdrantAdapter(config.qdrant);
+      this.stores.set(VectorStoreType.Qdrant, new QdrantStore(this.qdrant));
+    }
+
+    if (config.memory) {
+      this.memory = new MemoryAdapter(config.memory);
+      this.stores.set(VectorStoreType.Memory, new MemoryStore(this.memory));
+    }
+
+    if (config.defaultStore && !this.stores.has(config.defaultStore)) {
+      throw new Error(
+        `VectorSmithAdapter: defaultStore ${config.defaultStore} is not configured.`
+      );
     }
   }
 
@@ -47,6 +93,10 @@ export class VectorSmithAdapter {
       connections.push(this.qdrant.connect());
     }
 
+    if (this.memory) {
+      connections.push(this.memory.connect());
+    }
+
     if (connections.length === 0) {
       throw new Error(
         "No database adapters configured. Provide at least one database configuration."
@@ -71,6 +121,10 @@ export class VectorSmithAdapter {
       disconnections.push(this.qdrant.disconnect());
     }
 
+    if (this.memory?.isConnected()) {
+      disconnections.push(this.memory.disconnect());
+    }
+
     await Promise.all(disconnections);
   }
 
@@ -95,6 +149,65 @@ export class VectorSmithAdapter {
     return this.qdrant;
   }
 
+  public getMemory(): MemoryAdapter {
+    if (!this.memory) {
+      throw new Error("Memory adapter is not configured.");
+    }
+    return this.memory;
+  }
+
+  /**
+   * Returns the backend-agnostic store for `type`, falling back to
+   * `defaultStore` and then to the only configured backend.
+   */
+  public getVectorStore(type?: VectorStoreType): VectorStore {
+    const resolvedType =
+      type ??
+      this.config.defaultStore ??
+      (this.stores.size === 1 ? this.stores.keys().next().value : undefined);
+    if (!resolvedType) {
+      throw new Error(
+        "VectorSmithAdapter: no default store configured; specify a store type."
+      );
+    }
+    const store = this.stores.get(resolvedType);
+    if (!store) {
+      throw new Error(
+        `VectorSmithAdapter: store ${resolvedType} is not configured.`
+      );
+    }
+    return store;
+  }
+
+  /**
+   * Writes a collection of `options.store` (default store otherwise) to a
+   * portable archive file; see `exportCollection`.
+   */
+  public async exportCollection(
+    collection: string,
+    path: string,
+    options: ExportCollectionOptions & { store?: VectorStoreType } = {}
+  ): Promise<ExportCollectionResult> {
+    return await exportCollection(
+      this.getVectorStore(options.store),
+      collection,
+      path,
+      options
+    );
+  }
+
+  /** Loads an archive written by `exportCollection` into a store. */
+  public async importCollection(
+    path: string,
+    options: ImportCollectionOptions & { store?: VectorStoreType } = {}
+  ): Promise<ImportCollectionResult> {
+    return await importCollection(
+      this.getVectorStore(options.store),
+      path,
+      options
+    );
+  }
+
   public isConnected(): boolean {
     let connected = false;
 
@@ -110,6 +223,10 @@ export class VectorSmithAdapter {
       connected = connected || this.qdrant.isConnected();
     }
 
+    if (this.memory) {
+      connected = connected || this.memory.isConnected();
+    }
+
     return connected;
   }
 }
@@ -0,0 +1,639 @@
+import { promises as fs } from "fs";
+import {
+  compileMemoryFilter,
+  type MetadataFilter,
+  type MetadataPredicate,
+} from "../filter";
+import { HnswIndex, type HnswOptions } from "./memory.hnsw";
+
+export interface MemoryAdapterConfig {
+  /** JSON file the collections are loaded from on connect and saved to. */
+  path?: string;
+  /** Save to `path` on disconnect. Defaults to true when `path` is set. */
+  persistOnDisconnect?: boolean;
+}
+
+export type MemoryPointId = number | string;
+
+export type MemoryDistance = "cosine" | "l2" | "inner_product";
+
+export type MemoryHnswOptions = HnswOptions;
+
+export interface MemoryCollectionOptions {
+  distance?: MemoryDistance;
+  /** Maintain an HNSW graph for approximate search; exact otherwise. */
+  hnsw?: boolean | MemoryHnswOptions;
+}
+
+export interface MemoryCollectionInfo {
+  name: string;
+  dimension: number;
+  distance: MemoryDistance;
+  count: number;
+  indexed: boolean;
+}
+
+export interface MemoryPointInput {
+  id: MemoryPointId;
+  vector: number[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface MemoryRecord {
+  id: MemoryPointId;
+  vector?: number[];
+  metadata: Record<string, unknown>;
+}
+
+export interface MemoryScrollOptions {
+  /** Id returned as `nextOffset` by the previous page; the page starts after it. */
+  offset?: MemoryPointId;
+  limit?: number;
+  filter?: MetadataFilter;
+  withVector?: boolean;
+}
+
+export interface MemoryScrollPage {
+  points: MemoryRecord[];
+  nextOffset?: MemoryPointId;
+}
+
+export interface MemorySearchOptions {
+  limit?: number;
+  filter?: MetadataFilter;
+  /**
+   * Minimum `score` for cosine and inner product, maximum for l2, like the
+   * pgvector and Qdrant adapters.
+   */
+  scoreThreshold?: number;
+  withVector?: boolean;
+  /** Skip the HNSW graph and scan every point. */
+  exact?: boolean;
+  /** HNSW candidate list size for this query. */
+  efSearch?: number;
+}
+
+/**
+ * `distance` is lower for closer points (cosine distance, Euclidean distance
+ * or negated inner product); `score` is the cosine similarity, the inner
+ * product or, for l2, the Euclidean distance.
+ */
+export interface MemorySearchResult extends MemoryRecord {
+  score: number;
+  distance: number;
+}
+
+interface MemoryPoint {
+  key: number;
+  id: MemoryPointId;
+  vector: number[];
+  norm: number;
+  metadata: Record<string, unknown>;
+}
+
+interface MemoryCollection {
+  dimension: number;
+  distance: MemoryDistance;
+  hnsw: MemoryHnswOptions | null;
+  points: Map<MemoryPointId, MemoryPoint>;
+  byKey: Map<number, MemoryPoint>;
+  nextKey: number;
+  index: HnswIndex | null;
+}
+
+interface MemorySnapshot {
+  version: 1;
+  collections: Array<{
+    name: string;
+    dimension: number;
+    distance: MemoryDistance;
+    hnsw: MemoryHnswOptions | null;
+    points: Array<{
+      id: MemoryPointId;
+      vector: number[];
+      metadata: Record<string, unknown>;
+    }>;
+  }>;
+}
+
+// Rebuild the HNSW graph once this share of its nodes are tombstones.
+const MAX_DELETED_RATIO = 0.3;
+
+/**
+ * In-process vector store: exact brute-force search with an optional HNSW
+ * index per collection, portable metadata filters and optional persistence
+ * to a JSON file. Meant for tests and offline use.
+ */
+export class MemoryAdapter {
+  private readonly config: MemoryAdapterConfig;
+  private readonly collections = new Map<string, MemoryCollection>();
+  private connected = false;
+
+  public constructor(config: MemoryAdapterConfig = {}) {
+    this.config = config;
+  }
+
+  public async connect(): Promise<void> {
+    if (this.connected) {
+      return;
+    }
+    if (this.config.path) {
+      await this.load(this.config.path, true);
+    }
+    this.connected = true;
+  }
+
+  public async disconnect(): Promise<void> {
+    if (!this.connected) {
+      return;
+    }
+    if (this.config.path && this.config.persistOnDisconnect !== false) {
+      await this.save();
+    }
+    this.connected = false;
+  }
+
+  public isConnected(): boolean {
+    return this.connected;
+  }
+
+  public async createCollection(
+    name: string,
+    dimension: number,
+    options: MemoryCollectionOptions = {}
+  ): Promise<void> {
+    this.ensureConnected();
+    if (this.collections.has(name)) {
+      throw new Error(`MemoryAdapter: collection "${name}" already exists`);
+    }
+    if (!Number.isInteger(dimension) || dimension <= 0) {
+      throw new Error("MemoryAdapter: dimension must be a positive integer");
+    }
+
+    const hnsw =
+      options.hnsw === true ? {} : options.hnsw ? { ...options.hnsw } : null;
+    const collection: MemoryCollection = {
+      dimension,
+      distance: options.distance ?? "cosine",
+      hnsw,
+      points: new Map(),
+      byKey: new Map(),
+      nextKey: 0,
+      index: null,
+    };
+    collection.index = hnsw ? this.createIndex(collection) : null;
+    this.collections.set(name, collection);
+  }
+
+  public async deleteCollection(name: string): Promise<boolean> {
+    this.ensureConnected();
+    return this.collections.delete(name);
+  }
+
+  public async hasCollection(name: string): Promise<boolean> {
+    this.ensureConnected();
+    return this.collections.has(name);
+  }
+
+  public async listCollections(): Promise<MemoryCollectionInfo[]> {
+    this.ensureConnected();
+    return Array.from(this.collections.entries()).map(([name, collection]) => ({
+      name,
+      dimension: collection.dimension,
+      distance: collection.distance,
+      count: collection.points.size,
+      indexed: collection.index !== null,
+    }));
+  }
+
+  /** Inserts points or replaces existing ones with the same id. */
+  public async upsert(
+    collectionName: string,
+    points: MemoryPointInput[]
+  ): Promise<void> {
+    const collection = this.resolveCollection(collectionName);
+    for (const point of points) {
+      this.checkDimension(collection, point.vector);
+    }
+
+    for (const point of points) {
+      const previous = collection.points.get(point.id);
+      if (previous) {
+        this.retire(collection, previous);
+      }
+
+      const stored: MemoryPoint = {
+        key: collection.nextKey++,
+        id: point.id,
+        vector: [...point.vector],
+        norm: norm(point.vector),
+        metadata: cloneMetadata(point.metadata ?? {}),
+      };
+      collection.points.set(point.id, stored);
+      collection.byKey.set(stored.key, stored);
+      collection.index?.insert(stored.key);
+    }
+    this.compactIndex(collection);
+  }
+
+  public async getPoints(
+    collectionName: string,
+    ids: MemoryPointId[],
+    withVector: boolean = true
+  ): Promise<MemoryRecord[]> {
+    const collection = this.resolveCollection(collectionName);
+    return ids
+      .map((id) => collection.points.get(id))
+      .filter((point): point is MemoryPoint => point !== undefined)
+      .map((point) => toRecord(point, withVector));
+  }
+
+  /**
+   * Pages through a collection in id order (numbers, then strings). Pages
+   * resume after the last id seen, so deletes between pages skip nothing.
+   */
+  public async scroll(
+    collectionName: string,
+    options: MemoryScrollOptions = {}
+  ): Promise<MemoryScrollPage> {
+    const collection = this.resolveCollection(collectionName);
+    const predicate = options.filter
+      ? compileMemoryFilter(options.filter)
+      : undefined;
+    const offset = options.offset;
+    const points = Array.from(collection.points.values())
+      .filter(
+        (point) => offset === undefined || compareIds(point.id, offset) > 0
+      )
+      .sort((a, b) => compareIds(a.id, b.id));
+    const limit = options.limit ?? 100;
+    const page: MemoryRecord[] = [];
+
+    let position = 0;
+    for (; position < points.length && page.length < limit; position++) {
+      if (!predicate || predicate(points[position].metadata)) {
+        page.push(toRecord(points[position], options.withVector ?? true));
+      }
+    }
+    return {
+      points: page,
+      nextOffset:
+        position > 0 && position < points.length
+          ? points[position - 1].id
+          : undefined,
+    };
+  }
+
+  public async search(
+    collectionName: string,
+    vector: number[],
+    options: MemorySearchOptions = {}
+  ): Promise<MemorySearchResult[]> {
+    const collection = this.resolveCollection(collectionName);
+    this.checkDimension(collection, vector);
+    const limit = options.limit ?? 10;
+    const predicate = options.filter
+      ? compileMemoryFilter(options.filter)
+      : undefined;
+    const queryNorm = norm(vector);
+    const distanceTo = (point: MemoryPoint) =>
+      distance(collection.distance, vector, queryNorm, point);
+
+    let hits: Array<{ point: MemoryPoint; distance: number }> | undefined;
+    if (collection.index && !options.exact) {
+      hits = collection.index
+        .search((key) => distanceTo(collection.byKey.get(key)!), limit, {
+          ef: options.efSearch,
+          accept: predicate
+            ? (key) => predicate(collection.byKey.get(key)!.metadata)
+            : undefined,
+        })
+        .map((hit) => ({
+          point: collection.byKey.get(hit.key)!,
+          distance: hit.distance,
+        }));
+      // A selective filter can starve the graph walk; fall back to a scan.
+      if (predicate && hits.length < limit) {
+        hits = undefined;
+      }
+    }
+    hits ??= this.scan(collection, distanceTo, limit, predicate);
+
+    const maxDistance =
+      options.scoreThreshold !== undefined
+        ? toScore(collection.distance, options.scoreThreshold)
+        : undefined;
+
+    return hits
+      .filter((hit) => maxDistance === undefined || hit.distance <= maxDistance)
+      .map((hit) => ({
+        ...toRecord(hit.point, options.withVector ?? false),
+        distance: hit.distance,
+        score: toScore(collection.distance, hit.distance),
+      }));
+  }
+
+  /**
+   * Deletes points by id (array form) or every point matching `filter`.
+   * Returns the number of deleted points.
+   */
+  public async deletePoints(
+    collectionName: string,
+    selector: MemoryPointId[] | { filter: MetadataFilter }
+  ): Promise<number> {
+    const collection = this.resolveCollection(collectionName);
+    let targets: MemoryPoint[];
+    if (Array.isArray(selector)) {
+      targets = selector
+        .map((id) => collection.points.get(id))
+        .filter((point): point is MemoryPoint => point !== undefined);
+    } else {
+      const predicate = compileMemoryFilter(selector.filter);
+      targets = Array.from(collection.points.values()).filter((point) =>
+        predicate(point.metadata)
+      );
+    }
+
+    for (const point of targets) {
+      collection.points.delete(point.id);
+      this.retire(collection, point);
+    }
+    this.compactIndex(collection);
+    return targets.length;
+  }
+
+  public async countPoints(
+    collectionName: string,
+    filter?: MetadataFilter
+  ): Promise<number> {
+    const collection = this.resolveCollection(collectionName);
+    if (!filter) {
+      return collection.points.size;
+    }
+    const predicate = compileMemoryFilter(filter);
+    let count = 0;
+    for (const point of collection.points.values()) {
+      if (predicate(point.metadata)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Replaces the metadata of a point, or merges it into the existing object
+   * (top-level keys) when `merge` is true. Returns false if no point matched.
+   */
+  public async updateMetadata(
+    collectionName: string,
+    id: MemoryPointId,
+    metadata: Record<string, unknown>,
+    merge: boolean = false
+  ): Promise<boolean> {
+    const collection = this.resolveCollection(collectionName);
+    const point = collection.points.get(id);
+    if (!point) {
+      return false;
+    }
+    point.metadata = cloneMetadata(
+      merge ? { ...point.metadata, ...metadata } : metadata
+    );
+    return true;
+  }
+
+  /**
+   * Writes every collection to `path` (defaults to the configured path).
+   * The file is written next to the target and renamed over it, so a crash
+   * never leaves a truncated snapshot.
+   */
+  public async save(
+    path: string | undefined = this.config.path
+  ): Promise<void> {
+    if (!path) {
+      throw new Error("MemoryAdapter: no path configured to save to");
+    }
+    const snapshot: MemorySnapshot = {
+      version: 1,
+      collections: Array.from(this.collections.entries()).map(
+        ([name, collection]) => ({
+          name,
+          dimension: collection.dimension,
+          distance: collection.distance,
+          hnsw: collection.hnsw,
+          points: Array.from(collection.points.values()).map((point) => ({
+            id: point.id,
+            vector: point.vector,
+            metadata: point.metadata,
+          })),
+        })
+      ),
+    };
+
+    const temporary = `${path}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(snapshot));
+    await fs.rename(temporary, path);
+  }
+
+  /**
+   * Replaces all collections with the snapshot at `path` (defaults to the
+   * configured path) and rebuilds HNSW indexes.
+   */
+  public async load(
+    path: string | undefined = this.config.path,
+    ignoreMissing: boolean = false
+  ): Promise<void> {
+    if (!path) {
+      throw new Error("MemoryAdapter: no path configured to load from");
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(path, "utf8");
+    } catch (error) {
+      if (ignoreMissing && (error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      throw error;
+    }
+
+    const snapshot = JSON.parse(content) as MemorySnapshot;
+    if (snapshot.version !== 1 || !Array.isArray(snapshot.collections)) {
+      throw new Error(`MemoryAdapter: unsupported snapshot format in ${path}`);
+    }
+
+    this.collections.clear();
+    for (const saved of snapshot.collections) {
+      const collection: MemoryCollection = {
+        dimension: saved.dimension,
+        distance: saved.distance,
+        hnsw: saved.hnsw,
+        points: new Map(),
+        byKey: new Map(),
+        nextKey: 0,
+        index: null,
+      };
+      for (const point of saved.points) {
+        this.checkDimension(collection, point.vector);
+        const stored: MemoryPoint = {
+          key: collection.nextKey++,
+          id: point.id,
+          vector: point.vector,
+          norm: norm(point.vector),
+          metadata: point.metadata ?? {},
+        };
+        collection.points.set(stored.id, stored);
+        collection.byKey.set(stored.key, stored);
+      }
+      collection.index = saved.hnsw ? this.createIndex(collection) : null;
+      this.collections.set(saved.name, collection);
+    }
+  }
+
+  private scan(
+    collection: MemoryCollection,
+    distanceTo: (point: MemoryPoint) => number,
+    limit: number,
+    predicate?: MetadataPredicate
+  ): Array<{ point: MemoryPoint; distance: number }> {
+    const hits: Array<{ point: MemoryPoint; distance: number }> = [];
+    for (const point of collection.points.values()) {
+      if (!predicate || predicate(point.metadata)) {
+        hits.push({ point, distance: distanceTo(point) });
+      }
+    }
+    return hits.sort((a, b) => a.distance - b.distance).slice(0, limit);
+  }
+
+  /** Builds an HNSW graph over the live points of `collection`. */
+  private createIndex(collection: MemoryCollection): HnswIndex {
+    const index = new HnswIndex((a, b) => {
+      const from = collection.byKey.get(a)!;
+      return distance(
+        collection.distance,
+        from.vector,
+        from.norm,
+        collection.byKey.get(b)!
+      );
+    }, collection.hnsw ?? {});
+    for (const point of collection.points.values()) {
+      index.insert(point.key);
+    }
+    return index;
+  }
+
+  /**
+   * Drops a replaced or deleted point. With an index the point stays in
+   * `byKey` until compaction, since the graph still walks its tombstone.
+   */
+  private retire(collection: MemoryCollection, point: MemoryPoint): void {
+    if (collection.index) {
+      collection.index.remove(point.key);
+    } else {
+      collection.byKey.delete(point.key);
+    }
+  }
+
+  private compactIndex(collection: MemoryCollection): void {
+    if (
+      !collection.index ||
+      collection.index.deletedRatio <= MAX_DELETED_RATIO
+    ) {
+      return;
+    }
+    collection.byKey = new Map(
+      Array.from(collection.points.values(), (point) => [point.key, point])
+    );
+    collection.index = this.createIndex(collection);
+  }
+
+  private checkDimension(collection: MemoryCollection, vector: number[]): void {
+    if (vector.length !== collection.dimension) {
+      throw new Error(
+        `MemoryAdapter: expected a vector of ${collection.dimension} dimensions, got ${vector.length}`
+      );
+    }
+  }
+
+  private resolveCollection(name: string): MemoryCollection {
+    this.ensureConnected();
+    const collection = this.collections.get(name);
+    if (!collection) {
+      throw new Error(`MemoryAdapter: collection "${name}" does not exist`);
+    }
+    return collection;
+  }
+
+  private ensureConnected(): void {
+    if (!this.connected) {
+      throw new Error("Memory store is not connected. Call connect() first.");
+    }
+  }
+}
+
+function distance(
+  metric: MemoryDistance,
+  query: number[],
+  queryNorm: number,
+  point: MemoryPoint
+): number {
+  if (metric === "l2") {
+    let sum = 0;
+    for (let i = 0; i < query.length; i++) {
+      const diff = query[i] - point.vector[i];
+      sum += diff * diff;
+    }
+    return Math.sqrt(sum);
+  }
+
+  let dot = 0;
+  for (let i = 0; i < query.length; i++) {
+    dot += query[i] * point.vector[i];
+  }
+  if (metric === "inner_product") {
+    return -dot;
+  }
+  const denominator = queryNorm * point.norm;
+  return denominator > 0 ? 1 - dot / denominator : 1;
+}
+
+/** Same conversion as the pgvector adapter; it is its own inverse. */
+function toScore(metric: MemoryDistance, value: number): number {
+  switch (metric) {
+    case "cosine":
+      return 1 - value;
+    case "inner_product":
+      return -value;
+    case "l2":
+      return value;
+  }
+}
+
+function norm(vector: number[]): number {
+  let sum = 0;
+  for (const value of vector) {
+    sum += value * value;
+  }
+  return Math.sqrt(sum);
+}
+
+/** Numbers before strings, each in natural order. */
+function compareIds(a: MemoryPointId, b: MemoryPointId): number {
+  if (typeof a !== typeof b) {
+    return typeof a === "number" ? -1 : 1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function toRecord(point: MemoryPoint, withVector: boolean): MemoryRecord {
+  return {
+    id: point.id,
+    vector: withVector ? [...point.vector] : undefined,
+    metadata: cloneMetadata(point.metadata),
+  };
+}
+
+function cloneMetadata(
+  metadata: Record<string, unknown>
+): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(metadata));
+}
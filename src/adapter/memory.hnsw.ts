@@ -0,0 +1,353 @@
+export interface HnswOptions {
+  /** Max neighbours per node on upper layers; layer 0 keeps 2 x m. */
+  m?: number;
+  efConstruction?: number;
+  /** Default candidate list size at query time. */
+  efSearch?: number;
+  /** Seed of the level generator, so builds are reproducible. */
+  seed?: number;
+}
+
+interface HnswNode {
+  key: number;
+  level: number;
+  neighbours: number[][];
+  deleted: boolean;
+}
+
+interface Candidate {
+  node: number;
+  distance: number;
+}
+
+/**
+ * Hierarchical navigable small world graph over externally stored vectors.
+ * Nodes are addressed by numeric keys; `distance(key)` measures the distance
+ * from the current query to the vector of `key`. Removals are tombstones,
+ * which the owner compacts by rebuilding once they pile up.
+ */
+export class HnswIndex {
+  private readonly pairDistance: (a: number, b: number) => number;
+  private readonly m: number;
+  private readonly m0: number;
+  private readonly efConstruction: number;
+  private readonly efSearch: number;
+  private readonly levelFactor: number;
+  private readonly random: () => number;
+  private readonly nodes: HnswNode[] = [];
+  private readonly byKey = new Map<number, number>();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private deletedCount = 0;
+
+  public constructor(
+    pairDistance: (a: number, b: number) => number,
+    options: HnswOptions = {}
+  ) {
+    this.pairDistance = pairDistance;
+    this.m = options.m ?? 16;
+    this.m0 = this.m * 2;
+    this.efConstruction = options.efConstruction ?? 200;
+    this.efSearch = options.efSearch ?? 64;
+    this.levelFactor = 1 / Math.log(Math.max(this.m, 2));
+    this.random = mulberry32(options.seed ?? 42);
+  }
+
+  public get size(): number {
+    return this.nodes.length - this.deletedCount;
+  }
+
+  /** Share of nodes that are tombstones. */
+  public get deletedRatio(): number {
+    return this.nodes.length > 0 ? this.deletedCount / this.nodes.length : 0;
+  }
+
+  public insert(key: number): void {
+    if (this.byKey.has(key)) {
+      this.remove(key);
+    }
+
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelFactor);
+    const node = this.nodes.length;
+    this.nodes.push({
+      key,
+      level,
+      neighbours: Array.from({ length: level + 1 }, () => []),
+      deleted: false,
+    });
+    this.byKey.set(key, node);
+
+    if (this.entryPoint < 0) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+      return;
+    }
+
+    const distance = (other: number) =>
+      this.pairDistance(key, this.nodes[other].key);
+    let entry: Candidate = {
+      node: this.entryPoint,
+      distance: distance(this.entryPoint),
+    };
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entry = this.greedy(entry, layer, distance);
+    }
+
+    let entries = [entry];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(
+        entries,
+        this.efConstruction,
+        layer,
+        distance
+      );
+      const capacity = layer === 0 ? this.m0 : this.m;
+      const selected = candidates.slice(0, this.m);
+      this.nodes[node].neighbours[layer] = selected.map((c) => c.node);
+      for (const neighbour of selected) {
+        this.connect(neighbour.node, node, layer, capacity);
+      }
+      entries = candidates;
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+    }
+  }
+
+  public remove(key: number): void {
+    const node = this.byKey.get(key);
+    if (node === undefined) {
+      return;
+    }
+    this.byKey.delete(key);
+    this.nodes[node].deleted = true;
+    this.deletedCount++;
+  }
+
+  /**
+   * Returns up to `limit` keys accepted by `accept`, closest first.
+   * Tombstones and rejected nodes are still traversed, so selective filters
+   * may return fewer than `limit` results.
+   */
+  public search(
+    distance: (key: number) => number,
+    limit: number,
+    options: { ef?: number; accept?: (key: number) => boolean } = {}
+  ): Array<{ key: number; distance: number }> {
+    if (this.entryPoint < 0 || this.size === 0) {
+      return [];
+    }
+
+    const nodeDistance = (node: number) => distance(this.nodes[node].key);
+    let entry: Candidate = {
+      node: this.entryPoint,
+      distance: nodeDistance(this.entryPoint),
+    };
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entry = this.greedy(entry, layer, nodeDistance);
+    }
+
+    const accept = options.accept;
+    const candidates = this.searchLayer(
+      [entry],
+      Math.max(options.ef ?? this.efSearch, limit),
+      0,
+      nodeDistance,
+      (node) =>
+        !this.nodes[node].deleted && (!accept || accept(this.nodes[node].key))
+    );
+
+    return candidates
+      .slice(0, limit)
+      .map((c) => ({ key: this.nodes[c.node].key, distance: c.distance }));
+  }
+
+  private greedy(
+    entry: Candidate,
+    layer: number,
+    distance: (node: number) => number
+  ): Candidate {
+    let current = entry;
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (const neighbour of this.nodes[current.node].neighbours[layer] ??
+        []) {
+        const d = distance(neighbour);
+        if (d < current.distance) {
+          current = { node: neighbour, distance: d };
+          improved = true;
+        }
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Best-first search of one layer. Returns the `ef` closest nodes that pass
+   * `include` (all nodes when omitted), closest first.
+   */
+  private searchLayer(
+    entries: Candidate[],
+    ef: number,
+    layer: number,
+    distance: (node: number) => number,
+    include?: (node: number) => boolean
+  ): Candidate[] {
+    const visited = new Set<number>();
+    const frontier = new BinaryHeap<Candidate>(
+      (a, b) => a.distance - b.distance
+    );
+    const results = new BinaryHeap<Candidate>(
+      (a, b) => b.distance - a.distance
+    );
+
+    for (const entry of entries) {
+      if (visited.has(entry.node)) {
+        continue;
+      }
+      visited.add(entry.node);
+      frontier.push(entry);
+      if (!include || include(entry.node)) {
+        results.push(entry);
+      }
+    }
+    while (results.size > ef) {
+      results.pop();
+    }
+
+    while (frontier.size > 0) {
+      const closest = frontier.pop()!;
+      const worst = results.peek();
+      if (worst && results.size >= ef && closest.distance > worst.distance) {
+        break;
+      }
+
+      for (const neighbour of this.nodes[closest.node].neighbours[layer] ??
+        []) {
+        if (visited.has(neighbour)) {
+          continue;
+        }
+        visited.add(neighbour);
+        const d = distance(neighbour);
+        const bound = results.peek();
+        if (results.size < ef || !bound || d < bound.distance) {
+          frontier.push({ node: neighbour, distance: d });
+          if (!include || include(neighbour)) {
+            results.push({ node: neighbour, distance: d });
+            if (results.size > ef) {
+              results.pop();
+            }
+          }
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => a.distance - b.distance);
+  }
+
+  /** Adds `to` to the neighbours of `from`, keeping the closest `capacity`. */
+  private connect(
+    from: number,
+    to: number,
+    layer: number,
+    capacity: number
+  ): void {
+    const neighbours = this.nodes[from].neighbours[layer];
+    neighbours.push(to);
+    if (neighbours.length <= capacity) {
+      return;
+    }
+    const fromKey = this.nodes[from].key;
+    const ranked = neighbours
+      .map((node) => ({
+        node,
+        distance: this.pairDistance(fromKey, this.nodes[node].key),
+      }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, capacity);
+    this.nodes[from].neighbours[layer] = ranked.map((c) => c.node);
+  }
+}
+
+class BinaryHeap<T> {
+  private readonly items: T[] = [];
+  private readonly compare: (a: T, b: T) => number;
+
+  public constructor(compare: (a: T, b: T) => number) {
+    this.compare = compare;
+  }
+
+  public get size(): number {
+    return this.items.length;
+  }
+
+  public peek(): T | undefined {
+    return this.items[0];
+  }
+
+  public push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(items[index], items[parent]) >= 0) {
+        break;
+      }
+      [items[index], items[parent]] = [items[parent], items[index]];
+      index = parent;
+    }
+  }
+
+  public pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length === 0 || last === undefined) {
+      return top;
+    }
+    items[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (
+        left < items.length &&
+        this.compare(items[left], items[smallest]) < 0
+      ) {
+        smallest = left;
+      }
+      if (
+        right < items.length &&
+        this.compare(items[right], items[smallest]) < 0
+      ) {
+        smallest = right;
+      }
+      if (smallest === index) {
+        break;
+      }
+      [items[index], items[smallest]] = [items[smallest], items[index]];
+      index = smallest;
+    }
+    return top;
+  }
+
+  public toArray(): T[] {
+    return [...this.items];
+  }
+}
+
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
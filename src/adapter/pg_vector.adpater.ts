@@ -1,4 +1,10 @@
 import { Pool, PoolClient } from "pg";
+import { compilePgVectorFilter, type MetadataFilter } from "../filter";
+import {
+  fuseRankings,
+  type FusionOptions,
+  type RankedCandidate,
+} from "../fusion";
 
 export interface PgVectorAdapterConfig {
   url?: string;
@@ -8,14 +14,282 @@ export interface PgVectorAdapterConfig {
   password?: string;
   database?: string;
   ssl?: boolean;
+  /** Schemas of tables the adapter works with, keyed by table name. */
+  tables?: Record<string, PgVectorTableSchema>;
 }
 
+export type PgVectorId = number | string;
+
+export type PgVectorIdType = "serial" | "bigint" | "uuid" | "text";
+
+/**
+ * Layout of a vector table. Tables without a registered schema use the
+ * defaults: `id SERIAL`, `embedding`, `metadata` and `created_at` columns in
+ * the connection's current schema.
+ */
+export interface PgVectorTableSchema {
+  /** Postgres schema holding the table. */
+  schemaName?: string;
+  /**
+   * `serial` and `uuid` ids are generated by the database; `bigint` and
+   * `text` ids must be provided by the caller. Defaults to `serial`.
+   */
+  idType?: PgVectorIdType;
+  idColumn?: string;
+  embeddingColumn?: string;
+  metadataColumn?: string;
+  /** `null` creates the table without a timestamp column. */
+  createdAtColumn?: string | null;
+  /** Extra columns as name → SQL type, e.g. `{ source: "TEXT" }`. */
+  columns?: Record<string, string>;
+  /** Stores the source text with a generated tsvector for full-text search. */
+  textSearch?: PgVectorTextSearchSchema;
+}
+
+export interface PgVectorTextSearchSchema {
+  /** Defaults to `content`. */
+  textColumn?: string;
+  /** Defaults to `<textColumn>_tsv`. */
+  tsvectorColumn?: string;
+  /** Text search configuration, e.g. `english`, `italian`, `simple`. */
+  language?: string;
+}
+
+export type PgVectorDistanceFunction = "cosine" | "l2" | "inner_product";
+
+export type PgVectorIndexMethod = "hnsw" | "ivfflat";
+
+export interface PgVectorIndexOptions {
+  method: PgVectorIndexMethod;
+  distanceFunction?: PgVectorDistanceFunction;
+  /** Defaults to `<table>_embedding_<method>_<distance>_idx`. */
+  name?: string;
+  /** HNSW: max connections per layer (pgvector default 16). */
+  m?: number;
+  /** HNSW: candidate list size while building (pgvector default 64). */
+  efConstruction?: number;
+  /** IVFFlat: number of inverted lists (pgvector default 100). */
+  lists?: number;
+  concurrently?: boolean;
+}
+
+export interface PgVectorIndexInfo {
+  name: string;
+  method: string;
+  distanceFunction?: PgVectorDistanceFunction;
+  definition: string;
+}
+
+export interface PgVectorSearchOptions {
+  /** Applied as a WHERE clause over the `metadata` column before ranking. */
+  filter?: MetadataFilter;
+  /** Sets `hnsw.ef_search` for this query only. */
+  efSearch?: number;
+  /** Sets `ivfflat.probes` for this query only. */
+  probes?: number;
+  /**
+   * Minimum `score` for cosine and inner product, maximum for l2, like
+   * Qdrant's `score_threshold`.
+   */
+  scoreThreshold?: number;
+  /** Maximum pgvector `distance` of returned rows. */
+  maxDistance?: number;
+  /** Set to false to leave `embedding` out of the results. Defaults to true. */
+  includeEmbedding?: boolean;
+}
+
+/** How the query string is turned into a tsquery. */
+export type PgVectorTextQueryMode = "websearch" | "plain" | "phrase" | "raw";
+
+export interface PgVectorTextSearchOptions {
+  filter?: MetadataFilter;
+  /** Overrides the table's text search configuration for parsing the query. */
+  language?: string;
+  /** Defaults to `websearch` (quoted phrases, `or`, `-term`). */
+  queryMode?: PgVectorTextQueryMode;
+  /** `ts_rank` normalization bitmask (0 = ignore document length). */
+  normalization?: number;
+  includeEmbedding?: boolean;
+}
+
+export interface PgVectorTextSearchResult extends PgVectorRecord {
+  /** `ts_rank` of the row; higher is better. */
+  rank: number;
+}
+
+export type PgVectorHybridSignal = "vector" | "text";
+
+export interface PgVectorHybridQuery {
+  vector: number[];
+  text: string;
+}
+
+export interface PgVectorHybridSearchOptions
+  extends Pick<
+      PgVectorSearchOptions,
+      "filter" | "efSearch" | "probes" | "includeEmbedding"
+    >,
+    Omit<PgVectorTextSearchOptions, "filter" | "includeEmbedding">,
+    Omit<FusionOptions<PgVectorHybridSignal>, "limit"> {
+  distanceFunction?: PgVectorDistanceFunction;
+  /** Candidates fetched per signal before fusion; defaults to 4 x limit. */
+  candidateLimit?: number;
+}
+
+/**
+ * `score` is the fused score. `scores.vector` is the similarity score of
+ * searchSimilar and `scores.text` the `ts_rank`; a signal that did not
+ * return the row is absent from `scores` and `ranks`.
+ */
+export interface PgVectorHybridSearchResult extends PgVectorRecord {
+  score: number;
+  distance?: number;
+  scores: Partial<Record<PgVectorHybridSignal, number>>;
+  ranks: Partial<Record<PgVectorHybridSignal, number>>;
+}
+
+/**
+ * `distance` is the value of the pgvector operator used for ordering (lower
+ * is closer): cosine distance (`<=>`), Euclidean distance (`<->`) or the
+ * negated inner product (`<#>`). `score` is the cosine similarity, the inner
+ * product or, for l2, the Euclidean distance.
+ */
+export interface PgVectorSearchResult extends PgVectorRecord {
+  distance: number;
+  score: number;
+}
+
+export interface PgVectorRecord {
+  id: PgVectorId;
+  embedding?: number[];
+  metadata: unknown;
+  /** Source text, for tables with `textSearch`. */
+  text?: string | null;
+  /** Values of the extra columns declared in the table schema. */
+  columns?: Record<string, unknown>;
+}
+
+export interface PgVectorScanOptions {
+  /** Id of the last row of the previous page; omit to start from the first. */
+  afterId?: PgVectorId;
+  /** Rows per page. Defaults to 500. */
+  limit?: number;
+  filter?: MetadataFilter;
+  includeEmbedding?: boolean;
+}
+
+export interface PgVectorRecordInput {
+  /** Required for `bigint` and `text` ids, optional otherwise. */
+  id?: PgVectorId;
+  embedding: number[];
+  metadata?: Record<string, unknown>;
+  columns?: Record<string, unknown>;
+  /** Source text; requires a table with `textSearch`. */
+  text?: string | null;
+}
+
+export interface PgVectorUpsertInput extends PgVectorRecordInput {
+  id: PgVectorId;
+}
+
+export interface PgVectorBulkOptions {
+  /** Rows per multi-row INSERT; each batch runs in its own transaction. */
+  batchSize?: number;
+  /** Stop at the first failing batch instead of continuing with the next. */
+  stopOnError?: boolean;
+}
+
+export interface PgVectorUpsertOptions extends PgVectorBulkOptions {
+  /** `update` overwrites existing rows, `ignore` keeps them. */
+  onConflict?: "update" | "ignore";
+}
+
+export interface PgVectorBatchFailure {
+  batchIndex: number;
+  /** Position of the first record of the batch in the input array. */
+  startIndex: number;
+  size: number;
+  error: Error;
+}
+
+export interface PgVectorBulkResult {
+  /** Ids in input order; `null` for records of failed or skipped batches. */
+  ids: Array<PgVectorId | null>;
+  written: number;
+  failures: PgVectorBatchFailure[];
+}
+
+interface PgVectorTable {
+  /** Schema-qualified, escaped table name. */
+  name: string;
+  schemaName?: string;
+  idType: PgVectorIdType;
+  id: string;
+  /** Raw id column name. */
+  idColumn: string;
+  embedding: string;
+  metadata: string;
+  createdAt: string | null;
+  /** Raw extra column name → SQL type. */
+  columns: Record<string, string>;
+  textSearch: {
+    text: string;
+    tsvector: string;
+    language: string;
+  } | null;
+}
+
+const DEFAULT_BATCH_SIZE = 500;
+
+const ID_COLUMN_TYPES: Record<PgVectorIdType, string> = {
+  serial: "SERIAL PRIMARY KEY",
+  bigint: "BIGINT PRIMARY KEY",
+  uuid: "UUID PRIMARY KEY DEFAULT gen_random_uuid()",
+  text: "TEXT PRIMARY KEY",
+};
+
+const ID_SQL_TYPES: Record<PgVectorIdType, string> = {
+  serial: "integer",
+  bigint: "bigint",
+  uuid: "uuid",
+  text: "text",
+};
+
+// Output aliases used by every SELECT; extra columns may not reuse them.
+const RESERVED_ALIASES = ["id", "embedding", "metadata", "distance"];
+
+const TSQUERY_FUNCTIONS: Record<PgVectorTextQueryMode, string> = {
+  websearch: "websearch_to_tsquery",
+  plain: "plainto_tsquery",
+  phrase: "phraseto_tsquery",
+  raw: "to_tsquery",
+};
+
+const DISTANCE_OPERATORS: Record<PgVectorDistanceFunction, string> = {
+  cosine: "<=>",
+  l2: "<->",
+  inner_product: "<#>",
+};
+
+/** Largest `vector` column pgvector's HNSW and IVFFlat indexes accept. */
+export const PGVECTOR_MAX_INDEX_DIMENSIONS = 2000;
+
+const OPERATOR_CLASSES: Record<PgVectorDistanceFunction, string> = {
+  cosine: "vector_cosine_ops",
+  l2: "vector_l2_ops",
+  inner_product: "vector_ip_ops",
+};
+
 export class PgVectorAdapter {
   private pool: Pool | null = null;
   private readonly config: PgVectorAdapterConfig;
+  private readonly tables = new Map<string, PgVectorTableSchema>();
 
   public constructor(config: PgVectorAdapterConfig = {}) {
     this.config = config;
+    for (const [tableName, schema] of Object.entries(config.tables ?? {})) {
+      this.defineTable(tableName, schema);
+    }
   }
 
   public async connect(): Promise<void> {
@@ -57,19 +331,71 @@ export class PgVectorAdapter {
     }
   }
 
+  /**
+   * Registers the layout of `tableName`, e.g. to work with an existing table.
+   * createTable registers its schema argument the same way.
+   */
+  public defineTable(tableName: string, schema: PgVectorTableSchema): void {
+    for (const [column, type] of Object.entries(schema.columns ?? {})) {
+      if (
+        RESERVED_ALIASES.includes(column) ||
+        (schema.textSearch && column === "text")
+      ) {
+        throw new Error(
+          `PgVectorAdapter: extra column "${column}" clashes with a reserved name`
+        );
+      }
+      if (!/^[A-Za-z][A-Za-z0-9_ ,()\[\]]*$/.test(type)) {
+        throw new Error(
+          `PgVectorAdapter: invalid SQL type "${type}" for column "${column}"`
+        );
+      }
+    }
+    if (schema.textSearch?.language !== undefined) {
+      toLanguage(schema.textSearch.language);
+    }
+    this.tables.set(tableName, schema);
+  }
+
   public async createTable(
     tableName: string,
-    vectorDimension: number
+    vectorDimension: number,
+    schema?: PgVectorTableSchema
   ): Promise<void> {
     this.ensureConnected();
+    if (schema) {
+      this.defineTable(tableName, schema);
+    }
+    const table = this.resolveTable(tableName);
+    const definitions = [
+      `${table.id} ${ID_COLUMN_TYPES[table.idType]}`,
+      `${table.embedding} vector(${toPositiveInteger(
+        vectorDimension,
+        "vectorDimension"
+      )})`,
+      `${table.metadata} JSONB`,
+      ...Object.entries(table.columns).map(
+        ([column, type]) => `${this.escapeIdentifier(column)} ${type}`
+      ),
+    ];
+    if (table.textSearch) {
+      const { text, tsvector, language } = table.textSearch;
+      definitions.push(
+        `${text} TEXT`,
+        `${tsvector} tsvector GENERATED ALWAYS AS (to_tsvector('${language}'::regconfig, coalesce(${text}, ''))) STORED`
+      );
+    }
+    if (table.createdAt) {
+      definitions.push(
+        `${table.createdAt} TIMESTAMP DEFAULT CURRENT_TIMESTAMP`
+      );
+    }
+
     const client = await this.pool!.connect();
     try {
       await client.query(`
-        CREATE TABLE IF NOT EXISTS ${this.escapeIdentifier(tableName)} (
-          id SERIAL PRIMARY KEY,
-          embedding vector(${vectorDimension}),
-          metadata JSONB,
-          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        CREATE TABLE IF NOT EXISTS ${table.name} (
+          ${definitions.join(",\n          ")}
         )
       `);
     } finally {
@@ -80,83 +406,660 @@ export class PgVectorAdapter {
   public async insertVector(
     tableName: string,
     embedding: number[],
-    metadata?: Record<string, unknown>
-  ): Promise<number> {
+    metadata?: Record<string, unknown>,
+    options: Pick<PgVectorRecordInput, "id" | "columns" | "text"> = {}
+  ): Promise<PgVectorId> {
     this.ensureConnected();
+    const table = this.resolveTable(tableName);
     const client = await this.pool!.connect();
     try {
-      const vectorString = `[${embedding.join(",")}]`;
+      const params: unknown[] = [];
+      const insert = this.buildInsert(
+        table,
+        [{ ...options, embedding, metadata }],
+        params
+      );
       const result = await client.query(
-        `INSERT INTO ${this.escapeIdentifier(tableName)} (embedding, metadata) 
-         VALUES ($1::vector, $2::jsonb) 
-         RETURNING id`,
-        [vectorString, metadata ? JSON.stringify(metadata) : null]
+        `${insert} RETURNING ${table.id} AS id`,
+        params
       );
+      if (options.id !== undefined) {
+        await this.syncIdSequence(client, table);
+      }
       return result.rows[0].id;
     } finally {
       client.release();
     }
   }
 
+  public async upsertVector(
+    tableName: string,
+    id: PgVectorId,
+    embedding: number[],
+    metadata?: Record<string, unknown>
+  ): Promise<void> {
+    const result = await this.upsertVectors(tableName, [
+      { id, embedding, metadata },
+    ]);
+    if (result.failures.length > 0) {
+      throw result.failures[0].error;
+    }
+  }
+
+  public async insertVectors(
+    tableName: string,
+    records: PgVectorRecordInput[],
+    options: PgVectorBulkOptions = {}
+  ): Promise<PgVectorBulkResult> {
+    const table = this.resolveTable(tableName);
+    return await this.writeBatches(records, options, async (client, batch) => {
+      const params: unknown[] = [];
+      // Rows of a single multi-row INSERT are returned in VALUES order.
+      const result = await client.query(
+        `${this.buildInsert(table, batch, params)} RETURNING ${table.id} AS id`,
+        params
+      );
+      if (batch.some((record) => record.id !== undefined)) {
+        await this.syncIdSequence(client, table);
+      }
+      return result.rows.map((row) => row.id as PgVectorId);
+    });
+  }
+
+  /**
+   * Inserts rows or replaces them by id. The embedding and metadata are
+   * always written; text and extra columns only when the record sets them.
+   */
+  public async upsertVectors(
+    tableName: string,
+    records: PgVectorUpsertInput[],
+    options: PgVectorUpsertOptions = {}
+  ): Promise<PgVectorBulkResult> {
+    const table = this.resolveTable(tableName);
+
+    return await this.writeBatches(records, options, async (client, batch) => {
+      // ON CONFLICT cannot touch the same row twice in one statement, so the
+      // last occurrence of a repeated id wins.
+      const latest = new Map<PgVectorId, PgVectorUpsertInput>();
+      for (const record of batch) {
+        latest.delete(record.id);
+        latest.set(record.id, record);
+      }
+      // A row only overwrites the text and extra columns it supplies, so
+      // rows supplying different columns go into separate statements.
+      const groups = new Map<string, PgVectorUpsertInput[]>();
+      for (const record of latest.values()) {
+        const key = JSON.stringify([
+          this.batchHasText(table, [record]),
+          this.batchColumns(table, [record]),
+        ]);
+        groups.set(key, [...(groups.get(key) ?? []), record]);
+      }
+
+      for (const rows of groups.values()) {
+        const updated = [
+          table.embedding,
+          table.metadata,
+          ...(this.batchHasText(table, rows) ? [table.textSearch!.text] : []),
+          ...this.batchColumns(table, rows).map((column) =>
+            this.escapeIdentifier(column)
+          ),
+        ];
+        const conflictAction =
+          options.onConflict === "ignore"
+            ? "DO NOTHING"
+            : `DO UPDATE SET ${updated
+                .map((column) => `${column} = EXCLUDED.${column}`)
+                .join(", ")}`;
+
+        const params: unknown[] = [];
+        await client.query(
+          `${this.buildInsert(table, rows, params)}
+           ON CONFLICT (${table.id}) ${conflictAction}`,
+          params
+        );
+      }
+      await this.syncIdSequence(client, table);
+      return batch.map((record) => record.id);
+    });
+  }
+
+  public async getById(
+    tableName: string,
+    id: PgVectorId,
+    includeEmbedding: boolean = true
+  ): Promise<PgVectorRecord | null> {
+    this.ensureConnected();
+    const table = this.resolveTable(tableName);
+    const client = await this.pool!.connect();
+    try {
+      const result = await client.query(
+        `SELECT ${this.selectList(table, includeEmbedding)}
+         FROM ${table.name}
+         WHERE ${table.id} = $1`,
+        [id]
+      );
+      return result.rows.length > 0
+        ? this.toRecord(table, result.rows[0], includeEmbedding)
+        : null;
+    } finally {
+      client.release();
+    }
+  }
+
+  /** Fetches several rows by id; ids without a row are left out. */
+  public async getMany(
+    tableName: string,
+    ids: PgVectorId[],
+    includeEmbedding: boolean = true
+  ): Promise<PgVectorRecord[]> {
+    this.ensureConnected();
+    if (ids.length === 0) {
+      return [];
+    }
+    const table = this.resolveTable(tableName);
+    const client = await this.pool!.connect();
+    try {
+      const result = await client.query(
+        `SELECT ${this.selectList(table, includeEmbedding)}
+         FROM ${table.name}
+         WHERE ${table.id} = ANY($1::${ID_SQL_TYPES[table.idType]}[])`,
+        [ids]
+      );
+      return result.rows.map((row) =>
+        this.toRecord(table, row, includeEmbedding)
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Pages through a table in id order (keyset pagination): pass the id of
+   * the last returned row as `afterId` to get the next page. An empty page
+   * means the end of the table.
+   */
+  public async scanVectors(
+    tableName: string,
+    options: PgVectorScanOptions = {}
+  ): Promise<PgVectorRecord[]> {
+    this.ensureConnected();
+    const table = this.resolveTable(tableName);
+    const includeEmbedding = options.includeEmbedding ?? true;
+    const params: unknown[] = [
+      toPositiveInteger(options.limit ?? DEFAULT_BATCH_SIZE, "limit"),
+    ];
+    const conditions: string[] = [];
+    if (options.afterId !== undefined) {
+      params.push(options.afterId);
+      conditions.push(
+        `${table.id} > $${params.length}::${ID_SQL_TYPES[table.idType]}`
+      );
+    }
+    if (options.filter) {
+      conditions.push(
+        compilePgVectorFilter(options.filter, params, table.metadata)
+      );
+    }
+
+    const client = await this.pool!.connect();
+    try {
+      const result = await client.query(
+        `SELECT ${this.selectList(table, includeEmbedding)}
+         FROM ${table.name}
+         ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+         ORDER BY ${table.id}
+         LIMIT $1`,
+        params
+      );
+      return result.rows.map((row) =>
+        this.toRecord(table, row, includeEmbedding)
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Replaces the metadata of a row, or merges it into the existing object
+   * (top-level keys) when `merge` is true. Returns false if no row matched.
+   */
+  public async updateMetadata(
+    tableName: string,
+    id: PgVectorId,
+    metadata: Record<string, unknown>,
+    merge: boolean = false
+  ): Promise<boolean> {
+    this.ensureConnected();
+    const table = this.resolveTable(tableName);
+    const client = await this.pool!.connect();
+    try {
+      const value = merge
+        ? `COALESCE(${table.metadata}, '{}'::jsonb) || $2::jsonb`
+        : "$2::jsonb";
+      const result = await client.query(
+        `UPDATE ${table.name} SET ${table.metadata} = ${value}
+         WHERE ${table.id} = $1`,
+        [id, JSON.stringify(metadata)]
+      );
+      return (result.rowCount ?? 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
   public async searchSimilar(
     tableName: string,
     queryVector: number[],
     limit: number = 10,
-    distanceFunction: "cosine" | "l2" | "inner_product" = "cosine"
-  ): Promise<
-    Array<{
-      id: number;
-      embedding: number[];
-      metadata: unknown;
-      distance: number;
-    }>
-  > {
+    distanceFunction: PgVectorDistanceFunction = "cosine",
+    options: PgVectorSearchOptions = {}
+  ): Promise<PgVectorSearchResult[]> {
     this.ensureConnected();
-    const client = await this.pool!.connect();
-    try {
-      const vectorString = `[${queryVector.join(",")}]`;
-      let distanceExpr: string;
+    const table = this.resolveTable(tableName);
+    // Ordering by the operator of the chosen metric lets pgvector use an
+    // index built with the matching operator class.
+    const distanceExpr = `${table.embedding} ${DISTANCE_OPERATORS[distanceFunction]} $1::vector`;
+    const includeEmbedding = options.includeEmbedding ?? true;
 
-      switch (distanceFunction) {
-        case "cosine":
-          distanceExpr = "1 - (embedding <=> $1::vector)";
-          break;
-        case "l2":
-          distanceExpr = "embedding <-> $1::vector";
-          break;
-        case "inner_product":
-          distanceExpr = "embedding <#> $1::vector";
-          break;
+    return await this.withSearchSettings(options, async (client) => {
+      const params: unknown[] = [toVectorString(queryVector), limit];
+      const conditions: string[] = [];
+      if (options.filter) {
+        conditions.push(
+          compilePgVectorFilter(options.filter, params, table.metadata)
+        );
+      }
+      const maxDistance = resolveMaxDistance(distanceFunction, options);
+      if (maxDistance !== undefined) {
+        params.push(maxDistance);
+        conditions.push(`${distanceExpr} <= $${params.length}`);
       }
 
       const result = await client.query(
-        `SELECT id, embedding::text, metadata, ${distanceExpr} as distance
-         FROM ${this.escapeIdentifier(tableName)}
-         ORDER BY embedding <-> $1::vector
+        `SELECT ${this.selectList(
+          table,
+          includeEmbedding
+        )}, ${distanceExpr} AS distance
+         FROM ${table.name}
+         ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+         ORDER BY ${distanceExpr}
          LIMIT $2`,
-        [vectorString, limit]
+        params
       );
 
+      return result.rows.map((row) => {
+        const distance = parseFloat(row.distance);
+        return {
+          ...this.toRecord(table, row, includeEmbedding),
+          distance,
+          score: toScore(distanceFunction, distance),
+        };
+      });
+    });
+  }
+
+  /**
+   * Full-text search over the table's tsvector column, ranked by `ts_rank`.
+   * Requires a table schema with `textSearch`.
+   */
+  public async searchText(
+    tableName: string,
+    query: string,
+    limit: number = 10,
+    options: PgVectorTextSearchOptions = {}
+  ): Promise<PgVectorTextSearchResult[]> {
+    this.ensureConnected();
+    const table = this.resolveTable(tableName);
+    const includeEmbedding = options.includeEmbedding ?? true;
+    const params: unknown[] = [query, limit];
+    const text = this.textMatch(table, options, params, 1);
+    const conditions = [text.match];
+    if (options.filter) {
+      conditions.push(
+        compilePgVectorFilter(options.filter, params, table.metadata)
+      );
+    }
+
+    const client = await this.pool!.connect();
+    try {
+      const result = await client.query(
+        `SELECT ${this.selectList(table, includeEmbedding)}, ${
+          text.rank
+        } AS rank
+         FROM ${table.name}, ${text.from}
+         WHERE ${conditions.join(" AND ")}
+         ORDER BY ${text.rank} DESC
+         LIMIT $2`,
+        params
+      );
       return result.rows.map((row) => ({
-        id: row.id,
-        embedding: this.parseVector(row.embedding),
-        metadata: row.metadata,
-        distance: parseFloat(row.distance),
+        ...this.toRecord(table, row, includeEmbedding),
+        rank: parseFloat(row.rank),
+      }));
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Ranks rows by vector distance and by `ts_rank` in one query, then fuses
+   * the two rankings (RRF by default, or weighted scores). Rows found by
+   * only one signal are kept.
+   */
+  public async hybridSearch(
+    tableName: string,
+    query: PgVectorHybridQuery,
+    limit: number = 10,
+    options: PgVectorHybridSearchOptions = {}
+  ): Promise<PgVectorHybridSearchResult[]> {
+    this.ensureConnected();
+    const table = this.resolveTable(tableName);
+    const distanceFunction = options.distanceFunction ?? "cosine";
+    const distanceExpr = `${table.embedding} ${DISTANCE_OPERATORS[distanceFunction]} $1::vector`;
+    const includeEmbedding = options.includeEmbedding ?? true;
+    const candidateLimit = toPositiveInteger(
+      options.candidateLimit ?? limit * 4,
+      "candidateLimit"
+    );
+
+    return await this.withSearchSettings(options, async (client) => {
+      const params: unknown[] = [
+        toVectorString(query.vector),
+        candidateLimit,
+        query.text,
+      ];
+      const text = this.textMatch(table, options, params, 3);
+      const filter = options.filter
+        ? compilePgVectorFilter(options.filter, params, table.metadata)
+        : undefined;
+
+      const result = await client.query(
+        `WITH vector_hits AS (
+           SELECT ${table.id} AS hit_id, ${distanceExpr} AS hit_distance
+           FROM ${table.name}
+           ${filter ? `WHERE ${filter}` : ""}
+           ORDER BY ${distanceExpr}
+           LIMIT $2
+         ), text_hits AS (
+           SELECT ${table.id} AS hit_id, ${text.rank} AS hit_rank
+           FROM ${table.name}, ${text.from}
+           WHERE ${text.match}${filter ? ` AND ${filter}` : ""}
+           ORDER BY hit_rank DESC
+           LIMIT $2
+         ), hits AS (
+           SELECT COALESCE(v.hit_id, t.hit_id) AS hit_id,
+                  v.hit_distance, t.hit_rank
+           FROM vector_hits v FULL OUTER JOIN text_hits t ON v.hit_id = t.hit_id
+         )
+         SELECT ${this.selectList(
+           table,
+           includeEmbedding
+         )}, hits.hit_distance, hits.hit_rank
+         FROM hits JOIN ${table.name} ON ${table.name}.${
+          table.id
+        } = hits.hit_id`,
+        params
+      );
+
+      type Row = PgVectorHybridSearchResult;
+      const vectorHits: RankedCandidate<Row>[] = [];
+      const textHits: RankedCandidate<Row>[] = [];
+      for (const row of result.rows) {
+        const record: Row = {
+          ...this.toRecord(table, row, includeEmbedding),
+          score: 0,
+          scores: {},
+          ranks: {},
+        };
+        if (row.hit_distance !== null) {
+          record.distance = parseFloat(row.hit_distance);
+          vectorHits.push({
+            id: record.id,
+            score: toScore(distanceFunction, record.distance),
+            item: record,
+          });
+        }
+        if (row.hit_rank !== null) {
+          textHits.push({
+            id: record.id,
+            score: parseFloat(row.hit_rank),
+            item: record,
+          });
+        }
+      }
+      vectorHits.sort((a, b) => a.item.distance! - b.item.distance!);
+      textHits.sort((a, b) => b.score - a.score);
+
+      return fuseRankings<Row, PgVectorHybridSignal>(
+        { vector: vectorHits, text: textHits },
+        {
+          method: options.method,
+          weights: options.weights,
+          rrfK: options.rrfK,
+          limit,
+        }
+      ).map((candidate) => ({
+        ...candidate.item,
+        score: candidate.score,
+        scores: candidate.scores,
+        ranks: candidate.ranks,
       }));
+    });
+  }
+
+  public async deleteVector(
+    tableName: string,
+    id: PgVectorId
+  ): Promise<boolean> {
+    return (await this.deleteMany(tableName, [id])) > 0;
+  }
+
+  public async deleteMany(
+    tableName: string,
+    ids: PgVectorId[]
+  ): Promise<number> {
+    this.ensureConnected();
+    if (ids.length === 0) {
+      return 0;
+    }
+    const table = this.resolveTable(tableName);
+    const client = await this.pool!.connect();
+    try {
+      const result = await client.query(
+        `DELETE FROM ${table.name}
+         WHERE ${table.id} = ANY($1::${ID_SQL_TYPES[table.idType]}[])`,
+        [ids]
+      );
+      return result.rowCount ?? 0;
     } finally {
       client.release();
     }
   }
 
-  public async deleteVector(tableName: string, id: number): Promise<boolean> {
+  public async countVectors(tableName: string): Promise<number> {
     this.ensureConnected();
     const client = await this.pool!.connect();
     try {
       const result = await client.query(
-        `DELETE FROM ${this.escapeIdentifier(tableName)} WHERE id = $1`,
-        [id]
+        `SELECT COUNT(*)::int AS count FROM ${
+          this.resolveTable(tableName).name
+        }`
       );
-      return (result.rowCount ?? 0) > 0;
+      return result.rows[0].count;
+    } finally {
+      client.release();
+    }
+  }
+
+  public async createIndex(
+    tableName: string,
+    options: PgVectorIndexOptions
+  ): Promise<string> {
+    this.ensureConnected();
+    const table = this.resolveTable(tableName);
+    const distanceFunction = options.distanceFunction ?? "cosine";
+    const indexName =
+      options.name ??
+      `${tableName}_embedding_${options.method}_${distanceFunction}_idx`;
+
+    const parameters: string[] = [];
+    if (options.method === "hnsw") {
+      if (options.m !== undefined) {
+        parameters.push(`m = ${toPositiveInteger(options.m, "m")}`);
+      }
+      if (options.efConstruction !== undefined) {
+        parameters.push(
+          `ef_construction = ${toPositiveInteger(
+            options.efConstruction,
+            "efConstruction"
+          )}`
+        );
+      }
+    } else if (options.lists !== undefined) {
+      parameters.push(`lists = ${toPositiveInteger(options.lists, "lists")}`);
+    }
+
+    const client = await this.pool!.connect();
+    try {
+      await client.query(
+        `CREATE INDEX ${
+          options.concurrently ? "CONCURRENTLY " : ""
+        }IF NOT EXISTS ${this.escapeIdentifier(indexName)}
+         ON ${table.name}
+         USING ${options.method} (${table.embedding} ${
+          OPERATOR_CLASSES[distanceFunction]
+        })${parameters.length > 0 ? ` WITH (${parameters.join(", ")})` : ""}`
+      );
+      return indexName;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Creates a GIN index on `metadata` so filtered searches can use it.
+   * `jsonb_path_ops` is smaller and covers the containment filters.
+   */
+  public async createMetadataIndex(
+    tableName: string,
+    options: {
+      name?: string;
+      operatorClass?: "jsonb_path_ops" | "jsonb_ops";
+      concurrently?: boolean;
+    } = {}
+  ): Promise<string> {
+    this.ensureConnected();
+    const table = this.resolveTable(tableName);
+    const indexName = options.name ?? `${tableName}_metadata_gin_idx`;
+    const client = await this.pool!.connect();
+    try {
+      await client.query(
+        `CREATE INDEX ${
+          options.concurrently ? "CONCURRENTLY " : ""
+        }IF NOT EXISTS ${this.escapeIdentifier(indexName)}
+         ON ${table.name}
+         USING gin (${table.metadata} ${
+          options.operatorClass ?? "jsonb_path_ops"
+        })`
+      );
+      return indexName;
+    } finally {
+      client.release();
+    }
+  }
+
+  /** Creates a GIN index on the tsvector column of a `textSearch` table. */
+  public async createTextIndex(
+    tableName: string,
+    options: { name?: string; concurrently?: boolean } = {}
+  ): Promise<string> {
+    this.ensureConnected();
+    const table = this.resolveTable(tableName);
+    if (!table.textSearch) {
+      throw new Error(
+        "PgVectorAdapter: full-text search requires a table schema with textSearch"
+      );
+    }
+    const indexName = options.name ?? `${tableName}_tsvector_gin_idx`;
+    const client = await this.pool!.connect();
+    try {
+      await client.query(
+        `CREATE INDEX ${
+          options.concurrently ? "CONCURRENTLY " : ""
+        }IF NOT EXISTS ${this.escapeIdentifier(indexName)}
+         ON ${table.name}
+         USING gin (${table.textSearch.tsvector})`
+      );
+      return indexName;
+    } finally {
+      client.release();
+    }
+  }
+
+  public async dropIndex(
+    indexName: string,
+    concurrently: boolean = false,
+    schemaName?: string
+  ): Promise<void> {
+    this.ensureConnected();
+    const client = await this.pool!.connect();
+    try {
+      await client.query(
+        `DROP INDEX ${
+          concurrently ? "CONCURRENTLY " : ""
+        }IF EXISTS ${this.qualify(indexName, schemaName)}`
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  public async rebuildIndex(
+    indexName: string,
+    concurrently: boolean = false,
+    schemaName?: string
+  ): Promise<void> {
+    this.ensureConnected();
+    const client = await this.pool!.connect();
+    try {
+      await client.query(
+        `REINDEX INDEX ${concurrently ? "CONCURRENTLY " : ""}${this.qualify(
+          indexName,
+          schemaName
+        )}`
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  public async listIndexes(tableName: string): Promise<PgVectorIndexInfo[]> {
+    this.ensureConnected();
+    const table = this.resolveTable(tableName);
+    const client = await this.pool!.connect();
+    try {
+      const result = await client.query(
+        `SELECT indexname, indexdef FROM pg_indexes
+         WHERE schemaname = COALESCE($2, current_schema()) AND tablename = $1
+         ORDER BY indexname`,
+        [tableName, table.schemaName ?? null]
+      );
+
+      return result.rows.map((row) => {
+        const definition: string = row.indexdef;
+        const method = /\bUSING\s+(\w+)/i.exec(definition)?.[1] ?? "";
+        const operatorClass = /\b(vector_\w+_ops)\b/.exec(definition)?.[1];
+        const distanceFunction = (
+          Object.keys(OPERATOR_CLASSES) as PgVectorDistanceFunction[]
+        ).find((key) => OPERATOR_CLASSES[key] === operatorClass);
+        return {
+          name: row.indexname,
+          method: method.toLowerCase(),
+          distanceFunction,
+          definition,
+        };
+      });
     } finally {
       client.release();
     }
@@ -167,7 +1070,7 @@ export class PgVectorAdapter {
     const client = await this.pool!.connect();
     try {
       await client.query(
-        `DROP TABLE IF EXISTS ${this.escapeIdentifier(tableName)}`
+        `DROP TABLE IF EXISTS ${this.resolveTable(tableName).name}`
       );
     } finally {
       client.release();
@@ -186,12 +1089,305 @@ export class PgVectorAdapter {
     return `"${identifier.replace(/"/g, '""')}"`;
   }
 
+  private qualify(name: string, schemaName?: string): string {
+    return schemaName
+      ? `${this.escapeIdentifier(schemaName)}.${this.escapeIdentifier(name)}`
+      : this.escapeIdentifier(name);
+  }
+
+  private resolveTable(tableName: string): PgVectorTable {
+    const schema = this.tables.get(tableName) ?? {};
+    return {
+      name: this.qualify(tableName, schema.schemaName),
+      schemaName: schema.schemaName,
+      idType: schema.idType ?? "serial",
+      id: this.escapeIdentifier(schema.idColumn ?? "id"),
+      idColumn: schema.idColumn ?? "id",
+      embedding: this.escapeIdentifier(schema.embeddingColumn ?? "embedding"),
+      metadata: this.escapeIdentifier(schema.metadataColumn ?? "metadata"),
+      createdAt:
+        schema.createdAtColumn === null
+          ? null
+          : this.escapeIdentifier(schema.createdAtColumn ?? "created_at"),
+      columns: schema.columns ?? {},
+      textSearch: schema.textSearch
+        ? {
+            text: this.escapeIdentifier(
+              schema.textSearch.textColumn ?? "content"
+            ),
+            tsvector: this.escapeIdentifier(
+              schema.textSearch.tsvectorColumn ??
+                `${schema.textSearch.textColumn ?? "content"}_tsv`
+            ),
+            language: toLanguage(schema.textSearch.language ?? "english"),
+          }
+        : null,
+    };
+  }
+
+  /**
+   * Runs `search` on a pooled client, applying `efSearch` / `probes`
+   * transaction-locally so they never leak into other queries sharing the
+   * connection.
+   */
+  private async withSearchSettings<T>(
+    options: Pick<PgVectorSearchOptions, "efSearch" | "probes">,
+    search: (client: PoolClient) => Promise<T>
+  ): Promise<T> {
+    const client = await this.pool!.connect();
+    try {
+      const tuned =
+        options.efSearch !== undefined || options.probes !== undefined;
+      if (!tuned) {
+        return await search(client);
+      }
+
+      await client.query("BEGIN");
+      try {
+        if (options.efSearch !== undefined) {
+          await client.query("SELECT set_config('hnsw.ef_search', $1, true)", [
+            String(options.efSearch),
+          ]);
+        }
+        if (options.probes !== undefined) {
+          await client.query("SELECT set_config('ivfflat.probes', $1, true)", [
+            String(options.probes),
+          ]);
+        }
+        const result = await search(client);
+        await client.query("COMMIT");
+        return result;
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * SQL fragments matching the tsquery of the text at `$queryParam`: a FROM
+   * item binding it as `tsq`, the `@@` condition and the `ts_rank` expression.
+   */
+  private textMatch(
+    table: PgVectorTable,
+    options: Pick<
+      PgVectorTextSearchOptions,
+      "language" | "queryMode" | "normalization"
+    >,
+    params: unknown[],
+    queryParam: number
+  ): { from: string; match: string; rank: string } {
+    if (!table.textSearch) {
+      throw new Error(
+        "PgVectorAdapter: full-text search requires a table schema with textSearch"
+      );
+    }
+    const language = toLanguage(options.language ?? table.textSearch.language);
+    const parse = TSQUERY_FUNCTIONS[options.queryMode ?? "websearch"];
+    params.push(options.normalization ?? 0);
+    const normalization = `$${params.length}::int`;
+
+    return {
+      from: `${parse}('${language}'::regconfig, $${queryParam}) AS tsq`,
+      match: `${table.textSearch.tsvector} @@ tsq`,
+      rank: `ts_rank(${table.textSearch.tsvector}, tsq, ${normalization})`,
+    };
+  }
+
+  private batchHasText(
+    table: PgVectorTable,
+    records: PgVectorRecordInput[]
+  ): boolean {
+    const hasText = records.some((record) => record.text !== undefined);
+    if (hasText && !table.textSearch) {
+      throw new Error(
+        "PgVectorAdapter: record text requires a table schema with textSearch"
+      );
+    }
+    return hasText;
+  }
+
+  /** Extra columns set by at least one record of the batch. */
+  private batchColumns(
+    table: PgVectorTable,
+    records: PgVectorRecordInput[]
+  ): string[] {
+    return Object.keys(table.columns).filter((column) =>
+      records.some((record) => record.columns?.[column] !== undefined)
+    );
+  }
+
+  /**
+   * Builds a multi-row INSERT for `records`, appending values to `params`.
+   * Ids and extra columns missing from a record fall back to DEFAULT.
+   */
+  private buildInsert(
+    table: PgVectorTable,
+    records: PgVectorRecordInput[],
+    params: unknown[]
+  ): string {
+    const withId = records.some((record) => record.id !== undefined);
+    const withText = this.batchHasText(table, records);
+    const extraColumns = this.batchColumns(table, records);
+    const columns = [
+      ...(withId ? [table.id] : []),
+      table.embedding,
+      table.metadata,
+      ...(withText ? [table.textSearch!.text] : []),
+      ...extraColumns.map((column) => this.escapeIdentifier(column)),
+    ];
+
+    const values = records.map((record) => {
+      const row: string[] = [];
+      const push = (value: unknown, cast = ""): void => {
+        if (value === undefined) {
+          row.push("DEFAULT");
+          return;
+        }
+        params.push(value);
+        row.push(`$${params.length}${cast}`);
+      };
+
+      if (withId) {
+        push(record.id);
+      }
+      push(toVectorString(record.embedding), "::vector");
+      push(record.metadata ? JSON.stringify(record.metadata) : null, "::jsonb");
+      if (withText) {
+        push(record.text);
+      }
+      for (const column of extraColumns) {
+        push(record.columns?.[column]);
+      }
+      return `(${row.join(", ")})`;
+    });
+
+    return `INSERT INTO ${table.name} (${columns.join(", ")})
+         VALUES ${values.join(", ")}`;
+  }
+
+  private selectList(table: PgVectorTable, includeEmbedding: boolean): string {
+    return [
+      `${table.id} AS id`,
+      ...(includeEmbedding ? [`${table.embedding}::text AS embedding`] : []),
+      `${table.metadata} AS metadata`,
+      ...(table.textSearch ? [`${table.textSearch.text} AS text`] : []),
+      ...Object.keys(table.columns).map((column) =>
+        this.escapeIdentifier(column)
+      ),
+    ].join(", ");
+  }
+
+  private toRecord(
+    table: PgVectorTable,
+    row: Record<string, unknown>,
+    includeEmbedding: boolean
+  ): PgVectorRecord {
+    const extraColumns = Object.keys(table.columns);
+    return {
+      id: row.id as PgVectorId,
+      embedding: includeEmbedding
+        ? this.parseVector(row.embedding as string)
+        : undefined,
+      metadata: row.metadata,
+      text: table.textSearch ? (row.text as string | null) : undefined,
+      columns:
+        extraColumns.length > 0
+          ? Object.fromEntries(
+              extraColumns.map((column) => [column, row[column]])
+            )
+          : undefined,
+    };
+  }
+
   private parseVector(vectorString: string): number[] {
     // Remove brackets and parse
     const cleaned = vectorString.replace(/[\[\]]/g, "");
     return cleaned.split(",").map((v) => parseFloat(v.trim()));
   }
 
+  private async writeBatches<T>(
+    records: T[],
+    options: PgVectorBulkOptions,
+    writeBatch: (client: PoolClient, batch: T[]) => Promise<PgVectorId[]>
+  ): Promise<PgVectorBulkResult> {
+    this.ensureConnected();
+    const batchSize = toPositiveInteger(
+      options.batchSize ?? DEFAULT_BATCH_SIZE,
+      "batchSize"
+    );
+    const result: PgVectorBulkResult = {
+      ids: new Array<PgVectorId | null>(records.length).fill(null),
+      written: 0,
+      failures: [],
+    };
+
+    let client = await this.pool!.connect();
+    let released = false;
+    try {
+      for (let start = 0; start < records.length; start += batchSize) {
+        const batch = records.slice(start, start + batchSize);
+        try {
+          await client.query("BEGIN");
+          const ids = await writeBatch(client, batch);
+          await client.query("COMMIT");
+          ids.forEach((id, offset) => {
+            result.ids[start + offset] = id;
+          });
+          result.written += batch.length;
+        } catch (error) {
+          try {
+            await client.query("ROLLBACK");
+          } catch {
+            // The connection is unusable; report the batch's own error and
+            // carry on with a fresh one.
+            released = true;
+            client.release(true);
+            client = await this.pool!.connect();
+            released = false;
+          }
+          result.failures.push({
+            batchIndex: start / batchSize,
+            startIndex: start,
+            size: batch.length,
+            error: error instanceof Error ? error : new Error(String(error)),
+          });
+          if (options.stopOnError) {
+            break;
+          }
+        }
+      }
+      return result;
+    } finally {
+      if (!released) {
+        client.release();
+      }
+    }
+  }
+
+  /**
+   * Moves the id sequence of a `serial` table past the largest id, so rows
+   * written with explicit ids do not collide with generated ones later.
+   */
+  private async syncIdSequence(
+    client: PoolClient,
+    table: PgVectorTable
+  ): Promise<void> {
+    if (table.idType !== "serial") {
+      return;
+    }
+    await client.query(
+      `SELECT setval(seq::regclass, max_id)
+       FROM pg_get_serial_sequence($1, $2) AS seq,
+            (SELECT MAX(${table.id}) AS max_id FROM ${table.name}) AS ids
+       WHERE seq IS NOT NULL
+         AND max_id > COALESCE(pg_sequence_last_value(seq::regclass), 0)`,
+      [table.name, table.idColumn]
+    );
+  }
+
   private ensureConnected(): void {
     if (!this.pool) {
       throw new Error(
@@ -200,3 +1396,53 @@ export class PgVectorAdapter {
     }
   }
 }
+
+function toScore(
+  distanceFunction: PgVectorDistanceFunction,
+  distance: number
+): number {
+  switch (distanceFunction) {
+    case "cosine":
+      return 1 - distance;
+    case "inner_product":
+      return -distance;
+    case "l2":
+      return distance;
+  }
+}
+
+function resolveMaxDistance(
+  distanceFunction: PgVectorDistanceFunction,
+  options: PgVectorSearchOptions
+): number | undefined {
+  const bounds: number[] = [];
+  if (options.maxDistance !== undefined) {
+    bounds.push(options.maxDistance);
+  }
+  if (options.scoreThreshold !== undefined) {
+    // toScore is its own inverse for every metric.
+    bounds.push(toScore(distanceFunction, options.scoreThreshold));
+  }
+  return bounds.length > 0 ? Math.min(...bounds) : undefined;
+}
+
+/** Validates a text search configuration name before it is inlined. */
+function toLanguage(language: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(language)) {
+    throw new Error(
+      `PgVectorAdapter: invalid text search language "${language}"`
+    );
+  }
+  return language;
+}
+
+function toVectorString(embedding: number[]): string {
+  return `[${embedding.join(",")}]`;
+}
+
+function toPositiveInteger(value: number, name: string): number {
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`PgVectorAdapter: ${name} must be a positive integer`);
+  }
+  return value;
+}
@@ -3,9 +3,49 @@ import {
   type QdrantClientParams,
   Schemas,
 } from "@qdrant/js-client-rest";
+import type { SparseVector } from "../embedding";
+import { compileQdrantFilter, type MetadataFilter } from "../filter";
+import {
+  fuseRankings,
+  type FusedCandidate,
+  type FusionOptions,
+} from "../fusion";
+
+/**
+ * Oldest server the adapter supports: `search` and `hybridSearch` use the
+ * Query API, and sparse vectors rely on `modifier: "idf"`, both from 1.10.
+ */
+export const QDRANT_MIN_SERVER_VERSION = "1.10.0";
 
 export type QdrantDistance = Schemas["Distance"];
 
+/** A dense vector, or a multivector (one dense vector per token) for late-interaction models. */
+export type QdrantVector = number[] | number[][];
+
+export interface QdrantVectorConfig {
+  size: number;
+  distance?: QdrantDistance;
+  /** Stores a list of vectors per point, compared with MaxSim (ColBERT-style). */
+  multivector?: boolean;
+  onDisk?: boolean;
+}
+
+/** Either a single unnamed vector or a map of named vectors. */
+export type QdrantVectorsConfig =
+  | QdrantVectorConfig
+  | Record<string, QdrantVectorConfig>;
+
+export interface QdrantSparseVectorConfig {
+  /** Use `"idf"` for BM25-style vectors so Qdrant applies the IDF factor. */
+  modifier?: Schemas["Modifier"];
+  onDisk?: boolean;
+}
+
+export interface QdrantCollectionOptions {
+  /** Named sparse vectors stored next to the dense ones. */
+  sparseVectors?: Record<string, QdrantSparseVectorConfig>;
+}
+
 export interface QdrantAdapterConfig {
   url?: string;
   endpoint?: string;
@@ -17,22 +57,88 @@ export interface QdrantAdapterConfig {
 
 export interface QdrantPointInput {
   id: number | string;
-  vector: number[];
+  /** One vector for unnamed collections, or a vector per name. */
+  vector: QdrantVector | Record<string, QdrantVector | SparseVector>;
   payload?: Record<string, unknown>;
 }
 
 export interface QdrantSearchOptions {
   limit?: number;
-  filter?: Record<string, unknown>;
+  /** Named vector to search against; required for named-vector collections. */
+  vectorName?: string;
+  /** Native Qdrant filter (geo, has_id, ...). */
+  filter?: Schemas["Filter"];
+  /** Portable filter, compiled to Qdrant conditions and ANDed with `filter`. */
+  metadataFilter?: MetadataFilter;
   scoreThreshold?: number;
   withPayload?: boolean;
+  withVector?: boolean;
 }
 
 export type QdrantSearchResult = Schemas["ScoredPoint"];
 
+export type QdrantHybridSignal = "dense" | "sparse";
+
+export interface QdrantHybridQuery {
+  dense: { vector: QdrantVector; vectorName?: string };
+  sparse: { vector: SparseVector; vectorName: string };
+}
+
+export interface QdrantHybridSearchOptions
+  extends Omit<QdrantSearchOptions, "vectorName" | "scoreThreshold">,
+    Omit<FusionOptions<QdrantHybridSignal>, "limit"> {
+  /** Candidates fetched per signal before fusion; defaults to 4 x limit. */
+  candidateLimit?: number;
+}
+
+export type QdrantHybridSearchResult = QdrantSearchResult &
+  Pick<
+    FusedCandidate<QdrantSearchResult, QdrantHybridSignal>,
+    "scores" | "ranks"
+  >;
+
+export type QdrantPointId = number | string;
+
+export type QdrantRecord = Schemas["Record"];
+
+/**
+ * Selects points by id, by filter, or both (points matching the filter whose
+ * id is in `ids`).
+ */
+export interface QdrantPointSelector {
+  ids?: QdrantPointId[];
+  filter?: Schemas["Filter"];
+  metadataFilter?: MetadataFilter;
+}
+
+export interface QdrantRetrieveOptions {
+  withPayload?: boolean;
+  withVector?: boolean;
+}
+
+export interface QdrantCountOptions {
+  filter?: Schemas["Filter"];
+  metadataFilter?: MetadataFilter;
+  exact?: boolean;
+}
+
+export interface QdrantScrollOptions extends QdrantRetrieveOptions {
+  limit?: number;
+  offset?: QdrantPointId;
+  filter?: Schemas["Filter"];
+  metadataFilter?: MetadataFilter;
+}
+
+export interface QdrantScrollPage {
+  points: QdrantRecord[];
+  /** Offset of the next page; undefined once the collection is exhausted. */
+  nextOffset?: QdrantPointId;
+}
+
 export class QdrantAdapter {
   private client: QdrantClient | null = null;
   private connected = false;
+  private serverVersionChecked = false;
   private readonly config: QdrantAdapterConfig;
 
   public constructor(config: QdrantAdapterConfig = {}) {
@@ -59,24 +165,67 @@ export class QdrantAdapter {
   public async disconnect(): Promise<void> {
     this.client = null;
     this.connected = false;
+    this.serverVersionChecked = false;
   }
 
   public isConnected(): boolean {
     return this.connected;
   }
 
+  /**
+   * Creates a collection with a single vector of `vectors` dimensions, or with
+   * the given vector config(s); `distance` is the default for configs that do
+   * not set their own. An empty named config with `options.sparseVectors`
+   * creates a sparse-only collection. Throws on servers older than
+   * {@link QDRANT_MIN_SERVER_VERSION}.
+   */
   public async createCollection(
     name: string,
-    vectorSize: number,
-    distance: QdrantDistance = "Cosine"
+    vectors: number | QdrantVectorsConfig,
+    distance: QdrantDistance = "Cosine",
+    options: QdrantCollectionOptions = {}
   ): Promise<void> {
     this.ensureConnected();
+    await this.ensureServerVersion();
+
+    const sparseVectors = options.sparseVectors
+      ? Object.fromEntries(
+          Object.entries(options.sparseVectors).map(([vectorName, sparse]) => [
+            vectorName,
+            {
+              modifier: sparse.modifier,
+              index:
+                sparse.onDisk !== undefined
+                  ? { on_disk: sparse.onDisk }
+                  : undefined,
+            },
+          ])
+        )
+      : undefined;
+
+    let config: Schemas["VectorsConfig"];
+    if (typeof vectors === "number") {
+      config = toVectorParams({ size: vectors }, distance);
+    } else if (isVectorConfig(vectors)) {
+      config = toVectorParams(vectors, distance);
+    } else {
+      const names = Object.keys(vectors);
+      if (names.length === 0 && !sparseVectors) {
+        throw new Error(
+          "QdrantAdapter: at least one named vector config is required."
+        );
+      }
+      config = Object.fromEntries(
+        names.map((vectorName) => [
+          vectorName,
+          toVectorParams(vectors[vectorName], distance),
+        ])
+      );
+    }
 
     await this.client!.createCollection(name, {
-      vectors: {
-        size: vectorSize,
-        distance,
-      },
+      vectors: config,
+      sparse_vectors: sparseVectors,
     });
   }
 
@@ -110,20 +259,306 @@ export class QdrantAdapter {
     });
   }
 
+  /**
+   * Searches with a dense vector, a list of query token vectors (multivector
+   * configs) or a sparse vector (sparse configs, `vectorName` required).
+   * Throws on servers older than {@link QDRANT_MIN_SERVER_VERSION}.
+   */
   public async search(
     collectionName: string,
-    vector: number[],
+    vector: QdrantVector | SparseVector,
     options: QdrantSearchOptions = {}
   ): Promise<QdrantSearchResult[]> {
     this.ensureConnected();
+    await this.ensureServerVersion();
 
-    return await this.client!.search(collectionName, {
-      vector,
+    const response = await this.client!.query(collectionName, {
+      query: vector,
+      using: options.vectorName,
       limit: options.limit ?? 10,
-      filter: options.filter,
+      filter: this.resolveFilter(options),
       score_threshold: options.scoreThreshold,
       with_payload: options.withPayload ?? true,
+      with_vector: options.withVector ?? false,
+    });
+    return response.points;
+  }
+
+  /**
+   * Runs the dense and the sparse query in one batch request and fuses the
+   * two rankings client-side (RRF by default, or weighted scores). Each
+   * result keeps its per-signal scores and ranks. Throws on servers older
+   * than {@link QDRANT_MIN_SERVER_VERSION}.
+   */
+  public async hybridSearch(
+    collectionName: string,
+    query: QdrantHybridQuery,
+    options: QdrantHybridSearchOptions = {}
+  ): Promise<QdrantHybridSearchResult[]> {
+    this.ensureConnected();
+    await this.ensureServerVersion();
+
+    const limit = options.limit ?? 10;
+    const candidateLimit = options.candidateLimit ?? limit * 4;
+    const filter = this.resolveFilter(options);
+    const common = {
+      limit: candidateLimit,
+      filter,
+      with_payload: options.withPayload ?? true,
+      with_vector: options.withVector ?? false,
+    };
+
+    const [dense, sparse] = await this.client!.queryBatch(collectionName, {
+      searches: [
+        { ...common, query: query.dense.vector, using: query.dense.vectorName },
+        {
+          ...common,
+          query: query.sparse.vector,
+          using: query.sparse.vectorName,
+        },
+      ],
+    });
+
+    const toCandidates = (points: QdrantSearchResult[]) =>
+      points.map((point) => ({
+        id: point.id,
+        score: point.score,
+        item: point,
+      }));
+
+    return fuseRankings<QdrantSearchResult, QdrantHybridSignal>(
+      {
+        dense: toCandidates(dense.points),
+        sparse: toCandidates(sparse.points),
+      },
+      {
+        method: options.method,
+        weights: options.weights,
+        rrfK: options.rrfK,
+        limit,
+      }
+    ).map((candidate) => ({
+      ...candidate.item,
+      score: candidate.score,
+      scores: candidate.scores,
+      ranks: candidate.ranks,
+    }));
+  }
+
+  public async getPoints(
+    collectionName: string,
+    ids: QdrantPointId[],
+    options: QdrantRetrieveOptions = {}
+  ): Promise<QdrantRecord[]> {
+    this.ensureConnected();
+
+    if (ids.length === 0) {
+      return [];
+    }
+
+    return await this.client!.retrieve(collectionName, {
+      ids,
+      with_payload: options.withPayload ?? true,
+      with_vector: options.withVector ?? false,
+    });
+  }
+
+  public async scroll(
+    collectionName: string,
+    options: QdrantScrollOptions = {}
+  ): Promise<QdrantScrollPage> {
+    this.ensureConnected();
+
+    const response = await this.client!.scroll(collectionName, {
+      limit: options.limit ?? 100,
+      offset: options.offset,
+      filter: this.resolveFilter(options),
+      with_payload: options.withPayload ?? true,
+      with_vector: options.withVector ?? false,
     });
+
+    const next = response.next_page_offset;
+    return {
+      points: response.points,
+      nextOffset:
+        typeof next === "number" || typeof next === "string" ? next : undefined,
+    };
+  }
+
+  /**
+   * Iterates over every point matching the options, fetching `limit` points
+   * per request, so large collections can be walked without holding them in
+   * memory.
+   */
+  public async *scrollAll(
+    collectionName: string,
+    options: QdrantScrollOptions = {}
+  ): AsyncGenerator<QdrantRecord> {
+    let offset = options.offset;
+
+    do {
+      const page = await this.scroll(collectionName, { ...options, offset });
+      for (const point of page.points) {
+        yield point;
+      }
+      offset = page.nextOffset;
+    } while (offset !== undefined);
+  }
+
+  public async countPoints(
+    collectionName: string,
+    options: QdrantCountOptions = {}
+  ): Promise<number> {
+    this.ensureConnected();
+    const response = await this.client!.count(collectionName, {
+      filter: this.resolveFilter(options),
+      exact: options.exact ?? true,
+    });
+    return response.count;
+  }
+
+  /**
+   * Deletes points by id (array form) or by selector.
+   */
+  public async deletePoints(
+    collectionName: string,
+    selector: QdrantPointId[] | QdrantPointSelector,
+    wait: boolean = true
+  ): Promise<void> {
+    this.ensureConnected();
+
+    const points = this.toPointsSelector(selector);
+    if (!points) {
+      return;
+    }
+
+    await this.client!.delete(collectionName, { wait, ...points });
+  }
+
+  /**
+   * Merges `payload` into the payload of the selected points.
+   */
+  public async setPayload(
+    collectionName: string,
+    payload: Record<string, unknown>,
+    selector: QdrantPointId[] | QdrantPointSelector,
+    wait: boolean = true
+  ): Promise<void> {
+    this.ensureConnected();
+
+    const points = this.toPointsSelector(selector);
+    if (!points) {
+      return;
+    }
+
+    await this.client!.setPayload(collectionName, { wait, payload, ...points });
+  }
+
+  /**
+   * Replaces the whole payload of the selected points with `payload`.
+   */
+  public async overwritePayload(
+    collectionName: string,
+    payload: Record<string, unknown>,
+    selector: QdrantPointId[] | QdrantPointSelector,
+    wait: boolean = true
+  ): Promise<void> {
+    this.ensureConnected();
+
+    const points = this.toPointsSelector(selector);
+    if (!points) {
+      return;
+    }
+
+    await this.client!.overwritePayload(collectionName, {
+      wait,
+      payload,
+      ...points,
+    });
+  }
+
+  public async deletePayloadKeys(
+    collectionName: string,
+    keys: string[],
+    selector: QdrantPointId[] | QdrantPointSelector,
+    wait: boolean = true
+  ): Promise<void> {
+    this.ensureConnected();
+
+    const points = this.toPointsSelector(selector);
+    if (!points || keys.length === 0) {
+      return;
+    }
+
+    await this.client!.deletePayload(collectionName, { wait, keys, ...points });
+  }
+
+  public async clearPayload(
+    collectionName: string,
+    selector: QdrantPointId[] | QdrantPointSelector,
+    wait: boolean = true
+  ): Promise<void> {
+    this.ensureConnected();
+
+    const points = this.toPointsSelector(selector);
+    if (!points) {
+      return;
+    }
+
+    await this.client!.clearPayload(collectionName, { wait, ...points });
+  }
+
+  private resolveFilter(
+    options: Pick<QdrantSearchOptions, "filter" | "metadataFilter">
+  ): Schemas["Filter"] | undefined {
+    const compiled = options.metadataFilter
+      ? compileQdrantFilter(options.metadataFilter)
+      : undefined;
+    if (compiled && options.filter) {
+      return { must: [compiled, options.filter] };
+    }
+    return compiled ?? options.filter;
+  }
+
+  /**
+   * Returns undefined for an empty id list so callers can treat it as a no-op.
+   */
+  private toPointsSelector(
+    selector: QdrantPointId[] | QdrantPointSelector
+  ): { points: QdrantPointId[] } | { filter: Schemas["Filter"] } | undefined {
+    if (Array.isArray(selector)) {
+      return selector.length > 0 ? { points: selector } : undefined;
+    }
+
+    const filter = this.resolveFilter(selector);
+    const ids = selector.ids;
+
+    if (ids && filter) {
+      return { filter: { must: [{ has_id: ids }, filter] } };
+    }
+    if (ids) {
+      return ids.length > 0 ? { points: ids } : undefined;
+    }
+    if (filter) {
+      return { filter };
+    }
+
+    throw new Error(
+      "QdrantAdapter: point selector requires ids, filter or metadataFilter."
+    );
+  }
+
+  private async ensureServerVersion(): Promise<void> {
+    if (this.serverVersionChecked) {
+      return;
+    }
+    const { version } = await this.client!.versionInfo();
+    if (compareVersions(version, QDRANT_MIN_SERVER_VERSION) < 0) {
+      throw new Error(
+        `QdrantAdapter: Qdrant ${version} is not supported; the Query API and sparse vector modifiers need ${QDRANT_MIN_SERVER_VERSION} or later.`
+      );
+    }
+    this.serverVersionChecked = true;
   }
 
   private resolveUrl(): string {
@@ -159,3 +594,39 @@ export class QdrantAdapter {
     }
   }
 }
+
+function isVectorConfig(
+  vectors: QdrantVectorsConfig
+): vectors is QdrantVectorConfig {
+  return typeof (vectors as QdrantVectorConfig).size === "number";
+}
+
+function toVectorParams(
+  config: QdrantVectorConfig,
+  distance: QdrantDistance
+): Schemas["VectorParams"] {
+  return {
+    size: config.size,
+    distance: config.distance ?? distance,
+    on_disk: config.onDisk,
+    multivector_config: config.multivector
+      ? { comparator: "max_sim" }
+      : undefined,
+  };
+}
+
+/** Compares dotted versions numerically, ignoring pre-release suffixes. */
+function compareVersions(a: string, b: string): number {
+  const parse = (version: string) =>
+    version
+      .split(/[.-]/)
+      .slice(0, 3)
+      .map((part) => parseInt(part, 10) || 0);
+  const [left, right] = [parse(a), parse(b)];
+  for (let i = 0; i < 3; i++) {
+    if ((left[i] ?? 0) !== (right[i] ?? 0)) {
+      return (left[i] ?? 0) - (right[i] ?? 0);
+    }
+  }
+  return 0;
+}
@@ -1,4 +1,12 @@
-import { createClient, RedisClientType } from "redis";
+import {
+  createClient,
+  RedisClientType,
+  RESP_TYPES,
+  SCHEMA_FIELD_TYPE,
+  SCHEMA_VECTOR_FIELD_ALGORITHM,
+  type RediSearchSchema,
+} from "redis";
+import { compileRedisFilter, type MetadataFilter } from "../filter";
 
 export interface RedisAdapterConfig {
   url?: string;
@@ -8,9 +16,105 @@ export interface RedisAdapterConfig {
   database?: number;
 }
 
+export type RedisVectorDistance = "COSINE" | "L2" | "IP";
+
+export type RedisVectorAlgorithm = "HNSW" | "FLAT";
+
+export type RedisVectorStorage = "HASH" | "JSON";
+
+export type RedisMetadataFieldType = "TAG" | "NUMERIC";
+
+export interface RedisVectorIndexOptions {
+  distance?: RedisVectorDistance;
+  algorithm?: RedisVectorAlgorithm;
+  storage?: RedisVectorStorage;
+  /** Key prefix of the indexed documents. Defaults to `<indexName>:`. */
+  prefix?: string;
+  /**
+   * Metadata keys indexed as separate fields so they can be pre-filtered.
+   * `id`, `embedding`, `metadata` and `__distance` are reserved.
+   */
+  metadataFields?: Record<string, RedisMetadataFieldType>;
+  /** HNSW only. */
+  m?: number;
+  /** HNSW only. */
+  efConstruction?: number;
+  /** HNSW only. */
+  efRuntime?: number;
+  /** FLAT only. */
+  blockSize?: number;
+}
+
+export interface RedisVectorPointInput {
+  id: number | string;
+  vector: number[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface RedisVectorSearchOptions {
+  limit?: number;
+  /** Pre-filter over the index `metadataFields`. */
+  filter?: MetadataFilter;
+  /** HNSW only: overrides the index `EF_RUNTIME` for this query. */
+  efRuntime?: number;
+  withVector?: boolean;
+}
+
+export interface RedisVectorSearchResult {
+  id: number | string;
+  distance: number;
+  metadata: Record<string, unknown>;
+  vector?: number[];
+}
+
+export interface RedisVectorRecord {
+  id: number | string;
+  metadata: Record<string, unknown>;
+  vector?: number[];
+}
+
+export interface RedisVectorScanOptions {
+  /** Cursor returned by the previous page; omit to start over. */
+  cursor?: string;
+  /** SCAN COUNT hint; a page may hold more or fewer documents. */
+  count?: number;
+  withVector?: boolean;
+}
+
+export interface RedisVectorScanPage {
+  points: RedisVectorRecord[];
+  /** Undefined once the keyspace has been fully scanned. */
+  cursor?: string;
+}
+
+interface RedisVectorIndexDefinition {
+  storage: RedisVectorStorage;
+  prefix: string;
+  metadataFields: Record<string, RedisMetadataFieldType>;
+  /** Undefined when FT.INFO does not report it. */
+  distance?: RedisVectorDistance;
+}
+
+const VECTOR_FIELD = "embedding";
+const ID_FIELD = "id";
+const METADATA_FIELD = "metadata";
+const DISTANCE_FIELD = "__distance";
+
+// Fields every document holds; indexed metadata keys may not reuse them.
+const RESERVED_FIELDS = [
+  ID_FIELD,
+  VECTOR_FIELD,
+  METADATA_FIELD,
+  DISTANCE_FIELD,
+];
+
 export class RedisAdapter {
   private client: RedisClientType | null = null;
   private readonly config: RedisAdapterConfig;
+  private readonly vectorIndexes = new Map<
+    string,
+    RedisVectorIndexDefinition
+  >();
 
   public constructor(config: RedisAdapterConfig = {}) {
     this.config = config;
@@ -56,6 +160,39 @@ export class RedisAdapter {
     }
   }
 
+  /** Binary values of `keys` in one MGET; null for missing keys. */
+  public async getBuffers(keys: string[]): Promise<Array<Buffer | null>> {
+    this.ensureConnected();
+    if (keys.length === 0) {
+      return [];
+    }
+    return await this.client!.withTypeMapping({
+      [RESP_TYPES.BLOB_STRING]: Buffer,
+    }).mGet(keys);
+  }
+
+  /** Writes binary values in one pipeline, expiring after `ttlSeconds`. */
+  public async setBuffers(
+    entries: Array<{ key: string; value: Buffer }>,
+    ttlSeconds?: number
+  ): Promise<void> {
+    this.ensureConnected();
+    if (entries.length === 0) {
+      return;
+    }
+    const pipeline = this.client!.multi();
+    for (const { key, value } of entries) {
+      if (ttlSeconds) {
+        pipeline.set(key, value, {
+          expiration: { type: "EX", value: ttlSeconds },
+        });
+      } else {
+        pipeline.set(key, value);
+      }
+    }
+    await pipeline.execAsPipeline();
+  }
+
   public async delete(key: string): Promise<boolean> {
     this.ensureConnected();
     const result = await this.client!.del(key);
@@ -73,6 +210,228 @@ export class RedisAdapter {
     return await this.client!.keys(pattern);
   }
 
+  public async createVectorIndex(
+    indexName: string,
+    dimension: number,
+    options: RedisVectorIndexOptions = {}
+  ): Promise<void> {
+    this.ensureConnected();
+    assertMetadataFields(options.metadataFields ?? {});
+    const distance = options.distance ?? "COSINE";
+    const definition: RedisVectorIndexDefinition = {
+      storage: options.storage ?? "HASH",
+      prefix: options.prefix ?? `${indexName}:`,
+      metadataFields: options.metadataFields ?? {},
+      distance,
+    };
+    const json = definition.storage === "JSON";
+    const vectorField = {
+      type: SCHEMA_FIELD_TYPE.VECTOR,
+      AS: json ? VECTOR_FIELD : undefined,
+      TYPE: "FLOAT32",
+      DIM: dimension,
+      DISTANCE_METRIC: distance,
+    } as const;
+
+    const schema: RediSearchSchema = {
+      [json ? `$.${VECTOR_FIELD}` : VECTOR_FIELD]:
+        options.algorithm === "FLAT"
+          ? {
+              ...vectorField,
+              ALGORITHM: SCHEMA_VECTOR_FIELD_ALGORITHM.FLAT,
+              BLOCK_SIZE: options.blockSize,
+            }
+          : {
+              ...vectorField,
+              ALGORITHM: SCHEMA_VECTOR_FIELD_ALGORITHM.HNSW,
+              M: options.m,
+              EF_CONSTRUCTION: options.efConstruction,
+              EF_RUNTIME: options.efRuntime,
+            },
+    };
+    for (const [field, type] of Object.entries(definition.metadataFields)) {
+      schema[json ? `$.${METADATA_FIELD}.${field}` : field] = {
+        type: SCHEMA_FIELD_TYPE[type],
+        AS: json ? field : undefined,
+      };
+    }
+
+    await this.client!.ft.create(indexName, schema, {
+      ON: definition.storage,
+      PREFIX: definition.prefix,
+    });
+    this.vectorIndexes.set(indexName, definition);
+  }
+
+  public async upsertVectors(
+    indexName: string,
+    points: RedisVectorPointInput[]
+  ): Promise<void> {
+    this.ensureConnected();
+    const definition = await this.resolveVectorIndex(indexName);
+    assertMetadataFields(definition.metadataFields);
+    const multi = this.client!.multi();
+    for (const point of points) {
+      const key = `${definition.prefix}${point.id}`;
+      const metadata = point.metadata ?? {};
+      if (definition.storage === "JSON") {
+        multi.json.set(key, "$", {
+          [ID_FIELD]: JSON.stringify(point.id),
+          [VECTOR_FIELD]: point.vector,
+          [METADATA_FIELD]: metadata as Record<string, never>,
+        });
+        continue;
+      }
+
+      // Hashes are flat, so indexed metadata keys are duplicated as fields.
+      // Stale values are removed first to keep filters consistent.
+      const indexedFields = Object.keys(definition.metadataFields);
+      if (indexedFields.length > 0) {
+        multi.hDel(key, indexedFields);
+      }
+      multi.hSet(key, {
+        ...toIndexedHashFields(metadata, definition.metadataFields),
+        [ID_FIELD]: JSON.stringify(point.id),
+        [VECTOR_FIELD]: toFloat32Buffer(point.vector),
+        [METADATA_FIELD]: JSON.stringify(metadata),
+      });
+    }
+    await multi.exec();
+  }
+
+  public async searchVectors(
+    indexName: string,
+    vector: number[],
+    options: RedisVectorSearchOptions = {}
+  ): Promise<RedisVectorSearchResult[]> {
+    this.ensureConnected();
+    const definition = await this.resolveVectorIndex(indexName);
+    const limit = options.limit ?? 10;
+    const json = definition.storage === "JSON";
+    const idField = json ? `$.${ID_FIELD}` : ID_FIELD;
+    const metadataField = json ? `$.${METADATA_FIELD}` : METADATA_FIELD;
+    const preFilter = options.filter
+      ? compileRedisFilter(options.filter, definition.metadataFields)
+      : "*";
+    const efRuntime = options.efRuntime !== undefined ? " EF_RUNTIME $ef" : "";
+
+    const reply = await this.client!.ft.search(
+      indexName,
+      `${preFilter}=>[KNN $k @${VECTOR_FIELD} $vector${efRuntime} AS ${DISTANCE_FIELD}]`,
+      {
+        PARAMS: {
+          k: limit,
+          vector: toFloat32Buffer(vector),
+          ...(options.efRuntime !== undefined ? { ef: options.efRuntime } : {}),
+        },
+        SORTBY: DISTANCE_FIELD,
+        RETURN: [idField, metadataField, DISTANCE_FIELD],
+        LIMIT: { from: 0, size: limit },
+        DIALECT: 2,
+      }
+    );
+
+    return await Promise.all(
+      reply.documents.map(async (document) => ({
+        id: parseStoredId(document.value[idField]),
+        distance: parseFloat(String(document.value[DISTANCE_FIELD])),
+        metadata: JSON.parse(String(document.value[metadataField] ?? "{}")),
+        vector: options.withVector
+          ? await this.readVector(document.id, definition.storage)
+          : undefined,
+      }))
+    );
+  }
+
+  public async getVectors(
+    indexName: string,
+    ids: Array<number | string>,
+    withVector: boolean = true
+  ): Promise<RedisVectorRecord[]> {
+    this.ensureConnected();
+    const definition = await this.resolveVectorIndex(indexName);
+    const records = await Promise.all(
+      ids.map((id) =>
+        this.readDocument(`${definition.prefix}${id}`, definition, withVector)
+      )
+    );
+    return records.filter(
+      (record): record is RedisVectorRecord => record !== null
+    );
+  }
+
+  /**
+   * Pages through the documents of an index with SCAN over its key prefix.
+   * As with SCAN, a document may be returned more than once.
+   */
+  public async scanVectors(
+    indexName: string,
+    options: RedisVectorScanOptions = {}
+  ): Promise<RedisVectorScanPage> {
+    this.ensureConnected();
+    const definition = await this.resolveVectorIndex(indexName);
+    const reply = await this.client!.scan(options.cursor ?? "0", {
+      MATCH: `${definition.prefix.replace(/[*?[\]\\]/g, "\\$&")}*`,
+      COUNT: options.count ?? 100,
+    });
+
+    const records = await Promise.all(
+      reply.keys.map((key) =>
+        this.readDocument(key, definition, options.withVector ?? true)
+      )
+    );
+    return {
+      points: records.filter(
+        (record): record is RedisVectorRecord => record !== null
+      ),
+      cursor: reply.cursor === "0" ? undefined : reply.cursor,
+    };
+  }
+
+  public async deleteVectors(
+    indexName: string,
+    ids: Array<number | string>
+  ): Promise<number> {
+    this.ensureConnected();
+    if (ids.length === 0) {
+      return 0;
+    }
+    const definition = await this.resolveVectorIndex(indexName);
+    return await this.client!.del(ids.map((id) => `${definition.prefix}${id}`));
+  }
+
+  public async countVectors(indexName: string): Promise<number> {
+    this.ensureConnected();
+    const info = await this.client!.ft.info(indexName);
+    return Number(info.num_docs);
+  }
+
+  /** Distance metric of the index's vector field, read back with FT.INFO. */
+  public async getVectorIndexDistance(
+    indexName: string
+  ): Promise<RedisVectorDistance> {
+    this.ensureConnected();
+    const definition = await this.resolveVectorIndex(indexName);
+    if (!definition.distance) {
+      throw new Error(
+        `RedisAdapter: distance metric of index ${indexName} is unknown`
+      );
+    }
+    return definition.distance;
+  }
+
+  public async dropVectorIndex(
+    indexName: string,
+    deleteDocuments: boolean = true
+  ): Promise<void> {
+    this.ensureConnected();
+    await this.client!.ft.dropIndex(
+      indexName,
+      deleteDocuments ? { DD: true } : undefined
+    );
+    this.vectorIndexes.delete(indexName);
+  }
+
   public isConnected(): boolean {
     return this.client?.isOpen ?? false;
   }
@@ -84,9 +443,168 @@ export class RedisAdapter {
     return `redis://${auth}${host}:${port}${db}`;
   }
 
+  /**
+   * Returns the definition recorded by createVectorIndex, or reads it back
+   * with FT.INFO for indexes created elsewhere.
+   */
+  private async resolveVectorIndex(
+    indexName: string
+  ): Promise<RedisVectorIndexDefinition> {
+    const cached = this.vectorIndexes.get(indexName);
+    if (cached) {
+      return cached;
+    }
+
+    const info = await this.client!.ft.info(indexName);
+    const indexDefinition = info.index_definition as unknown as Record<
+      string,
+      unknown
+    >;
+    const prefixes = indexDefinition.prefixes as string[] | undefined;
+    const metadataFields: Record<string, RedisMetadataFieldType> = {};
+    let distance: RedisVectorDistance | undefined;
+    for (const attribute of info.attributes as unknown as Array<
+      Record<string, unknown>
+    >) {
+      const type = String(attribute.type);
+      if (type === "TAG" || type === "NUMERIC") {
+        metadataFields[String(attribute.attribute)] = type;
+      } else if (type === "VECTOR") {
+        const metric = Object.entries(attribute).find(
+          ([key]) => key.toLowerCase() === "distance_metric"
+        )?.[1];
+        const value = String(metric ?? "").toUpperCase();
+        if (value === "COSINE" || value === "L2" || value === "IP") {
+          distance = value;
+        }
+      }
+    }
+
+    const definition: RedisVectorIndexDefinition = {
+      storage: String(indexDefinition.key_type) === "JSON" ? "JSON" : "HASH",
+      prefix: prefixes?.[0] ?? "",
+      metadataFields,
+      distance,
+    };
+    this.vectorIndexes.set(indexName, definition);
+    return definition;
+  }
+
+  private async readDocument(
+    key: string,
+    definition: RedisVectorIndexDefinition,
+    withVector: boolean
+  ): Promise<RedisVectorRecord | null> {
+    if (definition.storage === "JSON") {
+      const document = (await this.client!.json.get(key)) as {
+        [ID_FIELD]: number | string;
+        [VECTOR_FIELD]: number[];
+        [METADATA_FIELD]?: Record<string, unknown>;
+      } | null;
+      if (!document) {
+        return null;
+      }
+      return {
+        id: parseStoredId(document[ID_FIELD]),
+        metadata: document[METADATA_FIELD] ?? {},
+        vector: withVector ? document[VECTOR_FIELD] : undefined,
+      };
+    }
+
+    const [id, vector, metadata] = await this.client!.withTypeMapping({
+      [RESP_TYPES.BLOB_STRING]: Buffer,
+    }).hmGet(key, [ID_FIELD, VECTOR_FIELD, METADATA_FIELD]);
+    if (!id) {
+      return null;
+    }
+    return {
+      id: parseStoredId(id.toString()),
+      metadata: metadata ? JSON.parse(metadata.toString()) : {},
+      vector: withVector && vector ? fromFloat32Buffer(vector) : undefined,
+    };
+  }
+
+  private async readVector(
+    key: string,
+    storage: RedisVectorStorage
+  ): Promise<number[] | undefined> {
+    if (storage === "JSON") {
+      const matches = (await this.client!.json.get(key, {
+        path: `$.${VECTOR_FIELD}`,
+      })) as number[][] | null;
+      return matches?.[0];
+    }
+
+    const raw = await this.client!.withTypeMapping({
+      [RESP_TYPES.BLOB_STRING]: Buffer,
+    }).hGet(key, VECTOR_FIELD);
+    return raw ? fromFloat32Buffer(raw) : undefined;
+  }
+
   private ensureConnected(): void {
     if (!this.client?.isOpen) {
       throw new Error("Redis client is not connected. Call connect() first.");
     }
   }
 }
+
+function assertMetadataFields(
+  fields: Record<string, RedisMetadataFieldType>
+): void {
+  for (const field of Object.keys(fields)) {
+    if (RESERVED_FIELDS.includes(field)) {
+      throw new Error(
+        `RedisAdapter: metadata field "${field}" clashes with a reserved name`
+      );
+    }
+  }
+}
+
+function toIndexedHashFields(
+  metadata: Record<string, unknown>,
+  fields: Record<string, RedisMetadataFieldType>
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const field of Object.keys(fields)) {
+    const value = field
+      .split(".")
+      .reduce<unknown>(
+        (current, segment) =>
+          current !== null && typeof current === "object"
+            ? (current as Record<string, unknown>)[segment]
+            : undefined,
+        metadata
+      );
+    if (value === undefined || value === null) {
+      continue;
+    }
+    result[field] = Array.isArray(value) ? value.join(",") : String(value);
+  }
+  return result;
+}
+
+/**
+ * Ids are stored JSON-encoded so numbers and strings round-trip (RediSearch
+ * returns string values unquoted). JSON documents written before ids were
+ * encoded hold the raw id.
+ */
+function parseStoredId(value: unknown): number | string {
+  if (typeof value === "number") {
+    return value;
+  }
+  const text = String(value);
+  try {
+    return JSON.parse(text) as number | string;
+  } catch {
+    return text;
+  }
+}
+
+function toFloat32Buffer(vector: number[]): Buffer {
+  return Buffer.from(new Float32Array(vector).buffer);
+}
+
+function fromFloat32Buffer(buffer: Buffer): number[] {
+  const copy = new Uint8Array(buffer).slice().buffer;
+  return Array.from(new Float32Array(copy));
+}
@@ -0,0 +1,209 @@
+import { once } from "events";
+import type { Writable } from "stream";
+import type { VectorStoreDistance, VectorStoreRecord } from "../store";
+
+export const ARCHIVE_FORMAT = "vectorsmith.collection";
+export const ARCHIVE_VERSION = 1;
+
+export type ArchiveEncoding = "jsonl" | "binary";
+
+/** Self-description written at the start of every archive. */
+export interface ArchiveHeader {
+  format: typeof ARCHIVE_FORMAT;
+  version: typeof ARCHIVE_VERSION;
+  encoding: ArchiveEncoding;
+  collection: string;
+  dimension: number;
+  distance?: VectorStoreDistance;
+  /** Model the vectors were produced with, so they are not mixed up later. */
+  embedding?: { provider?: string; model?: string };
+}
+
+/** Written after the last record; a missing trailer means a truncated file. */
+export interface ArchiveTrailer {
+  count: number;
+  /** SHA-256 of every record as encoded in the file. */
+  sha256: string;
+}
+
+export interface ArchiveWriter {
+  writeHeader(header: ArchiveHeader): Promise<void>;
+  writeRecord(record: VectorStoreRecord): Promise<void>;
+  /** Writes the trailer and returns it; the underlying stream is left open. */
+  finish(): Promise<ArchiveTrailer>;
+}
+
+export interface ArchiveReader {
+  readHeader(): Promise<ArchiveHeader>;
+  /** Next record, or the trailer once all records have been read. */
+  readNext(): Promise<VectorStoreRecord | ArchiveTrailer>;
+  /** SHA-256 of the records read so far, to compare with the trailer. */
+  digest(): string;
+}
+
+const DISTANCES: VectorStoreDistance[] = ["cosine", "l2", "inner_product"];
+
+export function isArchiveTrailer(
+  value: VectorStoreRecord | ArchiveTrailer
+): value is ArchiveTrailer {
+  return "sha256" in value && !("id" in value);
+}
+
+export function parseArchiveHeader(
+  value: unknown,
+  encoding: ArchiveEncoding
+): ArchiveHeader {
+  const header = value as Partial<ArchiveHeader> | null;
+  if (
+    !header ||
+    typeof header !== "object" ||
+    header.format !== ARCHIVE_FORMAT
+  ) {
+    throw new Error("CollectionArchive: not a vectorsmith collection archive");
+  }
+  if (header.version !== ARCHIVE_VERSION) {
+    throw new Error(
+      `CollectionArchive: unsupported archive version ${header.version}`
+    );
+  }
+  if (header.encoding !== encoding) {
+    throw new Error(
+      `CollectionArchive: header declares ${header.encoding} encoding but the file is ${encoding}`
+    );
+  }
+  if (typeof header.collection !== "string") {
+    throw new Error("CollectionArchive: header has no collection name");
+  }
+  if (!Number.isInteger(header.dimension) || header.dimension! <= 0) {
+    throw new Error("CollectionArchive: header has an invalid dimension");
+  }
+  if (header.distance !== undefined && !DISTANCES.includes(header.distance)) {
+    throw new Error(
+      `CollectionArchive: header has an unknown distance ${header.distance}`
+    );
+  }
+  return header as ArchiveHeader;
+}
+
+export function parseArchiveTrailer(value: unknown): ArchiveTrailer {
+  const trailer = value as Partial<ArchiveTrailer> | null;
+  if (
+    !trailer ||
+    !Number.isInteger(trailer.count) ||
+    typeof trailer.sha256 !== "string"
+  ) {
+    throw new Error("CollectionArchive: malformed trailer");
+  }
+  return trailer as ArchiveTrailer;
+}
+
+/** Throws unless `record` can be stored in a collection of `dimension`. */
+export function checkArchiveRecord(
+  record: VectorStoreRecord,
+  dimension: number
+): void {
+  if (typeof record.id !== "string" && typeof record.id !== "number") {
+    throw new Error(
+      `CollectionArchive: invalid record id ${JSON.stringify(record.id)}`
+    );
+  }
+  if (
+    !Array.isArray(record.vector) ||
+    record.vector.length !== dimension ||
+    !record.vector.every(Number.isFinite)
+  ) {
+    throw new Error(
+      `CollectionArchive: record ${record.id} needs ${dimension} finite vector components`
+    );
+  }
+  if (
+    record.metadata !== undefined &&
+    (record.metadata === null ||
+      typeof record.metadata !== "object" ||
+      Array.isArray(record.metadata))
+  ) {
+    throw new Error(
+      `CollectionArchive: record ${record.id} has invalid metadata`
+    );
+  }
+}
+
+/** Writes to a stream, waiting for `drain` instead of buffering everything. */
+export async function writeChunk(
+  stream: Writable,
+  chunk: Buffer | string
+): Promise<void> {
+  if (!stream.write(chunk)) {
+    await once(stream, "drain");
+  }
+}
+
+/**
+ * Pull-based reader over a byte stream, for formats that need exact-length
+ * reads or lines without loading the whole file.
+ */
+export class ByteReader {
+  private readonly chunks: AsyncIterator<Buffer>;
+  private buffer = Buffer.alloc(0);
+  private ended = false;
+
+  public constructor(source: AsyncIterable<Buffer>) {
+    this.chunks = source[Symbol.asyncIterator]();
+  }
+
+  /** Up to `size` bytes without consuming them. */
+  public async peek(size: number): Promise<Buffer> {
+    await this.fill(size);
+    return this.buffer.subarray(0, size);
+  }
+
+  /** Exactly `size` bytes; throws if the stream ends first. */
+  public async read(size: number): Promise<Buffer> {
+    if (!(await this.fill(size))) {
+      throw new Error("CollectionArchive: unexpected end of file");
+    }
+    const bytes = this.buffer.subarray(0, size);
+    this.buffer = this.buffer.subarray(size);
+    return bytes;
+  }
+
+  /** Next line without its `\n`, or null at the end of the stream. */
+  public async readLine(): Promise<Buffer | null> {
+    let searched = 0;
+    for (;;) {
+      const newline = this.buffer.indexOf(0x0a, searched);
+      if (newline >= 0) {
+        const line = this.buffer.subarray(0, newline);
+        this.buffer = this.buffer.subarray(newline + 1);
+        return line;
+      }
+      searched = this.buffer.length;
+      if (!(await this.fill(this.buffer.length + 1))) {
+        if (this.buffer.length === 0) {
+          return null;
+        }
+        const line = this.buffer;
+        this.buffer = Buffer.alloc(0);
+        return line;
+      }
+    }
+  }
+
+  private async fill(size: number): Promise<boolean> {
+    const pending: Buffer[] = [this.buffer];
+    let length = this.buffer.length;
+    while (length < size && !this.ended) {
+      const next = await this.chunks.next();
+      if (next.done) {
+        this.ended = true;
+      } else {
+        pending.push(next.value);
+        length += next.value.length;
+      }
+    }
+    if (pending.length > 1) {
+      this.buffer = Buffer.concat(pending, length);
+    }
+    return this.buffer.length >= size;
+  }
+}
@@ -0,0 +1,160 @@
+import { createHash, type Hash } from "crypto";
+import type { Writable } from "stream";
+import type { VectorStoreRecord } from "../store";
+import {
+  parseArchiveHeader,
+  parseArchiveTrailer,
+  writeChunk,
+  type ArchiveHeader,
+  type ArchiveReader,
+  type ArchiveTrailer,
+  type ArchiveWriter,
+  type ByteReader,
+} from "./base.archive";
+
+export const BINARY_ARCHIVE_MAGIC = Buffer.from("VSMB", "ascii");
+
+const RECORD_TAG = 1;
+const TRAILER_TAG = 0;
+
+/**
+ * Compact layout: `VSMB`, u32 header length, header JSON, then one frame per
+ * record (u8 1, u32 + id JSON, u32 + metadata JSON, `dimension` float32) and
+ * a trailer frame (u8 0, u32 + trailer JSON). Integers are little-endian.
+ * Vectors are stored as float32, like every supported backend does.
+ */
+export class BinaryArchiveWriter implements ArchiveWriter {
+  private readonly stream: Writable;
+  private readonly hash: Hash = createHash("sha256");
+  private dimension = 0;
+  private count = 0;
+
+  public constructor(stream: Writable) {
+    this.stream = stream;
+  }
+
+  public async writeHeader(header: ArchiveHeader): Promise<void> {
+    this.dimension = header.dimension;
+    await writeChunk(
+      this.stream,
+      Buffer.concat([BINARY_ARCHIVE_MAGIC, sized(JSON.stringify(header))])
+    );
+  }
+
+  public async writeRecord(record: VectorStoreRecord): Promise<void> {
+    if (record.vector.length !== this.dimension) {
+      throw new Error(
+        `CollectionArchive: record ${record.id} has ${record.vector.length} dimensions, expected ${this.dimension}`
+      );
+    }
+    const vector = Buffer.alloc(this.dimension * 4);
+    record.vector.forEach((value, index) =>
+      vector.writeFloatLE(value, index * 4)
+    );
+    const frame = Buffer.concat([
+      Buffer.from([RECORD_TAG]),
+      sized(JSON.stringify(record.id)),
+      sized(JSON.stringify(record.metadata ?? {})),
+      vector,
+    ]);
+    this.hash.update(frame);
+    this.count++;
+    await writeChunk(this.stream, frame);
+  }
+
+  public async finish(): Promise<ArchiveTrailer> {
+    const trailer = { count: this.count, sha256: this.hash.digest("hex") };
+    await writeChunk(
+      this.stream,
+      Buffer.concat([
+        Buffer.from([TRAILER_TAG]),
+        sized(JSON.stringify(trailer)),
+      ])
+    );
+    return trailer;
+  }
+}
+
+export class BinaryArchiveReader implements ArchiveReader {
+  private readonly bytes: ByteReader;
+  private readonly hash: Hash = createHash("sha256");
+  private dimension = 0;
+
+  public constructor(bytes: ByteReader) {
+    this.bytes = bytes;
+  }
+
+  public async readHeader(): Promise<ArchiveHeader> {
+    const magic = await this.bytes.read(BINARY_ARCHIVE_MAGIC.length);
+    if (!magic.equals(BINARY_ARCHIVE_MAGIC)) {
+      throw new Error("CollectionArchive: not a binary collection archive");
+    }
+    const header = parseArchiveHeader(
+      parseJson(await this.readSized()),
+      "binary"
+    );
+    this.dimension = header.dimension;
+    return header;
+  }
+
+  public async readNext(): Promise<VectorStoreRecord | ArchiveTrailer> {
+    const [tag] = await this.bytes.read(1);
+    if (tag === TRAILER_TAG) {
+      const trailer = parseArchiveTrailer(parseJson(await this.readSized()));
+      if ((await this.bytes.peek(1)).length > 0) {
+        throw new Error("CollectionArchive: data after the trailer");
+      }
+      return trailer;
+    }
+    if (tag !== RECORD_TAG) {
+      throw new Error(`CollectionArchive: unknown frame type ${tag}`);
+    }
+
+    const id = await this.readSized();
+    const metadata = await this.readSized();
+    const vector = await this.bytes.read(this.dimension * 4);
+    this.hash
+      .update(Buffer.from([RECORD_TAG]))
+      .update(lengthPrefix(id.length))
+      .update(id)
+      .update(lengthPrefix(metadata.length))
+      .update(metadata)
+      .update(vector);
+
+    return {
+      id: parseJson(id) as VectorStoreRecord["id"],
+      vector: Array.from({ length: this.dimension }, (_, index) =>
+        vector.readFloatLE(index * 4)
+      ),
+      metadata: parseJson(metadata) as Record<string, unknown>,
+    };
+  }
+
+  public digest(): string {
+    return this.hash.copy().digest("hex");
+  }
+
+  private async readSized(): Promise<Buffer> {
+    const length = (await this.bytes.read(4)).readUInt32LE(0);
+    return await this.bytes.read(length);
+  }
+}
+
+function lengthPrefix(length: number): Buffer {
+  const prefix = Buffer.alloc(4);
+  prefix.writeUInt32LE(length, 0);
+  return prefix;
+}
+
+function sized(json: string): Buffer {
+  const body = Buffer.from(json, "utf8");
+  return Buffer.concat([lengthPrefix(body.length), body]);
+}
+
+function parseJson(bytes: Buffer): unknown {
+  try {
+    return JSON.parse(bytes.toString("utf8"));
+  } catch {
+    throw new Error("CollectionArchive: corrupted JSON frame");
+  }
+}
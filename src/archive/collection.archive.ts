@@ -0,0 +1,268 @@
+import { createReadStream, createWriteStream, promises as fs } from "fs";
+import { finished } from "stream/promises";
+import type {
+  VectorStore,
+  VectorStoreDistance,
+  VectorStoreId,
+  VectorStoreRecord,
+} from "../store";
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  ByteReader,
+  checkArchiveRecord,
+  isArchiveTrailer,
+  type ArchiveEncoding,
+  type ArchiveHeader,
+  type ArchiveReader,
+  type ArchiveTrailer,
+  type ArchiveWriter,
+} from "./base.archive";
+import {
+  BINARY_ARCHIVE_MAGIC,
+  BinaryArchiveReader,
+  BinaryArchiveWriter,
+} from "./binary.archive";
+import { JsonlArchiveReader, JsonlArchiveWriter } from "./jsonl.archive";
+
+export interface ExportCollectionOptions {
+  /** Defaults to `jsonl`; `binary` is about 3x smaller for typical vectors. */
+  encoding?: ArchiveEncoding;
+  /** Recorded in the header; stores do not report their metric. */
+  distance?: VectorStoreDistance;
+  embedding?: { provider?: string; model?: string };
+  /** Required to export an empty collection, inferred otherwise. */
+  dimension?: number;
+  /** Records read from the store per page. Defaults to 500. */
+  batchSize?: number;
+}
+
+export interface ImportCollectionOptions {
+  /** Defaults to the collection named in the header. */
+  collection?: string;
+  /** Creates the collection from the header dimension and distance. */
+  createCollection?: boolean;
+  /** Records written to the store per batch. Defaults to 500. */
+  batchSize?: number;
+  /**
+   * Reads the whole file once to check it before writing anything.
+   * Defaults to true; when disabled, a corrupted file is only detected
+   * after the records before the damage have been written.
+   */
+  verifyFirst?: boolean;
+}
+
+export interface ArchiveContents extends ArchiveTrailer {
+  header: ArchiveHeader;
+}
+
+export type ExportCollectionResult = ArchiveContents;
+
+export interface ImportCollectionResult extends ArchiveContents {
+  collection: string;
+}
+
+const DEFAULT_BATCH_SIZE = 500;
+
+/**
+ * Streams a collection to a self-describing archive file. The file is
+ * written next to `path` and renamed once complete, so an interrupted
+ * export never leaves a valid-looking archive behind. Records are written
+ * in scan order, so unchanged data exports to identical files only on
+ * stores with a stable scan order (not Redis, whose SCAN order can change
+ * between runs); a record the scan returns twice (Redis SCAN) is written
+ * once.
+ */
+export async function exportCollection(
+  store: VectorStore,
+  collection: string,
+  path: string,
+  options: ExportCollectionOptions = {}
+): Promise<ExportCollectionResult> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  let page = await store.scan(collection, { limit: batchSize });
+  // Redis SCAN may return empty pages before the end; the pages skipped
+  // here hold no records, so nothing is lost.
+  while (
+    options.dimension === undefined &&
+    page.records.length === 0 &&
+    page.nextCursor !== undefined
+  ) {
+    page = await store.scan(collection, {
+      limit: batchSize,
+      cursor: page.nextCursor,
+    });
+  }
+  const dimension = options.dimension ?? page.records[0]?.vector.length;
+  if (!dimension) {
+    throw new Error(
+      `CollectionArchive: collection ${collection} is empty, pass a dimension`
+    );
+  }
+
+  const header: ArchiveHeader = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    encoding: options.encoding ?? "jsonl",
+    collection,
+    dimension,
+    ...(options.distance ? { distance: options.distance } : {}),
+    ...(options.embedding ? { embedding: options.embedding } : {}),
+  };
+
+  const temporary = `${path}.tmp`;
+  const stream = createWriteStream(temporary);
+  const writer: ArchiveWriter =
+    header.encoding === "binary"
+      ? new BinaryArchiveWriter(stream)
+      : new JsonlArchiveWriter(stream);
+
+  const seen = new Set<VectorStoreId>();
+  try {
+    await writer.writeHeader(header);
+    for (;;) {
+      for (const record of page.records) {
+        if (seen.has(record.id)) {
+          continue;
+        }
+        seen.add(record.id);
+        checkArchiveRecord(record, dimension);
+        await writer.writeRecord(record);
+      }
+      if (page.nextCursor === undefined) {
+        break;
+      }
+      page = await store.scan(collection, {
+        limit: batchSize,
+        cursor: page.nextCursor,
+      });
+    }
+    const trailer = await writer.finish();
+    stream.end();
+    await finished(stream);
+    await fs.rename(temporary, path);
+    return { header, ...trailer };
+  } catch (error) {
+    stream.destroy();
+    await fs.rm(temporary, { force: true });
+    throw error;
+  }
+}
+
+/** Header of an archive, without reading its records. */
+export async function readArchiveHeader(path: string): Promise<ArchiveHeader> {
+  const { reader, close } = await openArchive(path);
+  try {
+    return await reader.readHeader();
+  } finally {
+    close();
+  }
+}
+
+/**
+ * Yields the records of an archive one by one and returns the trailer.
+ * Throws once the end is reached if the file is truncated, the record count
+ * differs or the checksum does not match.
+ */
+export async function* readArchive(
+  path: string
+): AsyncGenerator<VectorStoreRecord, ArchiveContents> {
+  const { reader, close } = await openArchive(path);
+  try {
+    const header = await reader.readHeader();
+    const trailer = yield* readRecords(reader, header);
+    return { header, ...trailer };
+  } finally {
+    close();
+  }
+}
+
+/** Reads the whole archive and checks its integrity. */
+export async function verifyArchive(path: string): Promise<ArchiveContents> {
+  const records = readArchive(path);
+  for (;;) {
+    const next = await records.next();
+    if (next.done) {
+      return next.value;
+    }
+  }
+}
+
+/** Streams an archive into a store in batches. */
+export async function importCollection(
+  store: VectorStore,
+  path: string,
+  options: ImportCollectionOptions = {}
+): Promise<ImportCollectionResult> {
+  if (options.verifyFirst ?? true) {
+    await verifyArchive(path);
+  }
+
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const { reader, close } = await openArchive(path);
+  try {
+    const header = await reader.readHeader();
+    const collection = options.collection ?? header.collection;
+    if (options.createCollection) {
+      await store.createCollection(
+        collection,
+        header.dimension,
+        header.distance
+      );
+    }
+
+    const records = readRecords(reader, header);
+    let batch: VectorStoreRecord[] = [];
+    for (;;) {
+      const next = await records.next();
+      if (!next.done) {
+        batch.push(next.value);
+      }
+      if (batch.length > 0 && (next.done || batch.length >= batchSize)) {
+        await store.upsert(collection, batch);
+        batch = [];
+      }
+      if (next.done) {
+        return { header, collection, ...next.value };
+      }
+    }
+  } finally {
+    close();
+  }
+}
+
+async function* readRecords(
+  reader: ArchiveReader,
+  header: ArchiveHeader
+): AsyncGenerator<VectorStoreRecord, ArchiveTrailer> {
+  let count = 0;
+  for (;;) {
+    const next = await reader.readNext();
+    if (isArchiveTrailer(next)) {
+      if (next.count !== count) {
+        throw new Error(
+          `CollectionArchive: trailer lists ${next.count} records, found ${count}`
+        );
+      }
+      if (next.sha256 !== reader.digest()) {
+        throw new Error("CollectionArchive: checksum mismatch");
+      }
+      return next;
+    }
+    checkArchiveRecord(next, header.dimension);
+    count++;
+    yield next;
+  }
+}
+
+async function openArchive(
+  path: string
+): Promise<{ reader: ArchiveReader; close: () => void }> {
+  const stream = createReadStream(path);
+  const bytes = new ByteReader(stream);
+  const magic = await bytes.peek(BINARY_ARCHIVE_MAGIC.length);
+  const reader = magic.equals(BINARY_ARCHIVE_MAGIC)
+    ? new BinaryArchiveReader(bytes)
+    : new JsonlArchiveReader(bytes);
+  return { reader, close: () => stream.destroy() };
+}
@@ -0,0 +1,19 @@
+export type {
+  ArchiveEncoding,
+  ArchiveHeader,
+  ArchiveTrailer,
+} from "./base.archive";
+export type {
+  ArchiveContents,
+  ExportCollectionOptions,
+  ExportCollectionResult,
+  ImportCollectionOptions,
+  ImportCollectionResult,
+} from "./collection.archive";
+export {
+  exportCollection,
+  importCollection,
+  readArchive,
+  readArchiveHeader,
+  verifyArchive,
+} from "./collection.archive";
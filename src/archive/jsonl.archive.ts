@@ -0,0 +1,103 @@
+import { createHash, type Hash } from "crypto";
+import type { Writable } from "stream";
+import type { VectorStoreRecord } from "../store";
+import {
+  parseArchiveHeader,
+  parseArchiveTrailer,
+  writeChunk,
+  type ArchiveHeader,
+  type ArchiveReader,
+  type ArchiveTrailer,
+  type ArchiveWriter,
+  type ByteReader,
+} from "./base.archive";
+
+/**
+ * One JSON document per line: the header, the records
+ * (`{"id","vector","metadata"}`) and a final `{"trailer":{...}}` line.
+ */
+export class JsonlArchiveWriter implements ArchiveWriter {
+  private readonly stream: Writable;
+  private readonly hash: Hash = createHash("sha256");
+  private count = 0;
+
+  public constructor(stream: Writable) {
+    this.stream = stream;
+  }
+
+  public async writeHeader(header: ArchiveHeader): Promise<void> {
+    await writeChunk(this.stream, `${JSON.stringify(header)}\n`);
+  }
+
+  public async writeRecord(record: VectorStoreRecord): Promise<void> {
+    const line = `${JSON.stringify({
+      id: record.id,
+      vector: record.vector,
+      metadata: record.metadata ?? {},
+    })}\n`;
+    this.hash.update(line);
+    this.count++;
+    await writeChunk(this.stream, line);
+  }
+
+  public async finish(): Promise<ArchiveTrailer> {
+    const trailer = { count: this.count, sha256: this.hash.digest("hex") };
+    await writeChunk(this.stream, `${JSON.stringify({ trailer })}\n`);
+    return trailer;
+  }
+}
+
+export class JsonlArchiveReader implements ArchiveReader {
+  private readonly bytes: ByteReader;
+  private readonly hash: Hash = createHash("sha256");
+  private line = 0;
+
+  public constructor(bytes: ByteReader) {
+    this.bytes = bytes;
+  }
+
+  public async readHeader(): Promise<ArchiveHeader> {
+    return parseArchiveHeader(await this.nextJson(), "jsonl");
+  }
+
+  public async readNext(): Promise<VectorStoreRecord | ArchiveTrailer> {
+    const raw = await this.bytes.readLine();
+    this.line++;
+    if (raw === null) {
+      throw new Error("CollectionArchive: missing trailer, file is truncated");
+    }
+
+    const value = parseLine(raw, this.line) as Record<string, unknown>;
+    if (value && typeof value === "object" && "trailer" in value) {
+      if ((await this.bytes.readLine()) !== null) {
+        throw new Error("CollectionArchive: data after the trailer");
+      }
+      return parseArchiveTrailer(value.trailer);
+    }
+
+    this.hash.update(raw).update("\n");
+    return value as unknown as VectorStoreRecord;
+  }
+
+  /** SHA-256 of the record lines read so far. */
+  public digest(): string {
+    return this.hash.copy().digest("hex");
+  }
+
+  private async nextJson(): Promise<unknown> {
+    const raw = await this.bytes.readLine();
+    this.line++;
+    if (raw === null) {
+      throw new Error("CollectionArchive: empty file");
+    }
+    return parseLine(raw, this.line);
+  }
+}
+
+function parseLine(raw: Buffer, line: number): unknown {
+  try {
+    return JSON.parse(raw.toString("utf8"));
+  } catch {
+    throw new Error(`CollectionArchive: line ${line} is not valid JSON`);
+  }
+}
@@ -0,0 +1,184 @@
+/** A slice of a source text; `start`/`end` are character offsets into it. */
+export interface TextChunk {
+  text: string;
+  start: number;
+  end: number;
+  /** Chunker specific context, e.g. the Markdown heading path. */
+  metadata?: Record<string, unknown>;
+}
+
+/** What is known about the text being chunked, besides its content. */
+export interface ChunkContext {
+  /** Source file path, e.g. to detect the language of code. */
+  path?: string;
+}
+
+export interface Chunker {
+  chunk(text: string, context?: ChunkContext): TextChunk[];
+}
+
+export interface ChunkerOptions {
+  /** Maximum chunk length in characters. Defaults to 1000. */
+  chunkSize?: number;
+  /** Characters repeated from the end of the previous chunk. Defaults to 200. */
+  chunkOverlap?: number;
+}
+
+/** Half-open character range `[start, end)` of the source text. */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export function resolveChunkerOptions(
+  options: ChunkerOptions,
+  name: string
+): Required<ChunkerOptions> {
+  const chunkSize = options.chunkSize ?? 1000;
+  const chunkOverlap = options.chunkOverlap ?? Math.min(200, chunkSize / 5);
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+    throw new Error(`${name}: chunkSize must be a positive integer`);
+  }
+  if (chunkOverlap < 0 || chunkOverlap >= chunkSize) {
+    throw new Error(`${name}: chunkOverlap must be in [0, chunkSize)`);
+  }
+  return { chunkSize, chunkOverlap };
+}
+
+/**
+ * Cuts `span` after every occurrence of `separator`, so the separator stays
+ * attached to the preceding piece and the pieces tile the span exactly.
+ * `""` cuts every `size` characters instead.
+ */
+export function splitOnSeparator(
+  text: string,
+  span: TextSpan,
+  separator: string,
+  size: number
+): TextSpan[] {
+  const pieces: TextSpan[] = [];
+  let start = span.start;
+  while (start < span.end) {
+    let end = span.end;
+    if (separator === "") {
+      end = Math.min(start + size, span.end);
+    } else {
+      const found = text.indexOf(separator, start);
+      if (found >= 0 && found + separator.length <= span.end) {
+        end = found + separator.length;
+      }
+    }
+    pieces.push({ start, end });
+    start = end;
+  }
+  return pieces;
+}
+
+/**
+ * Splits `span` into pieces of at most `chunkSize`, using the first
+ * separator that occurs in it and recursing with the next ones on pieces
+ * that are still too long.
+ */
+export function splitSpan(
+  text: string,
+  span: TextSpan,
+  separators: string[],
+  chunkSize: number
+): TextSpan[] {
+  if (span.end - span.start <= chunkSize) {
+    return [span];
+  }
+  const index = findSeparator(text, span, separators);
+  return splitOnSeparator(
+    text,
+    span,
+    separators[index] ?? "",
+    chunkSize
+  ).flatMap((piece) =>
+    splitSpan(text, piece, separators.slice(index + 1), chunkSize)
+  );
+}
+
+/** Index of the first separator occurring in `span`, or of `""`, or -1. */
+export function findSeparator(
+  text: string,
+  span: TextSpan,
+  separators: string[]
+): number {
+  const content = text.slice(span.start, span.end);
+  return separators.findIndex(
+    (separator) => separator === "" || content.includes(separator)
+  );
+}
+
+/**
+ * Greedily merges adjacent spans into chunks of at most `chunkSize`
+ * characters. Each new chunk starts with the trailing spans of the previous
+ * one that fit in `chunkOverlap`. Whitespace at the chunk edges is trimmed
+ * and offsets are adjusted accordingly.
+ */
+export function mergeSpans(
+  text: string,
+  spans: TextSpan[],
+  chunkSize: number,
+  chunkOverlap: number,
+  metadata?: Record<string, unknown>
+): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let current: TextSpan[] = [];
+
+  const emit = () => {
+    const chunk = toChunk(
+      text,
+      current[0].start,
+      current[current.length - 1].end,
+      metadata
+    );
+    if (chunk) {
+      chunks.push(chunk);
+    }
+  };
+
+  for (const span of spans) {
+    if (current.length > 0 && span.end - current[0].start > chunkSize) {
+      emit();
+      const last = current[current.length - 1].end;
+      while (
+        current.length > 0 &&
+        (last - current[0].start > chunkOverlap ||
+          span.end - current[0].start > chunkSize)
+      ) {
+        current.shift();
+      }
+    }
+    current.push(span);
+  }
+  if (current.length > 0) {
+    emit();
+  }
+  return chunks;
+}
+
+/** The trimmed chunk for `[start, end)`, or null if it is only whitespace. */
+export function toChunk(
+  text: string,
+  start: number,
+  end: number,
+  metadata?: Record<string, unknown>
+): TextChunk | null {
+  while (start < end && /\s/.test(text[start])) {
+    start++;
+  }
+  while (end > start && /\s/.test(text[end - 1])) {
+    end--;
+  }
+  if (start === end) {
+    return null;
+  }
+  return {
+    text: text.slice(start, end),
+    start,
+    end,
+    ...(metadata ? { metadata } : {}),
+  };
+}
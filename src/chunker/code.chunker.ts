@@ -0,0 +1,612 @@
+import type { Chunker, ChunkContext, TextChunk } from "./base.chunker";
+
+export type CodeLanguage =
+  | "typescript"
+  | "javascript"
+  | "python"
+  | "go"
+  | "java";
+
+export interface CodeChunkerOptions {
+  /** Overrides detection from the file extension. */
+  language?: CodeLanguage;
+  /** Maximum chunk length in characters. Defaults to 1500. */
+  chunkSize?: number;
+  /** Lines per window for unknown languages. Defaults to 40. */
+  windowLines?: number;
+  /** Lines repeated between windows. Defaults to 5. */
+  windowOverlap?: number;
+}
+
+const EXTENSIONS: Record<string, CodeLanguage> = {
+  ts: "typescript",
+  tsx: "typescript",
+  mts: "typescript",
+  cts: "typescript",
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  py: "python",
+  pyi: "python",
+  go: "go",
+  java: "java",
+};
+
+export function detectCodeLanguage(path: string): CodeLanguage | undefined {
+  const extension = /\.([^./\\]+)$/.exec(path)?.[1]?.toLowerCase();
+  return extension ? EXTENSIONS[extension] : undefined;
+}
+
+interface CodeLine {
+  start: number;
+  end: number;
+  text: string;
+  /** Bracket depth at the start of the line. */
+  depth: number;
+  indent: number;
+  /** Starts inside a string or block comment. */
+  continued: boolean;
+  blank: boolean;
+  /** Comment, decorator or annotation: belongs to the next declaration. */
+  leading: boolean;
+}
+
+type CodeChunkLimits = Required<Omit<CodeChunkerOptions, "language">>;
+
+interface CodeUnit {
+  first: number;
+  last: number;
+}
+
+const CONTINUATION_START =
+  /^(?:[.)\]}?:,]|&&|\|\||\+|=>|else\b|catch\b|finally\b|elif\b|except\b)/;
+const CONTINUATION_END = /(?:[,([=+\-*|&?:.\\]|=>)$/;
+const NOT_SYMBOLS = new Set([
+  "if",
+  "import",
+  "package",
+  "for",
+  "while",
+  "switch",
+  "return",
+  "catch",
+  "new",
+  "await",
+  "throw",
+  "super",
+  "this",
+]);
+const ASSIGNMENT =
+  /^(?:(?:export|public|private|protected|static|readonly|final|declare|override)\s+)*([A-Za-z_$#][\w$]*)\s*[?!]?\s*(?::[^=]*)?=(?![=>])/;
+const DECLARATION =
+  /\b(?:function\*?|class|interface|type|enum|namespace|def|struct|record|const|let|var|func)\s+(?:\([^)]*\)\s*)?([A-Za-z_$][\w$]*)/;
+
+/**
+ * Splits source files on syntactic boundaries: top-level declarations are
+ * kept whole (with their comments, docstrings, decorators and annotations)
+ * and packed up to `chunkSize`; a declaration that does not fit is split
+ * into its members, e.g. the methods of a class, recursively. Supports
+ * TypeScript/JavaScript, Python, Go and Java with a lightweight scanner
+ * (strings, comments, brackets, indentation) rather than a full parser;
+ * other files are cut into line windows.
+ *
+ * Chunk metadata holds `language`, `filePath`, 1-based inclusive
+ * `startLine`/`endLine`, the declared `symbols` and, for members of a split
+ * declaration, the enclosing `parents`.
+ */
+export class CodeChunker implements Chunker {
+  private readonly language?: CodeLanguage;
+  private readonly chunkSize: number;
+  private readonly windowLines: number;
+  private readonly windowOverlap: number;
+
+  public constructor(options: CodeChunkerOptions = {}) {
+    this.language = options.language;
+    this.chunkSize = options.chunkSize ?? 1500;
+    this.windowLines = options.windowLines ?? 40;
+    this.windowOverlap = options.windowOverlap ?? 5;
+
+    if (!Number.isInteger(this.chunkSize) || this.chunkSize <= 0) {
+      throw new Error("CodeChunker: chunkSize must be a positive integer");
+    }
+    if (
+      !Number.isInteger(this.windowLines) ||
+      this.windowLines <= 0 ||
+      this.windowOverlap < 0 ||
+      this.windowOverlap >= this.windowLines
+    ) {
+      throw new Error(
+        "CodeChunker: windowLines must be positive and windowOverlap in [0, windowLines)"
+      );
+    }
+  }
+
+  public chunk(text: string, context: ChunkContext = {}): TextChunk[] {
+    const language =
+      this.language ??
+      (context.path ? detectCodeLanguage(context.path) : undefined);
+    const base: Record<string, unknown> = {
+      ...(language ? { language } : {}),
+      ...(context.path ? { filePath: context.path } : {}),
+    };
+    const lines = scanLines(text, language);
+    const limits: CodeChunkLimits = {
+      chunkSize: this.chunkSize,
+      windowLines: this.windowLines,
+      windowOverlap: this.windowOverlap,
+    };
+    if (!language) {
+      return lineWindows(text, lines, 0, lines.length - 1, base, limits);
+    }
+
+    const packer = new UnitPacker(text, lines, language, limits, base);
+    return packer.pack(splitUnits(lines, 0, lines.length - 1, 0, language), []);
+  }
+}
+
+/** Greedy packing of units into chunks, descending into oversize units. */
+class UnitPacker {
+  private readonly text: string;
+  private readonly lines: CodeLine[];
+  private readonly language: CodeLanguage;
+  private readonly limits: CodeChunkLimits;
+  private readonly base: Record<string, unknown>;
+
+  public constructor(
+    text: string,
+    lines: CodeLine[],
+    language: CodeLanguage,
+    limits: CodeChunkLimits,
+    base: Record<string, unknown>
+  ) {
+    this.text = text;
+    this.lines = lines;
+    this.language = language;
+    this.limits = limits;
+    this.base = base;
+  }
+
+  public pack(units: CodeUnit[], parents: string[]): TextChunk[] {
+    const chunks: TextChunk[] = [];
+    let group: CodeUnit[] = [];
+
+    const flush = () => {
+      if (group.length === 0) {
+        return;
+      }
+      const symbols = group
+        .map((unit) => this.symbolOf(unit))
+        .filter((symbol): symbol is string => symbol !== undefined);
+      const chunk = toCodeChunk(
+        this.text,
+        this.lines,
+        group[0].first,
+        group[group.length - 1].last,
+        this.metadata(parents, symbols)
+      );
+      if (chunk) {
+        chunks.push(chunk);
+      }
+      group = [];
+    };
+
+    for (const unit of units) {
+      if (this.size(unit.first, unit.last) > this.limits.chunkSize) {
+        flush();
+        chunks.push(...this.split(unit, parents));
+      } else if (
+        group.length > 0 &&
+        this.size(group[0].first, unit.last) > this.limits.chunkSize
+      ) {
+        flush();
+        group.push(unit);
+      } else {
+        group.push(unit);
+      }
+    }
+    flush();
+    return chunks;
+  }
+
+  private split(unit: CodeUnit, parents: string[]): TextChunk[] {
+    const level = this.bodyLevel(unit);
+    const members =
+      level === undefined
+        ? []
+        : splitUnits(this.lines, unit.first, unit.last, level, this.language);
+    const symbol = this.symbolOf(unit);
+    const scope = symbol ? [...parents, symbol] : parents;
+
+    // The signature is the first member (the lines before the first
+    // statement at `level`), so it is packed together with what follows.
+    if (members.length < 2) {
+      return lineWindows(
+        this.text,
+        this.lines,
+        unit.first,
+        unit.last,
+        this.metadata(parents, symbol ? [symbol] : []),
+        this.limits
+      );
+    }
+    return this.pack(members, scope);
+  }
+
+  /** Level of the members inside `unit`, if it has a body. */
+  private bodyLevel(unit: CodeUnit): number | undefined {
+    const head = this.firstCodeLine(unit);
+    if (this.language !== "python") {
+      return this.lines[head].depth + 1;
+    }
+    for (let index = head + 1; index <= unit.last; index++) {
+      const line = this.lines[index];
+      if (
+        !line.blank &&
+        !line.continued &&
+        line.depth === 0 &&
+        line.indent > this.lines[head].indent
+      ) {
+        return line.indent;
+      }
+    }
+    return undefined;
+  }
+
+  private symbolOf(unit: CodeUnit): string | undefined {
+    const line = this.lines[this.firstCodeLine(unit)].text.trim();
+    const declared = DECLARATION.exec(line)?.[1];
+    if (declared) {
+      return declared;
+    }
+    const assigned = ASSIGNMENT.exec(line)?.[1];
+    if (assigned) {
+      return assigned;
+    }
+    const called = /([A-Za-z_$#][\w$]*)\s*(?:<[^>]*>)?\s*\(/.exec(line)?.[1];
+    if (called && !NOT_SYMBOLS.has(called)) {
+      return called;
+    }
+    return undefined;
+  }
+
+  private firstCodeLine(unit: CodeUnit): number {
+    for (let index = unit.first; index <= unit.last; index++) {
+      if (!this.lines[index].blank && !this.lines[index].leading) {
+        return index;
+      }
+    }
+    return unit.first;
+  }
+
+  private size(first: number, last: number): number {
+    return this.lines[last].end - this.lines[first].start;
+  }
+
+  private metadata(
+    parents: string[],
+    symbols: string[]
+  ): Record<string, unknown> {
+    return {
+      ...this.base,
+      symbols,
+      ...(parents.length > 0 ? { parents } : {}),
+    };
+  }
+}
+
+/**
+ * Partitions lines `[first, last]` into units, each starting at a line of
+ * `level` that begins a new statement or declaration. Leading comments,
+ * decorators and annotations join the unit that follows them.
+ */
+function splitUnits(
+  lines: CodeLine[],
+  first: number,
+  last: number,
+  level: number,
+  language: CodeLanguage
+): CodeUnit[] {
+  const starts: number[] = [];
+  let previous: CodeLine | undefined;
+  for (let index = first; index <= last; index++) {
+    const line = lines[index];
+    if (isUnitStart(line, previous, level, language)) {
+      starts.push(index);
+    }
+    if (!line.blank && !line.leading) {
+      previous = line;
+    }
+  }
+
+  const units: CodeUnit[] = [];
+  if (starts.length === 0) {
+    return units;
+  }
+  if (starts[0] > first) {
+    units.push({ first, last: starts[0] - 1 });
+  }
+  starts.forEach((start, index) => {
+    units.push({
+      first: start,
+      last: index + 1 < starts.length ? starts[index + 1] - 1 : last,
+    });
+  });
+
+  // Fold units made only of comments/decorators into the next unit.
+  const merged: CodeUnit[] = [];
+  let pending: number | undefined;
+  for (const unit of units) {
+    const onlyLeading = lines
+      .slice(unit.first, unit.last + 1)
+      .every((line) => line.blank || line.leading);
+    if (onlyLeading && unit !== units[units.length - 1]) {
+      pending ??= unit.first;
+      continue;
+    }
+    merged.push({ first: pending ?? unit.first, last: unit.last });
+    pending = undefined;
+  }
+  return merged;
+}
+
+function isUnitStart(
+  line: CodeLine,
+  previous: CodeLine | undefined,
+  level: number,
+  language: CodeLanguage
+): boolean {
+  if (line.blank || line.continued) {
+    return false;
+  }
+  const atLevel =
+    language === "python"
+      ? line.depth === 0 && line.indent === level
+      : line.depth === level;
+  if (!atLevel) {
+    return false;
+  }
+  if (line.leading) {
+    return true;
+  }
+  if (CONTINUATION_START.test(line.text.trim())) {
+    return false;
+  }
+  return !(
+    previous &&
+    !previous.leading &&
+    CONTINUATION_END.test(previous.text.trim()) &&
+    !(language === "python" && previous.text.trim().endsWith(":"))
+  );
+}
+
+/** Windows of at most `windowLines` lines that also fit `chunkSize`. */
+function lineWindows(
+  text: string,
+  lines: CodeLine[],
+  first: number,
+  last: number,
+  metadata: Record<string, unknown>,
+  limits: CodeChunkLimits
+): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let start = first;
+  while (start <= last) {
+    let end = start;
+    while (
+      end < last &&
+      end - start + 1 < limits.windowLines &&
+      lines[end + 1].end - lines[start].start <= limits.chunkSize
+    ) {
+      end++;
+    }
+    const chunk = toCodeChunk(text, lines, start, end, metadata);
+    if (chunk) {
+      chunks.push(chunk);
+    }
+    if (end >= last) {
+      break;
+    }
+    start = Math.max(start + 1, end + 1 - limits.windowOverlap);
+  }
+  return chunks;
+}
+
+function toCodeChunk(
+  text: string,
+  lines: CodeLine[],
+  first: number,
+  last: number,
+  metadata: Record<string, unknown>
+): TextChunk | null {
+  while (first <= last && lines[first].blank) {
+    first++;
+  }
+  while (last >= first && lines[last].blank) {
+    last--;
+  }
+  if (first > last) {
+    return null;
+  }
+  return {
+    text: text.slice(lines[first].start, lines[last].end),
+    start: lines[first].start,
+    end: lines[last].end,
+    metadata: { ...metadata, startLine: first + 1, endLine: last + 1 },
+  };
+}
+
+type ScanState = "code" | "block" | "string";
+
+/**
+ * Per-line bracket depth and string/comment state. Template literals,
+ * Python triple quotes, Java text blocks and Go raw strings may span lines;
+ * JavaScript regex literals are recognised by the preceding token.
+ */
+function scanLines(text: string, language?: CodeLanguage): CodeLine[] {
+  const hashComments = language === "python";
+  const lines: CodeLine[] = [];
+  const templates: number[] = [];
+  let state: ScanState = "code";
+  let quote = "";
+  let depth = 0;
+  let lastSignificant = "";
+
+  let lineStart = 0;
+  let lineDepth = 0;
+  let lineState: ScanState = "code";
+
+  const endLine = (end: number) => {
+    const raw = text.slice(lineStart, end);
+    const lineText = raw.endsWith("\r") ? raw.slice(0, -1) : raw;
+    const trimmed = lineText.trim();
+    lines.push({
+      start: lineStart,
+      end: lineStart + lineText.length,
+      text: lineText,
+      depth: lineDepth,
+      indent: lineText.length - lineText.trimStart().length,
+      continued: lineState !== "code",
+      blank: trimmed === "",
+      leading:
+        lineState === "block" ||
+        (lineState === "code" &&
+          (trimmed.startsWith("@") ||
+            (hashComments
+              ? trimmed.startsWith("#")
+              : trimmed.startsWith("//") || trimmed.startsWith("/*")))),
+    });
+    lineStart = end + 1;
+    lineDepth = depth;
+    lineState = state;
+  };
+
+  if (!language) {
+    for (let index = 0; index <= text.length; index++) {
+      if (index === text.length || text[index] === "\n") {
+        endLine(index);
+      }
+    }
+    return lines;
+  }
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    const next = text[index + 1];
+
+    if (char === "\n") {
+      if (state === "string" && (quote === '"' || quote === "'")) {
+        state = "code"; // unterminated single-line string
+      }
+      endLine(index);
+      continue;
+    }
+
+    if (state === "block") {
+      if (char === "*" && next === "/") {
+        state = "code";
+        index++;
+      }
+      continue;
+    }
+
+    if (state === "string") {
+      if (char === "\\" && quote !== "`raw") {
+        index++;
+      } else if (text.startsWith(quote === "`raw" ? "`" : quote, index)) {
+        index += (quote === "`raw" ? 1 : quote.length) - 1;
+        state = "code";
+      } else if (quote === "`" && char === "$" && next === "{") {
+        templates.push(depth);
+        depth++;
+        index++;
+        state = "code";
+      }
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      continue;
+    }
+    if (hashComments ? char === "#" : char === "/" && next === "/") {
+      while (index + 1 < text.length && text[index + 1] !== "\n") {
+        index++;
+      }
+      continue;
+    }
+    if (!hashComments && char === "/" && next === "*") {
+      state = "block";
+      index++;
+      continue;
+    }
+
+    if (char === '"' || char === "'" || char === "`") {
+      const triple = char.repeat(3);
+      state = "string";
+      if (
+        (language === "python" || (language === "java" && char === '"')) &&
+        text.startsWith(triple, index)
+      ) {
+        quote = triple;
+        index += 2;
+      } else if (char === "`" && language === "go") {
+        quote = "`raw";
+      } else {
+        quote = char;
+      }
+      lastSignificant = char;
+      continue;
+    }
+
+    if (
+      char === "/" &&
+      (language === "typescript" || language === "javascript") &&
+      (lastSignificant === "" ||
+        "(,=:[!&|?{};+-*%<>~^".includes(lastSignificant))
+    ) {
+      index = skipRegex(text, index);
+      lastSignificant = "/";
+      continue;
+    }
+
+    if (char === "(" || char === "[" || char === "{") {
+      depth++;
+    } else if (char === ")" || char === "]" || char === "}") {
+      depth = Math.max(0, depth - 1);
+      if (
+        char === "}" &&
+        templates.length > 0 &&
+        depth === templates[templates.length - 1]
+      ) {
+        templates.pop();
+        state = "string";
+        quote = "`";
+      }
+    }
+    lastSignificant = char;
+  }
+  endLine(text.length);
+
+  return lines;
+}
+
+/** Index of the closing `/` of the regex literal starting at `start`. */
+function skipRegex(text: string, start: number): number {
+  let inClass = false;
+  for (let index = start + 1; index < text.length; index++) {
+    const char = text[index];
+    if (char === "\n") {
+      return index - 1;
+    }
+    if (char === "\\") {
+      index++;
+    } else if (char === "[") {
+      inClass = true;
+    } else if (char === "]") {
+      inClass = false;
+    } else if (char === "/" && !inClass) {
+      return index;
+    }
+  }
+  return text.length - 1;
+}
@@ -0,0 +1,38 @@
+import {
+  resolveChunkerOptions,
+  toChunk,
+  type Chunker,
+  type ChunkerOptions,
+  type TextChunk,
+} from "./base.chunker";
+
+/** Windows of `chunkSize` characters, each starting `chunkOverlap` early. */
+export class FixedSizeChunker implements Chunker {
+  private readonly chunkSize: number;
+  private readonly chunkOverlap: number;
+
+  public constructor(options: ChunkerOptions = {}) {
+    const resolved = resolveChunkerOptions(options, "FixedSizeChunker");
+    this.chunkSize = resolved.chunkSize;
+    this.chunkOverlap = resolved.chunkOverlap;
+  }
+
+  public chunk(text: string): TextChunk[] {
+    const chunks: TextChunk[] = [];
+    const step = this.chunkSize - this.chunkOverlap;
+    for (let start = 0; start < text.length; start += step) {
+      const chunk = toChunk(
+        text,
+        start,
+        Math.min(start + this.chunkSize, text.length)
+      );
+      if (chunk) {
+        chunks.push(chunk);
+      }
+      if (start + this.chunkSize >= text.length) {
+        break;
+      }
+    }
+    return chunks;
+  }
+}
@@ -0,0 +1,24 @@
+export type {
+  ChunkContext,
+  Chunker,
+  ChunkerOptions,
+  TextChunk,
+  TextSpan,
+} from "./base.chunker";
+export { FixedSizeChunker } from "./fixed.chunker";
+export {
+  DEFAULT_SEPARATORS,
+  RecursiveChunker,
+  type RecursiveChunkerOptions,
+} from "./recursive.chunker";
+export {
+  MarkdownChunker,
+  type MarkdownChunkerOptions,
+} from "./markdown.chunker";
+export { SentenceChunker, splitSentences } from "./sentence.chunker";
+export {
+  CodeChunker,
+  detectCodeLanguage,
+  type CodeChunkerOptions,
+  type CodeLanguage,
+} from "./code.chunker";
@@ -0,0 +1,89 @@
+import {
+  resolveChunkerOptions,
+  type Chunker,
+  type ChunkerOptions,
+  type TextChunk,
+} from "./base.chunker";
+import { RecursiveChunker } from "./recursive.chunker";
+
+export interface MarkdownChunkerOptions extends ChunkerOptions {
+  /** Deepest heading level that starts a new section. Defaults to 6. */
+  maxHeadingLevel?: number;
+}
+
+const HEADING = /^ {0,3}(#{1,6})[ \t]+(.+?)[ \t#]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Splits Markdown into sections at ATX headings (`#` ... `######`), ignoring
+ * `#` lines inside fenced code. Every chunk carries the heading path of its
+ * section in `metadata.headings`; sections longer than `chunkSize` are split
+ * further with a {@link RecursiveChunker}.
+ */
+export class MarkdownChunker implements Chunker {
+  private readonly maxHeadingLevel: number;
+  private readonly sections: RecursiveChunker;
+
+  public constructor(options: MarkdownChunkerOptions = {}) {
+    const resolved = resolveChunkerOptions(options, "MarkdownChunker");
+    this.maxHeadingLevel = options.maxHeadingLevel ?? 6;
+    this.sections = new RecursiveChunker(resolved);
+  }
+
+  public chunk(text: string): TextChunk[] {
+    const chunks: TextChunk[] = [];
+    const path: string[] = [];
+    let sectionStart = 0;
+    let headings: string[] = [];
+    let fence: string | null = null;
+
+    const flush = (end: number) => {
+      chunks.push(
+        ...this.sections.chunkRange(
+          text,
+          sectionStart,
+          end,
+          headings.length > 0 ? { headings } : undefined
+        )
+      );
+    };
+
+    let offset = 0;
+    for (const line of text.split("\n")) {
+      const lineStart = offset;
+      offset += line.length + 1;
+
+      const fenceMatch = FENCE.exec(line);
+      if (fenceMatch) {
+        const marker = fenceMatch[1];
+        if (fence === null) {
+          fence = marker;
+        } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+          fence = null;
+        }
+        continue;
+      }
+      if (fence !== null) {
+        continue;
+      }
+
+      const heading = HEADING.exec(line);
+      const level = heading?.[1].length ?? 0;
+      if (!heading || level > this.maxHeadingLevel) {
+        continue;
+      }
+
+      flush(lineStart);
+      path.length = Math.min(path.length, level - 1);
+      while (path.length < level - 1) {
+        path.push("");
+      }
+      path.push(heading[2]);
+      headings = path.filter((title) => title !== "");
+      sectionStart = lineStart;
+    }
+    flush(text.length);
+
+    return chunks;
+  }
+}
@@ -0,0 +1,95 @@
+import {
+  findSeparator,
+  mergeSpans,
+  resolveChunkerOptions,
+  splitOnSeparator,
+  type Chunker,
+  type ChunkerOptions,
+  type TextChunk,
+  type TextSpan,
+} from "./base.chunker";
+
+export interface RecursiveChunkerOptions extends ChunkerOptions {
+  /** Tried in order; defaults to paragraphs, lines, sentences, words. */
+  separators?: string[];
+}
+
+export const DEFAULT_SEPARATORS = ["\n\n", "\n", ". ", " ", ""];
+
+/**
+ * Splits on the coarsest separator that occurs in the text, recursing into
+ * pieces that are still too long, then merges neighbouring pieces up to
+ * `chunkSize`. Keeps paragraphs and sentences whole whenever they fit.
+ */
+export class RecursiveChunker implements Chunker {
+  private readonly chunkSize: number;
+  private readonly chunkOverlap: number;
+  private readonly separators: string[];
+
+  public constructor(options: RecursiveChunkerOptions = {}) {
+    const resolved = resolveChunkerOptions(options, "RecursiveChunker");
+    this.chunkSize = resolved.chunkSize;
+    this.chunkOverlap = resolved.chunkOverlap;
+    this.separators = options.separators ?? DEFAULT_SEPARATORS;
+  }
+
+  public chunk(text: string): TextChunk[] {
+    return this.chunkRange(text, 0, text.length);
+  }
+
+  /** Chunks `text[start, end)`, keeping offsets relative to `text`. */
+  public chunkRange(
+    text: string,
+    start: number,
+    end: number,
+    metadata?: Record<string, unknown>
+  ): TextChunk[] {
+    return this.split(text, { start, end }, this.separators, metadata);
+  }
+
+  /**
+   * Pieces that fit are merged with their neighbours; a piece that is too
+   * long is chunked on its own with the remaining separators, so it never
+   * spills into the surrounding paragraphs.
+   */
+  private split(
+    text: string,
+    span: TextSpan,
+    separators: string[],
+    metadata?: Record<string, unknown>
+  ): TextChunk[] {
+    const index = findSeparator(text, span, separators);
+    const rest = separators.slice(index + 1);
+    const chunks: TextChunk[] = [];
+    let fitting: TextSpan[] = [];
+
+    const merge = () => {
+      chunks.push(
+        ...mergeSpans(
+          text,
+          fitting,
+          this.chunkSize,
+          this.chunkOverlap,
+          metadata
+        )
+      );
+      fitting = [];
+    };
+
+    for (const piece of splitOnSeparator(
+      text,
+      span,
+      separators[index] ?? "",
+      this.chunkSize
+    )) {
+      if (piece.end - piece.start <= this.chunkSize) {
+        fitting.push(piece);
+      } else {
+        merge();
+        chunks.push(...this.split(text, piece, rest, metadata));
+      }
+    }
+    merge();
+    return chunks;
+  }
+}
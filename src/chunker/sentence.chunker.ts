@@ -0,0 +1,53 @@
+import {
+  mergeSpans,
+  resolveChunkerOptions,
+  splitSpan,
+  type Chunker,
+  type ChunkerOptions,
+  type TextChunk,
+  type TextSpan,
+} from "./base.chunker";
+
+/** Terminal punctuation, closing quotes/brackets, then whitespace or the end. */
+const SENTENCE_END = /[.!?…。！？]+["'’”)\]]*(?:\s+|$)/gu;
+
+/**
+ * Groups whole sentences into chunks of up to `chunkSize`; the overlap
+ * repeats trailing sentences. A sentence longer than `chunkSize` is split
+ * on words. Sentence ends are punctuation followed by whitespace, so
+ * abbreviations such as "e.g. " also end a sentence.
+ */
+export class SentenceChunker implements Chunker {
+  private readonly chunkSize: number;
+  private readonly chunkOverlap: number;
+
+  public constructor(options: ChunkerOptions = {}) {
+    const resolved = resolveChunkerOptions(options, "SentenceChunker");
+    this.chunkSize = resolved.chunkSize;
+    this.chunkOverlap = resolved.chunkOverlap;
+  }
+
+  public chunk(text: string): TextChunk[] {
+    const spans: TextSpan[] = [];
+    for (const sentence of splitSentences(text)) {
+      spans.push(...splitSpan(text, sentence, [" ", ""], this.chunkSize));
+    }
+    return mergeSpans(text, spans, this.chunkSize, this.chunkOverlap);
+  }
+}
+
+export function splitSentences(text: string): TextSpan[] {
+  const sentences: TextSpan[] = [];
+  let start = 0;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[0].length;
+    if (end > start) {
+      sentences.push({ start, end });
+      start = end;
+    }
+  }
+  if (start < text.length) {
+    sentences.push({ start, end: text.length });
+  }
+  return sentences;
+}
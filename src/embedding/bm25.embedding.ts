@@ -0,0 +1,164 @@
+export interface SparseVector {
+  indices: number[];
+  values: number[];
+}
+
+/**
+ * Produces sparse (term-weight) vectors. Documents and queries are encoded
+ * differently, so the two sides are separate methods.
+ */
+export interface SparseEmbeddingProvider {
+  embedDocuments(texts: string[]): Promise<SparseVector[]>;
+  embedQuery(text: string): Promise<SparseVector>;
+}
+
+export interface BM25SparseEncoderOptions {
+  /** Term-frequency saturation. */
+  k1?: number;
+  /** Document-length normalisation, 0 (none) to 1 (full). */
+  b?: number;
+  /** Expected average document length in tokens. */
+  avgDocLength?: number;
+  /** Also index the parts of camelCase / snake_case identifiers. */
+  splitIdentifiers?: boolean;
+  minTokenLength?: number;
+  stopWords?: Iterable<string>;
+}
+
+const DEFAULT_STOP_WORDS = [
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "from",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "that",
+  "the",
+  "this",
+  "to",
+  "was",
+  "with",
+];
+
+/**
+ * Local BM25 encoder. Document vectors carry the saturated, length-normalised
+ * term frequency and query vectors weigh every term 1; the IDF factor is left
+ * to the store (a Qdrant sparse vector with `modifier: "idf"`, Qdrant 1.10
+ * or later), so no corpus statistics have to be kept here. Without that
+ * modifier rare and common terms weigh the same. Terms are hashed to 32-bit
+ * indices.
+ */
+export class BM25SparseEncoder implements SparseEmbeddingProvider {
+  private readonly k1: number;
+  private readonly b: number;
+  private readonly avgDocLength: number;
+  private readonly splitIdentifiers: boolean;
+  private readonly minTokenLength: number;
+  private readonly stopWords: Set<string>;
+
+  public constructor(options: BM25SparseEncoderOptions = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+    this.avgDocLength = options.avgDocLength ?? 256;
+    this.splitIdentifiers = options.splitIdentifiers ?? true;
+    this.minTokenLength = options.minTokenLength ?? 2;
+    this.stopWords = new Set(options.stopWords ?? DEFAULT_STOP_WORDS);
+
+    if (this.k1 < 0 || this.b < 0 || this.b > 1) {
+      throw new Error("BM25SparseEncoder: k1 must be >= 0 and b in [0, 1]");
+    }
+    if (this.avgDocLength <= 0) {
+      throw new Error("BM25SparseEncoder: avgDocLength must be positive");
+    }
+  }
+
+  public async embedDocuments(texts: string[]): Promise<SparseVector[]> {
+    return texts.map((text) => this.encodeDocument(text));
+  }
+
+  public async embedQuery(text: string): Promise<SparseVector> {
+    return this.encodeQuery(text);
+  }
+
+  public encodeDocument(text: string): SparseVector {
+    const tokens = this.tokenize(text);
+    const frequencies = termFrequencies(tokens);
+    const lengthNorm =
+      1 - this.b + (this.b * tokens.length) / this.avgDocLength;
+
+    return toSparseVector(
+      frequencies,
+      (tf) => (tf * (this.k1 + 1)) / (tf + this.k1 * lengthNorm)
+    );
+  }
+
+  public encodeQuery(text: string): SparseVector {
+    return toSparseVector(termFrequencies(this.tokenize(text)), () => 1);
+  }
+
+  public tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    const words = text.match(/[\p{L}\p{N}_]+/gu) ?? [];
+
+    for (const word of words) {
+      const parts = this.splitIdentifiers ? splitIdentifier(word) : [];
+      const candidates = parts.length > 1 ? [word, ...parts] : [word];
+      for (const candidate of candidates) {
+        const token = candidate.toLowerCase();
+        if (token.length >= this.minTokenLength && !this.stopWords.has(token)) {
+          tokens.push(token);
+        }
+      }
+    }
+
+    return tokens;
+  }
+}
+
+function splitIdentifier(word: string): string[] {
+  return word
+    .replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, "$1 $2")
+    .replace(/(\p{Lu})(\p{Lu}\p{Ll})/gu, "$1 $2")
+    .split(/[\s_]+/)
+    .filter((part) => part.length > 0);
+}
+
+function termFrequencies(tokens: string[]): Map<number, number> {
+  const frequencies = new Map<number, number>();
+  for (const token of tokens) {
+    const index = hashToken(token);
+    frequencies.set(index, (frequencies.get(index) ?? 0) + 1);
+  }
+  return frequencies;
+}
+
+function toSparseVector(
+  frequencies: Map<number, number>,
+  weight: (tf: number) => number
+): SparseVector {
+  const indices = [...frequencies.keys()].sort((a, b) => a - b);
+  return {
+    indices,
+    values: indices.map((index) => weight(frequencies.get(index)!)),
+  };
+}
+
+/** 32-bit FNV-1a over the UTF-8 bytes of the token. */
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (const byte of Buffer.from(token, "utf8")) {
+    hash ^= byte;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,237 @@
+import { createHash } from "crypto";
+import type { RedisAdapter } from "../adapter/redis.adapter";
+import type { EmbedOptions, EmbeddingProvider } from "./jina_ai.embedding";
+
+export interface EmbeddingCacheEntry {
+  key: string;
+  value: Buffer;
+}
+
+/** Key-value backend of {@link CachedEmbeddingProvider}. */
+export interface EmbeddingCacheStore {
+  /** Values in the order of `keys`; null for misses. */
+  getMany(keys: string[]): Promise<Array<Buffer | null>>;
+  setMany(entries: EmbeddingCacheEntry[]): Promise<void>;
+}
+
+/** What produced a vector; part of every cache key. */
+export interface EmbeddingCacheIdentity {
+  provider: string;
+  model: string;
+  dimensions?: number;
+}
+
+export interface EmbeddingCacheStats {
+  /** Texts answered from the cache, including repeats within a batch. */
+  hits: number;
+  /** Texts sent to the provider. */
+  misses: number;
+  hitRate: number;
+}
+
+export interface LruEmbeddingCacheOptions {
+  /** Defaults to 10 000 vectors. */
+  maxEntries?: number;
+}
+
+/** In-process cache evicting the least recently used vector. */
+export class LruEmbeddingCache implements EmbeddingCacheStore {
+  private readonly maxEntries: number;
+  private readonly entries = new Map<string, Buffer>();
+
+  public constructor(options: LruEmbeddingCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 10_000;
+    if (!Number.isInteger(this.maxEntries) || this.maxEntries <= 0) {
+      throw new Error(
+        "LruEmbeddingCache: maxEntries must be a positive integer"
+      );
+    }
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  public async getMany(keys: string[]): Promise<Array<Buffer | null>> {
+    return keys.map((key) => {
+      const value = this.entries.get(key);
+      if (value === undefined) {
+        return null;
+      }
+      // Re-insert to mark as most recently used (Map keeps insertion order).
+      this.entries.delete(key);
+      this.entries.set(key, value);
+      return value;
+    });
+  }
+
+  public async setMany(entries: EmbeddingCacheEntry[]): Promise<void> {
+    for (const { key, value } of entries) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+      if (this.entries.size > this.maxEntries) {
+        this.entries.delete(this.entries.keys().next().value!);
+      }
+    }
+  }
+}
+
+export interface RedisEmbeddingCacheOptions {
+  /** Expiry of cached vectors; they never expire when omitted. */
+  ttlSeconds?: number;
+  /** Defaults to `embedding:`. */
+  prefix?: string;
+}
+
+/** Shared cache in Redis; vectors are stored as binary float32 strings. */
+export class RedisEmbeddingCache implements EmbeddingCacheStore {
+  private readonly redis: RedisAdapter;
+  private readonly ttlSeconds?: number;
+  private readonly prefix: string;
+
+  public constructor(
+    redis: RedisAdapter,
+    options: RedisEmbeddingCacheOptions = {}
+  ) {
+    this.redis = redis;
+    this.ttlSeconds = options.ttlSeconds;
+    this.prefix = options.prefix ?? "embedding:";
+  }
+
+  public async getMany(keys: string[]): Promise<Array<Buffer | null>> {
+    return await this.redis.getBuffers(keys.map((key) => this.prefix + key));
+  }
+
+  public async setMany(entries: EmbeddingCacheEntry[]): Promise<void> {
+    await this.redis.setBuffers(
+      entries.map(({ key, value }) => ({ key: this.prefix + key, value })),
+      this.ttlSeconds
+    );
+  }
+}
+
+/**
+ * Wraps a provider so identical texts are embedded once. A batch is looked
+ * up in one call and only the distinct misses are sent to the provider.
+ * Keys combine the provider, model, dimensions and role with the SHA-256
+ * of the text, so vectors of different models or roles never mix. Vectors
+ * round-trip through float32, the precision the embedding APIs return.
+ */
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  private readonly provider: EmbeddingProvider;
+  private readonly cache: EmbeddingCacheStore;
+  private readonly namespace: string;
+  private hits = 0;
+  private misses = 0;
+
+  public constructor(
+    provider: EmbeddingProvider,
+    cache: EmbeddingCacheStore,
+    identity: EmbeddingCacheIdentity
+  ) {
+    this.provider = provider;
+    this.cache = cache;
+    this.namespace = [
+      identity.provider,
+      identity.model,
+      identity.dimensions ?? "default",
+    ].join(":");
+  }
+
+  public async embed(
+    texts: string[],
+    options: EmbedOptions = {}
+  ): Promise<number[][]> {
+    if (!Array.isArray(texts) || texts.length === 0) {
+      throw new Error("embed: provide a non-empty array of texts");
+    }
+
+    const keys = texts.map((text) => this.keyOf(text, options));
+    const unique = [...new Set(keys)];
+    const cached = await this.cache.getMany(unique);
+
+    const vectors = new Map<string, number[]>();
+    const missing: string[] = [];
+    unique.forEach((key, index) => {
+      const value = cached[index];
+      if (value) {
+        vectors.set(key, decodeEmbedding(value));
+      } else {
+        missing.push(key);
+      }
+    });
+
+    if (missing.length > 0) {
+      const textOf = new Map(keys.map((key, index) => [key, texts[index]]));
+      const embedded = await this.provider.embed(
+        missing.map((key) => textOf.get(key)!),
+        options
+      );
+      if (embedded.length !== missing.length) {
+        throw new Error(
+          `CachedEmbeddingProvider: provider returned ${embedded.length} vectors for ${missing.length} texts`
+        );
+      }
+      const entries = missing.map((key, index) => ({
+        key,
+        value: encodeEmbedding(embedded[index]),
+      }));
+      await this.cache.setMany(entries);
+      entries.forEach(({ key, value }) =>
+        vectors.set(key, decodeEmbedding(value))
+      );
+    }
+
+    this.misses += missing.length;
+    this.hits += texts.length - missing.length;
+    return keys.map((key) => [...vectors.get(key)!]);
+  }
+
+  public get dimensions(): number | undefined {
+    return this.provider.dimensions;
+  }
+
+  public async embedOne(
+    text: string,
+    options?: EmbedOptions
+  ): Promise<number[]> {
+    const [vector] = await this.embed([text], options);
+    return vector;
+  }
+
+  public getStats(): EmbeddingCacheStats {
+    const total = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: total > 0 ? this.hits / total : 0,
+    };
+  }
+
+  public resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  private keyOf(text: string, options: EmbedOptions): string {
+    const digest = createHash("sha256").update(text, "utf8").digest("hex");
+    const role = options.role ? `${options.role}:` : "";
+    return `${this.namespace}:${role}${digest}`;
+  }
+}
+
+/** Little-endian float32, 4 bytes per dimension. */
+export function encodeEmbedding(vector: number[]): Buffer {
+  const buffer = Buffer.alloc(vector.length * 4);
+  vector.forEach((value, index) => buffer.writeFloatLE(value, index * 4));
+  return buffer;
+}
+
+export function decodeEmbedding(buffer: Buffer): number[] {
+  if (buffer.length % 4 !== 0) {
+    throw new Error("decodeEmbedding: buffer length is not a multiple of 4");
+  }
+  return Array.from({ length: buffer.length / 4 }, (_, index) =>
+    buffer.readFloatLE(index * 4)
+  );
+}
@@ -0,0 +1,213 @@
+import type {
+  EmbedOptions,
+  EmbeddingProvider,
+  EmbeddingRole,
+} from "./jina_ai.embedding";
+import {
+  resolveOutputDimensions,
+  type EmbeddingDimensionOptions,
+  type OutputDimensions,
+} from "./dimensions.embedding";
+import {
+  checkEmbeddings,
+  embedInBatches,
+  postEmbeddingRequest,
+  resolveRequestPolicy,
+  type EmbeddingRequestOptions,
+  type EmbeddingRequestPolicy,
+} from "./request.embedding";
+import {
+  embedWithinTokenLimit,
+  resolveTokenLimit,
+  type EmbeddingTokenOptions,
+  type TokenLimit,
+} from "./token.embedding";
+
+/** Texts accepted by one `/v2/embed` request. */
+const COHERE_MAX_BATCH_SIZE = 96;
+
+export enum CohereEmbeddingModel {
+  EmbedV4 = "embed-v4.0",
+  EmbedEnglishV3 = "embed-english-v3.0",
+  EmbedMultilingualV3 = "embed-multilingual-v3.0",
+  EmbedEnglishLightV3 = "embed-english-light-v3.0",
+  EmbedMultilingualLightV3 = "embed-multilingual-light-v3.0",
+}
+
+/** Output dimensions of every model; the first one is the default. */
+export const COHERE_EMBEDDING_DIMENSIONS: Readonly<
+  Record<CohereEmbeddingModel, readonly number[]>
+> = {
+  [CohereEmbeddingModel.EmbedV4]: [1536, 256, 512, 1024],
+  [CohereEmbeddingModel.EmbedEnglishV3]: [1024],
+  [CohereEmbeddingModel.EmbedMultilingualV3]: [1024],
+  [CohereEmbeddingModel.EmbedEnglishLightV3]: [384],
+  [CohereEmbeddingModel.EmbedMultilingualLightV3]: [384],
+};
+
+/**
+ * `search_document` for texts to index and `search_query` for queries;
+ * `classification` and `clustering` for the other uses.
+ */
+export type CohereInputType =
+  | "search_document"
+  | "search_query"
+  | "classification"
+  | "clustering";
+
+export interface CohereEmbeddingProviderOptions
+  extends EmbeddingRequestOptions,
+    EmbeddingTokenOptions,
+    EmbeddingDimensionOptions {
+  baseUrl?: string;
+  timeoutMs?: number;
+  expectedDimensions?: number;
+  /** Used when `embed` gets no role. Defaults to `search_document`. */
+  inputType?: CohereInputType;
+}
+
+const COHERE_INPUT_TYPES: Record<EmbeddingRole, CohereInputType> = {
+  query: "search_query",
+  document: "search_document",
+};
+
+interface CohereEmbeddingResponse {
+  embeddings: { float?: number[][] };
+}
+
+export class CohereEmbeddingProvider implements EmbeddingProvider {
+  private readonly apiKey: string;
+  private readonly model: CohereEmbeddingModel;
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly expectedDimensions?: number;
+  private readonly inputType: CohereInputType;
+  private readonly output: OutputDimensions;
+  private readonly policy: EmbeddingRequestPolicy;
+  private readonly tokenLimit?: TokenLimit;
+
+  public constructor(
+    apiKey: string,
+    model: CohereEmbeddingModel,
+    options: CohereEmbeddingProviderOptions = {}
+  ) {
+    if (!apiKey) {
+      throw new Error("CohereEmbeddingProvider: apiKey is required");
+    }
+    if (!model) {
+      throw new Error("CohereEmbeddingProvider: model is required");
+    }
+    this.apiKey = apiKey;
+    this.model = model;
+    this.baseUrl = options.baseUrl ?? "https://api.cohere.com/v2";
+    this.timeoutMs = options.timeoutMs ?? 60_000;
+    this.expectedDimensions = options.expectedDimensions;
+    this.inputType = options.inputType ?? "search_document";
+    // Only models with several sizes accept `output_dimension`.
+    const sizes = COHERE_EMBEDDING_DIMENSIONS[model] ?? [];
+    this.output = resolveOutputDimensions(
+      options,
+      model,
+      sizes.length > 1 ? sizes : false,
+      "CohereEmbeddingProvider"
+    );
+    this.policy = resolveRequestPolicy(
+      options,
+      COHERE_MAX_BATCH_SIZE,
+      "CohereEmbeddingProvider"
+    );
+    this.tokenLimit = resolveTokenLimit(
+      options,
+      model,
+      "CohereEmbeddingProvider"
+    );
+  }
+
+  public static fromEnv(
+    options: CohereEmbeddingProviderOptions = {}
+  ): CohereEmbeddingProvider {
+    const apiKey = process.env.COHERE_API_KEY ?? "";
+    const modelStr =
+      process.env.COHERE_EMBEDDING_MODEL ?? CohereEmbeddingModel.EmbedV4;
+    const model = toCohereEmbeddingModel(modelStr);
+    return new CohereEmbeddingProvider(apiKey, model, options);
+  }
+
+  public async embed(
+    texts: string[],
+    options: EmbedOptions = {}
+  ): Promise<number[][]> {
+    if (!Array.isArray(texts) || texts.length === 0) {
+      throw new Error("embed: provide a non-empty array of texts");
+    }
+    const inputType = options.role
+      ? COHERE_INPUT_TYPES[options.role]
+      : this.inputType;
+    return await embedWithinTokenLimit(
+      texts,
+      this.tokenLimit,
+      "Cohere embeddings",
+      (inputs) =>
+        embedInBatches(inputs, this.policy, (batch) =>
+          this.embedBatch(batch, inputType)
+        )
+    );
+  }
+
+  /** `dimensions`, or the default dimension of the model. */
+  public get dimensions(): number | undefined {
+    return this.output.dimensions ?? this.expectedDimensions;
+  }
+
+  public async embedOne(
+    text: string,
+    options?: EmbedOptions
+  ): Promise<number[]> {
+    const [vector] = await this.embed([text], options);
+    return vector;
+  }
+
+  private async embedBatch(
+    texts: string[],
+    inputType: CohereInputType
+  ): Promise<number[][]> {
+    const json = (await postEmbeddingRequest(
+      {
+        label: "Cohere embeddings",
+        url: `${this.baseUrl}/embed`,
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+        body: {
+          model: this.model,
+          texts,
+          input_type: inputType,
+          embedding_types: ["float"],
+          ...(this.output.request
+            ? { output_dimension: this.output.request }
+            : {}),
+        },
+        timeoutMs: this.timeoutMs,
+      },
+      this.policy
+    )) as CohereEmbeddingResponse;
+    const vectors = json?.embeddings?.float;
+    if (!Array.isArray(vectors)) {
+      throw new Error("Cohere embeddings: unexpected response shape");
+    }
+    return checkEmbeddings(vectors, "Cohere embeddings", {
+      truncate: this.output.truncate,
+      expectedDimensions: this.expectedDimensions,
+    });
+  }
+}
+
+function toCohereEmbeddingModel(value: string): CohereEmbeddingModel {
+  const allowed = Object.values(CohereEmbeddingModel) as string[];
+  if (allowed.includes(value)) {
+    return value as CohereEmbeddingModel;
+  }
+  throw new Error(
+    `Invalid COHERE_EMBEDDING_MODEL "${value}". Valid values: ${allowed.join(
+      ", "
+    )}`
+  );
+}
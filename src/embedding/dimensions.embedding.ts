@@ -0,0 +1,94 @@
+/** Native output dimension of the known embedding models. */
+export const EMBEDDING_MODEL_DIMENSIONS: Readonly<Record<string, number>> = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "jina-code-embeddings-0.5b": 896,
+  "jina-code-embeddings-1.5b": 1536,
+  "jina-embeddings-v2-base-code": 768,
+  "embed-v4.0": 1536,
+  "embed-english-v3.0": 1024,
+  "embed-multilingual-v3.0": 1024,
+  "embed-english-light-v3.0": 384,
+  "embed-multilingual-light-v3.0": 384,
+  "voyage-3.5": 1024,
+  "voyage-3.5-lite": 1024,
+  "voyage-3-large": 1024,
+  "voyage-code-3": 1024,
+  "voyage-finance-2": 1024,
+  "voyage-law-2": 1024,
+};
+
+export interface EmbeddingDimensionOptions {
+  /**
+   * Output dimension. Sent to the API when the model supports it, otherwise
+   * vectors are truncated locally (Matryoshka) and re-normalised.
+   */
+  dimensions?: number;
+  /** Truncate locally even when the API accepts `dimensions`. */
+  truncateDimensions?: boolean;
+}
+
+export interface OutputDimensions {
+  /** Dimension of the returned vectors, when known. */
+  dimensions?: number;
+  /** Sent to the API as `dimensions`. */
+  request?: number;
+  /** Length to truncate the returned vectors to. */
+  truncate?: number;
+}
+
+/**
+ * Splits `options.dimensions` into what the API is asked for and what is
+ * truncated locally. `apiSupport` says whether the model accepts a
+ * `dimensions` parameter, or lists the only sizes it accepts; other sizes
+ * are truncated from the native vectors.
+ */
+export function resolveOutputDimensions(
+  options: EmbeddingDimensionOptions,
+  model: string,
+  apiSupport: boolean | readonly number[],
+  name: string
+): OutputDimensions {
+  const native = EMBEDDING_MODEL_DIMENSIONS[model];
+  const dimensions = options.dimensions;
+  if (dimensions === undefined) {
+    return { dimensions: native };
+  }
+  if (!Number.isInteger(dimensions) || dimensions <= 0) {
+    throw new Error(`${name}: dimensions must be a positive integer`);
+  }
+  const request =
+    !options.truncateDimensions &&
+    (typeof apiSupport === "boolean"
+      ? apiSupport
+      : apiSupport.includes(dimensions));
+  // Listed sizes may exceed the default, e.g. 2048 on voyage-3.5.
+  const listed = request && typeof apiSupport !== "boolean";
+  if (!listed && native !== undefined && dimensions > native) {
+    throw new Error(
+      `${name}: ${model} has ${native} dimensions, cannot return ${dimensions}`
+    );
+  }
+  return request
+    ? { dimensions, request: dimensions }
+    : { dimensions, truncate: dimensions };
+}
+
+/**
+ * First `dimensions` components of `vector`, rescaled to unit length, as
+ * Matryoshka-trained models expect. Models without Matryoshka training
+ * lose more quality when truncated.
+ */
+export function truncateEmbedding(
+  vector: number[],
+  dimensions: number
+): number[] {
+  if (vector.length < dimensions) {
+    throw new Error(
+      `truncateEmbedding: vector has ${vector.length} dimensions, expected at least ${dimensions}`
+    );
+  }
+  const head = vector.slice(0, dimensions);
+  const norm = Math.sqrt(head.reduce((sum, value) => sum + value ** 2, 0));
+  return norm > 0 ? head.map((value) => value / norm) : head;
+}
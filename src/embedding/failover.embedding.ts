@@ -0,0 +1,91 @@
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit. Defaults to 5. */
+  failureThreshold?: number;
+  /** Time an open circuit rejects calls before a trial. Defaults to 30s. */
+  resetTimeoutMs?: number;
+}
+
+/**
+ * Per-provider circuit: after `failureThreshold` consecutive failures the
+ * provider is skipped for `resetTimeoutMs`, then a single trial call
+ * decides whether it closes again or stays open.
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private failures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  public constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30_000;
+    if (
+      !Number.isInteger(this.failureThreshold) ||
+      this.failureThreshold <= 0
+    ) {
+      throw new Error(
+        "CircuitBreaker: failureThreshold must be a positive integer"
+      );
+    }
+  }
+
+  public get state(): CircuitState {
+    if (this.openedAt === undefined) {
+      return "closed";
+    }
+    return Date.now() - this.openedAt >= this.resetTimeoutMs
+      ? "half_open"
+      : "open";
+  }
+
+  /** Whether a call may go through; claims the trial of a half-open circuit. */
+  public tryAcquire(): boolean {
+    const state = this.state;
+    if (state === "closed") {
+      return true;
+    }
+    if (state === "half_open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  public recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  /** Gives back a claimed trial without recording an outcome. */
+  public release(): void {
+    this.trialInFlight = false;
+  }
+
+  public recordFailure(): void {
+    this.failures++;
+    if (this.trialInFlight || this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+}
+
+const CODE_LINE =
+  /^\s*(?:(?:export|import|from|def|class|function|const|let|var|return|if|for|while|public|private|package|func|fn|use|#include)\b|[}\])];?\s*$|\/\/|#!)|[;{]\s*$/;
+
+/**
+ * Heuristic for routing: true when at least a third of the non-empty lines
+ * look like source code (keywords, braces, statement ends, comments).
+ */
+export function looksLikeCode(text: string): boolean {
+  const lines = text.split("\n").filter((line) => line.trim() !== "");
+  if (lines.length === 0) {
+    return false;
+  }
+  const code = lines.filter((line) => CODE_LINE.test(line)).length;
+  return code / lines.length >= 1 / 3;
+}
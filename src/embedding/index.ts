@@ -1,7 +1,47 @@
 import {
+  BM25SparseEncoder,
+  type BM25SparseEncoderOptions,
+  type SparseEmbeddingProvider,
+  type SparseVector,
+} from "./bm25.embedding";
+import {
+  CachedEmbeddingProvider,
+  LruEmbeddingCache,
+  RedisEmbeddingCache,
+  decodeEmbedding,
+  encodeEmbedding,
+  type EmbeddingCacheEntry,
+  type EmbeddingCacheIdentity,
+  type EmbeddingCacheStats,
+  type EmbeddingCacheStore,
+  type LruEmbeddingCacheOptions,
+  type RedisEmbeddingCacheOptions,
+} from "./cache.embedding";
+import {
+  COHERE_EMBEDDING_DIMENSIONS,
+  CohereEmbeddingModel,
+  CohereEmbeddingProvider,
+  type CohereEmbeddingProviderOptions,
+  type CohereInputType,
+} from "./cohere.embedding";
+import {
+  EMBEDDING_MODEL_DIMENSIONS,
+  truncateEmbedding,
+  type EmbeddingDimensionOptions,
+} from "./dimensions.embedding";
+import {
+  CircuitBreaker,
+  looksLikeCode,
+  type CircuitBreakerOptions,
+  type CircuitState,
+} from "./failover.embedding";
+import {
+  JINA_EMBEDDING_TASKS,
   JinaAIEmbeddingProvider,
   JinaEmbeddingModel,
+  type EmbedOptions,
   type EmbeddingProvider,
+  type EmbeddingRole,
   type JinaAIEmbeddingProviderOptions,
 } from "./jina_ai.embedding";
 import {
@@ -9,10 +49,37 @@ import {
   OpenAIEmbeddingModel,
   type OpenAIEmbeddingProviderOptions,
 } from "./openai.embedding";
+import {
+  OpenAICompatibleEmbeddingProvider,
+  type AzureOpenAIDeployment,
+  type OpenAICompatibleEmbeddingProviderOptions,
+} from "./openai_compatible.embedding";
+import {
+  isTransientEmbeddingError,
+  type EmbeddingRequestOptions,
+} from "./request.embedding";
+import {
+  EMBEDDING_MODEL_TOKEN_LIMITS,
+  estimateTokens,
+  splitByTokens,
+  type EmbeddingTokenOptions,
+  type TokenCounter,
+  type TokenLimitPolicy,
+} from "./token.embedding";
+import {
+  VOYAGE_EMBEDDING_DIMENSIONS,
+  VoyageEmbeddingModel,
+  VoyageEmbeddingProvider,
+  type VoyageEmbeddingProviderOptions,
+  type VoyageInputType,
+} from "./voyage.embedding";
 
 export enum EmbeddingProviderType {
   Jina = "JINA",
   OpenAI = "OPENAI",
+  OpenAICompatible = "OPENAI_COMPATIBLE",
+  Cohere = "COHERE",
+  Voyage = "VOYAGE",
 }
 
 export interface JinaEmbeddingConfig {
@@ -27,15 +94,78 @@ export interface OpenAIEmbeddingConfig {
   options?: OpenAIEmbeddingProviderOptions;
 }
 
+export interface CohereEmbeddingConfig {
+  apiKey: string;
+  model: CohereEmbeddingModel;
+  options?: CohereEmbeddingProviderOptions;
+}
+
+export interface VoyageEmbeddingConfig {
+  apiKey: string;
+  model: VoyageEmbeddingModel;
+  options?: VoyageEmbeddingProviderOptions;
+}
+
+/** An OpenAI-compatible server (Azure OpenAI, vLLM, Ollama, LM Studio...). */
+export interface OpenAICompatibleEmbeddingConfig {
+  /** Omit for servers without authentication. */
+  apiKey?: string;
+  /** Free-form model id, e.g. `nomic-embed-text`. */
+  model: string;
+  options: OpenAICompatibleEmbeddingProviderOptions;
+}
+
 export interface VectorSmithEmbeddingConfig {
   defaultProvider?: EmbeddingProviderType;
   jina?: JinaEmbeddingConfig;
   openai?: OpenAIEmbeddingConfig;
+  openaiCompatible?: OpenAICompatibleEmbeddingConfig;
+  cohere?: CohereEmbeddingConfig;
+  voyage?: VoyageEmbeddingConfig;
+  /**
+   * Caches the vectors of every provider, keyed by provider, model,
+   * dimensions and text, e.g. `new RedisEmbeddingCache(redis)`.
+   */
+  cache?: EmbeddingCacheStore;
+  /**
+   * Providers tried in order when a provider fails, e.g. an Azure deployment
+   * behind OpenAI. Fallbacks must return vectors of the same dimension;
+   * mixing models of the same dimension still mixes vector spaces, so prefer
+   * chains that serve the same model.
+   */
+  fallbacks?: Partial<Record<EmbeddingProviderType, EmbeddingProviderType[]>>;
+  /** Skips providers that keep failing. Off unless set. */
+  circuitBreaker?: CircuitBreakerOptions;
+  /** Used by `embedRouted`; the first matching route picks the provider. */
+  routes?: EmbeddingRoute[];
+}
+
+export interface VectorSmithEmbedOptions extends EmbedOptions {
+  /** Defaults to the default provider. */
+  provider?: EmbeddingProviderType;
+}
+
+/** Sends the texts `match` accepts to `provider`, e.g. code to Jina. */
+export interface EmbeddingRoute {
+  provider: EmbeddingProviderType;
+  match: (text: string) => boolean;
+}
+
+export interface RoutedEmbedding {
+  /** Provider that produced `vector`, after routing and failover. */
+  provider: EmbeddingProviderType;
+  vector: number[];
 }
 
 export class VectorSmithEmbedding {
   private readonly providers: Map<EmbeddingProviderType, EmbeddingProvider>;
   private defaultProvider?: EmbeddingProviderType;
+  private readonly fallbacks: Map<
+    EmbeddingProviderType,
+    EmbeddingProviderType[]
+  >;
+  private readonly breakers: Map<EmbeddingProviderType, CircuitBreaker>;
+  private readonly routes: EmbeddingRoute[];
 
   public constructor(config: VectorSmithEmbeddingConfig = {}) {
     this.providers = new Map<EmbeddingProviderType, EmbeddingProvider>();
@@ -62,6 +192,60 @@ export class VectorSmithEmbedding {
       );
     }
 
+    if (config.openaiCompatible) {
+      this.providers.set(
+        EmbeddingProviderType.OpenAICompatible,
+        new OpenAICompatibleEmbeddingProvider(
+          config.openaiCompatible.apiKey,
+          config.openaiCompatible.model,
+          config.openaiCompatible.options
+        )
+      );
+    }
+
+    if (config.cohere) {
+      this.providers.set(
+        EmbeddingProviderType.Cohere,
+        new CohereEmbeddingProvider(
+          config.cohere.apiKey,
+          config.cohere.model,
+          config.cohere.options
+        )
+      );
+    }
+
+    if (config.voyage) {
+      this.providers.set(
+        EmbeddingProviderType.Voyage,
+        new VoyageEmbeddingProvider(
+          config.voyage.apiKey,
+          config.voyage.model,
+          config.voyage.options
+        )
+      );
+    }
+
+    if (config.cache) {
+      const models: Record<EmbeddingProviderType, string | undefined> = {
+        [EmbeddingProviderType.Jina]: config.jina?.model,
+        [EmbeddingProviderType.OpenAI]: config.openai?.model,
+        [EmbeddingProviderType.OpenAICompatible]:
+          config.openaiCompatible?.model,
+        [EmbeddingProviderType.Cohere]: config.cohere?.model,
+        [EmbeddingProviderType.Voyage]: config.voyage?.model,
+      };
+      for (const [type, provider] of this.providers) {
+        this.providers.set(
+          type,
+          new CachedEmbeddingProvider(provider, config.cache, {
+            provider: type,
+            model: models[type]!,
+            dimensions: provider.dimensions,
+          })
+        );
+      }
+    }
+
     if (this.providers.size === 0) {
       throw new Error(
         "VectorSmithEmbedding: configure at least one embedding provider."
@@ -78,6 +262,38 @@ export class VectorSmithEmbedding {
     } else if (this.providers.size === 1) {
       this.defaultProvider = this.providers.keys().next().value;
     }
+
+    this.fallbacks = new Map<EmbeddingProviderType, EmbeddingProviderType[]>();
+    for (const [type, chain] of Object.entries(config.fallbacks ?? {})) {
+      const primary = type as EmbeddingProviderType;
+      const dimensions = this.getDimensions(primary);
+      for (const fallback of chain ?? []) {
+        if (fallback === primary) {
+          throw new Error(
+            `VectorSmithEmbedding: provider ${primary} cannot fall back to itself.`
+          );
+        }
+        const fallbackDimensions = this.getDimensions(fallback);
+        if (fallbackDimensions !== dimensions) {
+          throw new Error(
+            `VectorSmithEmbedding: fallback ${fallback} returns ${fallbackDimensions} dimensions, ${primary} returns ${dimensions}.`
+          );
+        }
+      }
+      this.fallbacks.set(primary, chain ?? []);
+    }
+
+    this.breakers = new Map<EmbeddingProviderType, CircuitBreaker>();
+    if (config.circuitBreaker) {
+      for (const type of this.providers.keys()) {
+        this.breakers.set(type, new CircuitBreaker(config.circuitBreaker));
+      }
+    }
+
+    this.routes = config.routes ?? [];
+    for (const route of this.routes) {
+      this.getProvider(route.provider);
+    }
   }
 
   public hasProvider(type: EmbeddingProviderType): boolean {
@@ -98,12 +314,7 @@ export class VectorSmithEmbedding {
   }
 
   public getProvider(type?: EmbeddingProviderType): EmbeddingProvider {
-    const resolvedType = type ?? this.defaultProvider;
-    if (!resolvedType) {
-      throw new Error(
-        "VectorSmithEmbedding: no default provider configured; specify a provider type."
-      );
-    }
+    const resolvedType = this.resolveProviderType(type);
     const provider = this.providers.get(resolvedType);
     if (!provider) {
       throw new Error(
@@ -113,29 +324,227 @@ export class VectorSmithEmbedding {
     return provider;
   }
 
+  /**
+   * Dimension of the vectors of `type`, e.g. to size a collection before
+   * anything is embedded.
+   */
+  public getDimensions(type?: EmbeddingProviderType): number {
+    const provider = this.getProvider(type);
+    if (provider.dimensions === undefined) {
+      throw new Error(
+        "VectorSmithEmbedding: the dimension of this model is unknown; set expectedDimensions or dimensions."
+      );
+    }
+    return provider.dimensions;
+  }
+
+  /** Hits and misses of the cache of `type`; undefined without a cache. */
+  public getCacheStats(
+    type?: EmbeddingProviderType
+  ): EmbeddingCacheStats | undefined {
+    const provider = this.getProvider(type);
+    return provider instanceof CachedEmbeddingProvider
+      ? provider.getStats()
+      : undefined;
+  }
+
+  /** Circuit of `type`; undefined without `circuitBreaker`. */
+  public getCircuitState(
+    type?: EmbeddingProviderType
+  ): CircuitState | undefined {
+    return this.breakers.get(this.resolveProviderType(type))?.state;
+  }
+
+  /**
+   * @param options A provider type, or the role of the texts and the
+   *   provider to use.
+   */
   public async embed(
     texts: string[],
-    type?: EmbeddingProviderType
+    options?: EmbeddingProviderType | VectorSmithEmbedOptions
   ): Promise<number[][]> {
-    return this.getProvider(type).embed(texts);
+    const { provider, ...embedOptions } = toEmbedOptions(options);
+    const result = await this.embedWithFailover(provider, texts, embedOptions);
+    return result.vectors;
   }
 
   public async embedOne(
+    text: string,
+    options?: EmbeddingProviderType | VectorSmithEmbedOptions
+  ): Promise<number[]> {
+    const [vector] = await this.embed([text], options);
+    return vector;
+  }
+
+  /** Embeds a search query, e.g. with Cohere `search_query`. */
+  public async embedQuery(
     text: string,
     type?: EmbeddingProviderType
   ): Promise<number[]> {
-    return this.getProvider(type).embedOne(text);
+    return this.embedOne(text, { provider: type, role: "query" });
+  }
+
+  /** Embeds texts to be searched, e.g. with Cohere `search_document`. */
+  public async embedDocuments(
+    texts: string[],
+    type?: EmbeddingProviderType
+  ): Promise<number[][]> {
+    return this.embed(texts, { provider: type, role: "document" });
   }
+
+  /**
+   * Embeds every text with the provider of the first matching route, or
+   * `options.provider` / the default one, and reports which provider
+   * answered so each vector can go to the collection of its dimension.
+   */
+  public async embedRouted(
+    texts: string[],
+    options: VectorSmithEmbedOptions = {}
+  ): Promise<RoutedEmbedding[]> {
+    if (!Array.isArray(texts) || texts.length === 0) {
+      throw new Error("embed: provide a non-empty array of texts");
+    }
+    const { provider, ...embedOptions } = options;
+    const groups = new Map<EmbeddingProviderType, number[]>();
+    texts.forEach((text, index) => {
+      const type =
+        this.routes.find((route) => route.match(text))?.provider ??
+        this.resolveProviderType(provider);
+      groups.set(type, [...(groups.get(type) ?? []), index]);
+    });
+
+    const results: RoutedEmbedding[] = new Array(texts.length);
+    for (const [type, indices] of groups) {
+      const result = await this.embedWithFailover(
+        type,
+        indices.map((index) => texts[index]),
+        embedOptions
+      );
+      indices.forEach((index, i) => {
+        results[index] = {
+          provider: result.provider,
+          vector: result.vectors[i],
+        };
+      });
+    }
+    return results;
+  }
+
+  private resolveProviderType(
+    type?: EmbeddingProviderType
+  ): EmbeddingProviderType {
+    const resolvedType = type ?? this.defaultProvider;
+    if (!resolvedType) {
+      throw new Error(
+        "VectorSmithEmbedding: no default provider configured; specify a provider type."
+      );
+    }
+    return resolvedType;
+  }
+
+  /**
+   * Tries `type` and then its fallbacks, skipping open circuits. Only
+   * transient failures (rate limits, timeouts, 5xx, network) count against a
+   * circuit and move on to the next provider; any other error is the
+   * caller's and is rethrown as is.
+   */
+  private async embedWithFailover(
+    type: EmbeddingProviderType | undefined,
+    texts: string[],
+    options: EmbedOptions
+  ): Promise<{ provider: EmbeddingProviderType; vectors: number[][] }> {
+    const primary = this.resolveProviderType(type);
+    const chain = [primary, ...(this.fallbacks.get(primary) ?? [])];
+    let lastError: unknown;
+    for (const candidate of chain) {
+      const breaker = this.breakers.get(candidate);
+      if (breaker && !breaker.tryAcquire()) {
+        continue;
+      }
+      try {
+        const vectors = await this.getProvider(candidate).embed(texts, options);
+        breaker?.recordSuccess();
+        return { provider: candidate, vectors };
+      } catch (error) {
+        if (!isTransientEmbeddingError(error)) {
+          breaker?.release();
+          throw error;
+        }
+        breaker?.recordFailure();
+        lastError = error;
+      }
+    }
+    throw (
+      lastError ??
+      new Error(
+        `VectorSmithEmbedding: every provider for ${primary} has an open circuit (${chain.join(
+          ", "
+        )}).`
+      )
+    );
+  }
+}
+
+function toEmbedOptions(
+  options: EmbeddingProviderType | VectorSmithEmbedOptions | undefined
+): VectorSmithEmbedOptions {
+  return typeof options === "string" ? { provider: options } : options ?? {};
 }
 
 export type {
+  AzureOpenAIDeployment,
+  BM25SparseEncoderOptions,
+  CircuitBreakerOptions,
+  CircuitState,
+  CohereEmbeddingProviderOptions,
+  CohereInputType,
+  EmbeddingCacheEntry,
+  EmbeddingCacheIdentity,
+  EmbeddingCacheStats,
+  EmbeddingCacheStore,
+  EmbedOptions,
+  EmbeddingDimensionOptions,
   EmbeddingProvider,
+  EmbeddingRequestOptions,
+  EmbeddingRole,
+  EmbeddingTokenOptions,
   JinaAIEmbeddingProviderOptions,
+  LruEmbeddingCacheOptions,
+  OpenAICompatibleEmbeddingProviderOptions,
   OpenAIEmbeddingProviderOptions,
+  RedisEmbeddingCacheOptions,
+  SparseEmbeddingProvider,
+  SparseVector,
+  TokenCounter,
+  TokenLimitPolicy,
+  VoyageEmbeddingProviderOptions,
+  VoyageInputType,
 };
 export {
+  BM25SparseEncoder,
+  CachedEmbeddingProvider,
+  CircuitBreaker,
+  COHERE_EMBEDDING_DIMENSIONS,
+  CohereEmbeddingModel,
+  CohereEmbeddingProvider,
+  decodeEmbedding,
+  EMBEDDING_MODEL_DIMENSIONS,
+  EMBEDDING_MODEL_TOKEN_LIMITS,
+  encodeEmbedding,
+  estimateTokens,
+  isTransientEmbeddingError,
+  JINA_EMBEDDING_TASKS,
   JinaAIEmbeddingProvider,
   JinaEmbeddingModel,
+  looksLikeCode,
+  LruEmbeddingCache,
+  OpenAICompatibleEmbeddingProvider,
   OpenAIEmbeddingProvider,
   OpenAIEmbeddingModel,
+  RedisEmbeddingCache,
+  splitByTokens,
+  truncateEmbedding,
+  VOYAGE_EMBEDDING_DIMENSIONS,
+  VoyageEmbeddingModel,
+  VoyageEmbeddingProvider,
 };
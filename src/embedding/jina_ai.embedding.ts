@@ -1,12 +1,57 @@
+import {
+  resolveOutputDimensions,
+  type EmbeddingDimensionOptions,
+  type OutputDimensions,
+} from "./dimensions.embedding";
+import {
+  embedInBatches,
+  parseEmbeddingData,
+  postEmbeddingRequest,
+  resolveRequestPolicy,
+  type EmbeddingRequestOptions,
+  type EmbeddingRequestPolicy,
+} from "./request.embedding";
+import {
+  embedWithinTokenLimit,
+  resolveTokenLimit,
+  type EmbeddingTokenOptions,
+  type TokenLimit,
+} from "./token.embedding";
+
+/**
+ * What a text is embedded for. Asymmetric models embed search queries and
+ * the documents they should match differently; each provider maps the role
+ * to its native parameter (Jina `task`, Cohere and Voyage `input_type`).
+ */
+export type EmbeddingRole = "query" | "document";
+
+export interface EmbedOptions {
+  /** Left out, texts are embedded as the provider is configured. */
+  role?: EmbeddingRole;
+}
+
 export interface EmbeddingProvider {
-  embed(texts: string[]): Promise<number[][]>;
-  embedOne(text: string): Promise<number[]>;
+  embed(texts: string[], options?: EmbedOptions): Promise<number[][]>;
+  embedOne(text: string, options?: EmbedOptions): Promise<number[]>;
+  /** Dimension of the returned vectors, when known before embedding. */
+  readonly dimensions?: number;
 }
 
-export interface JinaAIEmbeddingProviderOptions {
+/** Inputs per request unless `maxBatchSize` says otherwise. */
+const JINA_MAX_BATCH_SIZE = 512;
+
+export interface JinaAIEmbeddingProviderOptions
+  extends EmbeddingRequestOptions,
+    EmbeddingTokenOptions,
+    EmbeddingDimensionOptions {
   baseUrl?: string;
   timeoutMs?: number;
   expectedDimensions?: number;
+  /**
+   * `task` sent for each role, e.g. `{ query: "code2code.query", document:
+   * "code2code.passage" }`. Defaults to {@link JINA_EMBEDDING_TASKS}.
+   */
+  tasks?: Partial<Record<EmbeddingRole, string>>;
 }
 
 export enum JinaEmbeddingModel {
@@ -15,14 +60,26 @@ export enum JinaEmbeddingModel {
   Embeddings_V2_Base_Code = "jina-embeddings-v2-base-code",
 }
 
-interface JinaEmbeddingItem {
-  embedding: number[];
-  index?: number;
-}
-
-interface JinaEmbeddingResponse {
-  data: JinaEmbeddingItem[];
-}
+/** Default `task` per role; natural language to code search for code models. */
+export const JINA_EMBEDDING_TASKS: Readonly<
+  Record<JinaEmbeddingModel, Partial<Record<EmbeddingRole, string>>>
+> = {
+  [JinaEmbeddingModel.CodeEmbeddings_0_5B]: {
+    query: "nl2code.query",
+    document: "nl2code.passage",
+  },
+  [JinaEmbeddingModel.CodeEmbeddings_1_5B]: {
+    query: "nl2code.query",
+    document: "nl2code.passage",
+  },
+  [JinaEmbeddingModel.Embeddings_V2_Base_Code]: {},
+};
+
+/** Models whose API accepts `dimensions` (Matryoshka-trained). */
+const JINA_MATRYOSHKA_MODELS: readonly string[] = [
+  JinaEmbeddingModel.CodeEmbeddings_0_5B,
+  JinaEmbeddingModel.CodeEmbeddings_1_5B,
+];
 
 export class JinaAIEmbeddingProvider implements EmbeddingProvider {
   private readonly apiKey: string;
@@ -30,6 +87,10 @@ export class JinaAIEmbeddingProvider implements EmbeddingProvider {
   private readonly baseUrl: string;
   private readonly timeoutMs: number;
   private readonly expectedDimensions?: number;
+  private readonly output: OutputDimensions;
+  private readonly tasks: Partial<Record<EmbeddingRole, string>>;
+  private readonly policy: EmbeddingRequestPolicy;
+  private readonly tokenLimit?: TokenLimit;
 
   public constructor(
     apiKey: string,
@@ -47,6 +108,23 @@ export class JinaAIEmbeddingProvider implements EmbeddingProvider {
     this.baseUrl = options.baseUrl ?? "https://api.jina.ai/v1";
     this.timeoutMs = options.timeoutMs ?? 60_000;
     this.expectedDimensions = options.expectedDimensions;
+    this.output = resolveOutputDimensions(
+      options,
+      model,
+      JINA_MATRYOSHKA_MODELS.includes(model),
+      "JinaAIEmbeddingProvider"
+    );
+    this.tasks = options.tasks ?? JINA_EMBEDDING_TASKS[model] ?? {};
+    this.policy = resolveRequestPolicy(
+      options,
+      JINA_MAX_BATCH_SIZE,
+      "JinaAIEmbeddingProvider"
+    );
+    this.tokenLimit = resolveTokenLimit(
+      options,
+      model,
+      "JinaAIEmbeddingProvider"
+    );
   }
 
   public static fromEnv(
@@ -58,75 +136,61 @@ export class JinaAIEmbeddingProvider implements EmbeddingProvider {
     return new JinaAIEmbeddingProvider(apiKey, model, options);
   }
 
-  public async embed(texts: string[]): Promise<number[][]> {
+  public async embed(
+    texts: string[],
+    options: EmbedOptions = {}
+  ): Promise<number[][]> {
     if (!Array.isArray(texts) || texts.length === 0) {
       throw new Error("embed: provide a non-empty array of texts");
     }
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
-    try {
-      const res = await fetch(`${this.baseUrl}/embeddings`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: this.model,
-          input: texts,
-        }),
-        signal: controller.signal,
-      });
-
-      if (!res.ok) {
-        const errText = await safeReadText(res);
-        throw new Error(`Jina embeddings failed: ${res.status} ${errText}`);
-      }
-
-      const json = (await res.json()) as JinaEmbeddingResponse;
-      if (!json?.data || !Array.isArray(json.data)) {
-        throw new Error("Jina embeddings: unexpected response shape");
-      }
-      const vectors = json.data.map((d) => d.embedding);
-
-      if (this.expectedDimensions != null) {
-        for (const v of vectors) {
-          if (!Array.isArray(v) || v.length !== this.expectedDimensions) {
-            throw new Error(
-              `Jina embeddings: dimension mismatch (expected ${
-                this.expectedDimensions
-              }, got ${Array.isArray(v) ? v.length : "invalid"})`
-            );
-          }
-        }
-      }
-
-      return vectors;
-    } catch (error) {
-      if (isAbortError(error)) {
-        throw new Error(`Jina embeddings timed out after ${this.timeoutMs}ms`);
-      }
-      throw error;
-    } finally {
-      clearTimeout(timeout);
-    }
+    const task = options.role && this.tasks[options.role];
+    return await embedWithinTokenLimit(
+      texts,
+      this.tokenLimit,
+      "Jina embeddings",
+      (inputs) =>
+        embedInBatches(inputs, this.policy, (batch) =>
+          this.embedBatch(batch, task)
+        )
+    );
   }
 
-  public async embedOne(text: string): Promise<number[]> {
-    const [vector] = await this.embed([text]);
-    return vector;
+  /** Dimension of the returned vectors; undefined for unknown models. */
+  public get dimensions(): number | undefined {
+    return this.output.dimensions ?? this.expectedDimensions;
   }
-}
 
-function isAbortError(error: unknown): boolean {
-  return error instanceof Error && error.name === "AbortError";
-}
+  public async embedOne(
+    text: string,
+    options?: EmbedOptions
+  ): Promise<number[]> {
+    const [vector] = await this.embed([text], options);
+    return vector;
+  }
 
-async function safeReadText(res: Response): Promise<string> {
-  try {
-    return await res.text();
-  } catch {
-    return "<no body>";
+  private async embedBatch(
+    texts: string[],
+    task: string | undefined
+  ): Promise<number[][]> {
+    const json = await postEmbeddingRequest(
+      {
+        label: "Jina embeddings",
+        url: `${this.baseUrl}/embeddings`,
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+        body: {
+          model: this.model,
+          input: texts,
+          ...(task ? { task } : {}),
+          ...(this.output.request ? { dimensions: this.output.request } : {}),
+        },
+        timeoutMs: this.timeoutMs,
+      },
+      this.policy
+    );
+    return parseEmbeddingData(json, "Jina embeddings", {
+      truncate: this.output.truncate,
+      expectedDimensions: this.expectedDimensions,
+    });
   }
 }
 
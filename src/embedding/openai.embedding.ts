@@ -1,6 +1,31 @@
-import type { EmbeddingProvider } from "./jina_ai.embedding";
-
-export interface OpenAIEmbeddingProviderOptions {
+import type { EmbedOptions, EmbeddingProvider } from "./jina_ai.embedding";
+import {
+  resolveOutputDimensions,
+  type EmbeddingDimensionOptions,
+  type OutputDimensions,
+} from "./dimensions.embedding";
+import {
+  embedInBatches,
+  parseEmbeddingData,
+  postEmbeddingRequest,
+  resolveRequestPolicy,
+  type EmbeddingRequestOptions,
+  type EmbeddingRequestPolicy,
+} from "./request.embedding";
+import {
+  embedWithinTokenLimit,
+  resolveTokenLimit,
+  type EmbeddingTokenOptions,
+  type TokenLimit,
+} from "./token.embedding";
+
+/** Inputs accepted by one `/embeddings` request. */
+const OPENAI_MAX_BATCH_SIZE = 2048;
+
+export interface OpenAIEmbeddingProviderOptions
+  extends EmbeddingRequestOptions,
+    EmbeddingTokenOptions,
+    EmbeddingDimensionOptions {
   baseUrl?: string;
   timeoutMs?: number;
   expectedDimensions?: number;
@@ -11,24 +36,15 @@ export enum OpenAIEmbeddingModel {
   TextEmbedding3Large = "text-embedding-3-large",
 }
 
-interface OpenAIEmbeddingItem {
-  embedding: number[];
-  index?: number;
-  object?: string;
-}
-
-interface OpenAIEmbeddingResponse {
-  data: OpenAIEmbeddingItem[];
-  model?: string;
-  object?: string;
-}
-
 export class OpenAIEmbeddingProvider implements EmbeddingProvider {
   private readonly apiKey: string;
   private readonly model: OpenAIEmbeddingModel;
   private readonly baseUrl: string;
   private readonly timeoutMs: number;
   private readonly expectedDimensions?: number;
+  private readonly output: OutputDimensions;
+  private readonly policy: EmbeddingRequestPolicy;
+  private readonly tokenLimit?: TokenLimit;
 
   public constructor(
     apiKey: string,
@@ -46,6 +62,23 @@ export class OpenAIEmbeddingProvider implements EmbeddingProvider {
     this.baseUrl = options.baseUrl ?? "https://api.openai.com/v1";
     this.timeoutMs = options.timeoutMs ?? 60_000;
     this.expectedDimensions = options.expectedDimensions;
+    // Every text-embedding-3 model accepts `dimensions`.
+    this.output = resolveOutputDimensions(
+      options,
+      model,
+      true,
+      "OpenAIEmbeddingProvider"
+    );
+    this.policy = resolveRequestPolicy(
+      options,
+      OPENAI_MAX_BATCH_SIZE,
+      "OpenAIEmbeddingProvider"
+    );
+    this.tokenLimit = resolveTokenLimit(
+      options,
+      model,
+      "OpenAIEmbeddingProvider"
+    );
   }
 
   public static fromEnv(
@@ -60,66 +93,56 @@ export class OpenAIEmbeddingProvider implements EmbeddingProvider {
     return new OpenAIEmbeddingProvider(apiKey, model, options);
   }
 
-  public async embed(texts: string[]): Promise<number[][]> {
+  /** OpenAI models are symmetric: queries and documents embed alike. */
+  public async embed(
+    texts: string[],
+    _options?: EmbedOptions
+  ): Promise<number[][]> {
     if (!Array.isArray(texts) || texts.length === 0) {
       throw new Error("embed: provide a non-empty array of texts");
     }
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
-    try {
-      const res = await fetch(`${this.baseUrl}/embeddings`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: this.model,
-          input: texts,
-        }),
-        signal: controller.signal,
-      });
-
-      if (!res.ok) {
-        const errText = await safeReadText(res);
-        throw new Error(`OpenAI embeddings failed: ${res.status} ${errText}`);
-      }
-
-      const json = (await res.json()) as OpenAIEmbeddingResponse;
-      if (!json?.data || !Array.isArray(json.data)) {
-        throw new Error("OpenAI embeddings: unexpected response shape");
-      }
-      const vectors = json.data.map((d) => d.embedding);
-
-      if (this.expectedDimensions != null) {
-        for (const v of vectors) {
-          if (!Array.isArray(v) || v.length !== this.expectedDimensions) {
-            throw new Error(
-              `OpenAI embeddings: dimension mismatch (expected ${
-                this.expectedDimensions
-              }, got ${Array.isArray(v) ? v.length : "invalid"})`
-            );
-          }
-        }
-      }
+    return await embedWithinTokenLimit(
+      texts,
+      this.tokenLimit,
+      "OpenAI embeddings",
+      (inputs) =>
+        embedInBatches(inputs, this.policy, (batch) => this.embedBatch(batch))
+    );
+  }
 
-      return vectors;
-    } catch (error) {
-      if (isAbortError(error)) {
-        throw new Error(
-          `OpenAI embeddings timed out after ${this.timeoutMs}ms`
-        );
-      }
-      throw error;
-    } finally {
-      clearTimeout(timeout);
-    }
+  /** Dimension of the returned vectors; undefined for unknown models. */
+  public get dimensions(): number | undefined {
+    return this.output.dimensions ?? this.expectedDimensions;
   }
 
-  public async embedOne(text: string): Promise<number[]> {
-    const [vector] = await this.embed([text]);
+  public async embedOne(
+    text: string,
+    options?: EmbedOptions
+  ): Promise<number[]> {
+    const [vector] = await this.embed([text], options);
     return vector;
   }
+
+  private async embedBatch(texts: string[]): Promise<number[][]> {
+    const json = await postEmbeddingRequest(
+      {
+        label: "OpenAI embeddings",
+        url: `${this.baseUrl}/embeddings`,
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+        body: {
+          model: this.model,
+          input: texts,
+          ...(this.output.request ? { dimensions: this.output.request } : {}),
+        },
+        timeoutMs: this.timeoutMs,
+      },
+      this.policy
+    );
+    return parseEmbeddingData(json, "OpenAI embeddings", {
+      truncate: this.output.truncate,
+      expectedDimensions: this.expectedDimensions,
+    });
+  }
 }
 
 function toOpenAIEmbeddingModel(value: string): OpenAIEmbeddingModel {
@@ -133,15 +156,3 @@ function toOpenAIEmbeddingModel(value: string): OpenAIEmbeddingModel {
     )}`
   );
 }
-
-function isAbortError(error: unknown): boolean {
-  return error instanceof Error && error.name === "AbortError";
-}
-
-async function safeReadText(res: Response): Promise<string> {
-  try {
-    return await res.text();
-  } catch {
-    return "<no body>";
-  }
-}
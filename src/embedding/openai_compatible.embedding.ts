@@ -0,0 +1,213 @@
+import type {
+  EmbedOptions,
+  EmbeddingProvider,
+  EmbeddingRole,
+} from "./jina_ai.embedding";
+import {
+  resolveOutputDimensions,
+  type EmbeddingDimensionOptions,
+  type OutputDimensions,
+} from "./dimensions.embedding";
+import {
+  embedInBatches,
+  parseEmbeddingData,
+  postEmbeddingRequest,
+  resolveRequestPolicy,
+  type EmbeddingRequestOptions,
+  type EmbeddingRequestPolicy,
+} from "./request.embedding";
+import {
+  embedWithinTokenLimit,
+  resolveTokenLimit,
+  type EmbeddingTokenOptions,
+  type TokenLimit,
+} from "./token.embedding";
+
+/** Inputs per request unless `maxBatchSize` says otherwise. */
+const OPENAI_COMPATIBLE_MAX_BATCH_SIZE = 2048;
+
+const AZURE_API_VERSION = "2024-02-01";
+
+export interface AzureOpenAIDeployment {
+  /** Resource endpoint, e.g. `https://my-resource.openai.azure.com`. */
+  endpoint: string;
+  /** Deployment serving the model. Defaults to the model id. */
+  deployment?: string;
+  /** Defaults to `2024-02-01`. */
+  apiVersion?: string;
+}
+
+export interface OpenAICompatibleEmbeddingProviderOptions
+  extends EmbeddingRequestOptions,
+    EmbeddingTokenOptions,
+    EmbeddingDimensionOptions {
+  /**
+   * Base URL of the API, e.g. `http://localhost:11434/v1` for Ollama or
+   * `http://localhost:8000/v1` for vLLM. Required unless `azure` is set.
+   */
+  baseUrl?: string;
+  /** Routes requests to an Azure OpenAI deployment instead of `baseUrl`. */
+  azure?: AzureOpenAIDeployment;
+  /** Header carrying the API key. Defaults to `Authorization`, or `api-key` on Azure. */
+  authHeader?: string;
+  /** Prefix of the API key. Defaults to `Bearer`, or none on Azure. */
+  authScheme?: string;
+  /** Sent with every request, e.g. an organization or gateway header. */
+  headers?: Record<string, string>;
+  /** Extra query parameters of every request. */
+  query?: Record<string, string>;
+  timeoutMs?: number;
+  expectedDimensions?: number;
+  /**
+   * Prepended to the texts of each role, for models trained with
+   * instructions, e.g. `{ query: "search_query: ", document:
+   * "search_document: " }` for nomic-embed-text.
+   */
+  prefixes?: Partial<Record<EmbeddingRole, string>>;
+}
+
+/**
+ * Any server implementing the OpenAI `/embeddings` API: Azure OpenAI, vLLM,
+ * Ollama, LM Studio, LiteLLM and others. Model ids are free-form; token
+ * limits apply to the known OpenAI and Jina models or when
+ * `maxInputTokens` is set.
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  private readonly model: string;
+  private readonly url: string;
+  private readonly headers: Record<string, string>;
+  private readonly timeoutMs: number;
+  private readonly expectedDimensions?: number;
+  private readonly output: OutputDimensions;
+  private readonly prefixes: Partial<Record<EmbeddingRole, string>>;
+  private readonly policy: EmbeddingRequestPolicy;
+  private readonly tokenLimit?: TokenLimit;
+
+  /**
+   * @param apiKey May be empty for local servers without authentication.
+   */
+  public constructor(
+    apiKey: string | undefined,
+    model: string,
+    options: OpenAICompatibleEmbeddingProviderOptions
+  ) {
+    if (!model) {
+      throw new Error("OpenAICompatibleEmbeddingProvider: model is required");
+    }
+    if (!options.baseUrl && !options.azure) {
+      throw new Error(
+        "OpenAICompatibleEmbeddingProvider: baseUrl or azure is required"
+      );
+    }
+    this.model = model;
+    this.url = buildUrl(model, options);
+    this.headers = { ...options.headers };
+    if (apiKey) {
+      const header =
+        options.authHeader ?? (options.azure ? "api-key" : "Authorization");
+      const scheme = options.authScheme ?? (options.azure ? "" : "Bearer");
+      this.headers[header] = scheme ? `${scheme} ${apiKey}` : apiKey;
+    }
+    this.timeoutMs = options.timeoutMs ?? 60_000;
+    this.expectedDimensions = options.expectedDimensions;
+    // Servers that ignore `dimensions` need `truncateDimensions: true`.
+    this.output = resolveOutputDimensions(
+      options,
+      model,
+      true,
+      "OpenAICompatibleEmbeddingProvider"
+    );
+    this.prefixes = options.prefixes ?? {};
+    this.policy = resolveRequestPolicy(
+      options,
+      OPENAI_COMPATIBLE_MAX_BATCH_SIZE,
+      "OpenAICompatibleEmbeddingProvider"
+    );
+    this.tokenLimit = resolveTokenLimit(
+      options,
+      model,
+      "OpenAICompatibleEmbeddingProvider"
+    );
+  }
+
+  public async embed(
+    texts: string[],
+    options: EmbedOptions = {}
+  ): Promise<number[][]> {
+    if (!Array.isArray(texts) || texts.length === 0) {
+      throw new Error("embed: provide a non-empty array of texts");
+    }
+    const prefix = (options.role && this.prefixes[options.role]) ?? "";
+    return await embedWithinTokenLimit(
+      prefix ? texts.map((text) => prefix + text) : texts,
+      this.tokenLimit,
+      "OpenAI-compatible embeddings",
+      (inputs) =>
+        embedInBatches(inputs, this.policy, (batch) => this.embedBatch(batch))
+    );
+  }
+
+  /** Dimension of the returned vectors; undefined for unknown models. */
+  public get dimensions(): number | undefined {
+    return this.output.dimensions ?? this.expectedDimensions;
+  }
+
+  public async embedOne(
+    text: string,
+    options?: EmbedOptions
+  ): Promise<number[]> {
+    const [vector] = await this.embed([text], options);
+    return vector;
+  }
+
+  private async embedBatch(texts: string[]): Promise<number[][]> {
+    const json = await postEmbeddingRequest(
+      {
+        label: "OpenAI-compatible embeddings",
+        url: this.url,
+        headers: this.headers,
+        body: {
+          model: this.model,
+          input: texts,
+          ...(this.output.request ? { dimensions: this.output.request } : {}),
+        },
+        timeoutMs: this.timeoutMs,
+      },
+      this.policy
+    );
+    return parseEmbeddingData(json, "OpenAI-compatible embeddings", {
+      truncate: this.output.truncate,
+      expectedDimensions: this.expectedDimensions,
+    });
+  }
+}
+
+/**
+ * `{baseUrl}/embeddings`, or on Azure
+ * `{endpoint}/openai/deployments/{deployment}/embeddings?api-version=...`.
+ */
+function buildUrl(
+  model: string,
+  options: OpenAICompatibleEmbeddingProviderOptions
+): string {
+  const query = new URLSearchParams(options.query);
+  let base: string;
+  if (options.azure) {
+    const deployment = options.azure.deployment ?? model;
+    base = `${trimSlash(
+      options.azure.endpoint
+    )}/openai/deployments/${encodeURIComponent(deployment)}`;
+    query.set(
+      "api-version",
+      options.azure.apiVersion ?? query.get("api-version") ?? AZURE_API_VERSION
+    );
+  } else {
+    base = trimSlash(options.baseUrl!);
+  }
+  const search = query.toString();
+  return `${base}/embeddings${search ? `?${search}` : ""}`;
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
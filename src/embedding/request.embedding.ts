@@ -0,0 +1,301 @@
+import { truncateEmbedding } from "./dimensions.embedding";
+
+/** Batching and retry settings shared by the HTTP embedding providers. */
+export interface EmbeddingRequestOptions {
+  /** Texts per request; larger inputs are split. Defaults per provider. */
+  maxBatchSize?: number;
+  /** Requests in flight at once for one `embed` call. Defaults to 4. */
+  maxConcurrency?: number;
+  /** Retries of a failed request (429, 408, 5xx, network). Defaults to 3. */
+  maxRetries?: number;
+  /** Base of the exponential backoff. Defaults to 500ms. */
+  initialBackoffMs?: number;
+  /** Upper bound of one backoff delay. Defaults to 30s. */
+  maxBackoffMs?: number;
+  /**
+   * Longest `Retry-After` waited for; a request asked to wait longer fails.
+   * Defaults to 60s.
+   */
+  maxRetryDelayMs?: number;
+}
+
+export interface EmbeddingRequestPolicy {
+  maxBatchSize: number;
+  maxConcurrency: number;
+  maxRetries: number;
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+  maxRetryDelayMs: number;
+}
+
+export interface EmbeddingRequest {
+  /** Prefix of error messages, e.g. `OpenAI embeddings`. */
+  label: string;
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+  timeoutMs: number;
+}
+
+/** Errors of requests that failed for the service's sake, not the input's. */
+const transientErrors = new WeakSet<object>();
+
+/**
+ * True for the errors `postEmbeddingRequest` gives up with on rate limits,
+ * timeouts, server errors and network failures: another provider may
+ * succeed. Invalid input, auth errors and other 4xx are not transient.
+ */
+export function isTransientEmbeddingError(error: unknown): boolean {
+  return (
+    typeof error === "object" && error !== null && transientErrors.has(error)
+  );
+}
+
+export function resolveRequestPolicy(
+  options: EmbeddingRequestOptions,
+  defaultBatchSize: number,
+  name: string
+): EmbeddingRequestPolicy {
+  const policy: EmbeddingRequestPolicy = {
+    maxBatchSize: options.maxBatchSize ?? defaultBatchSize,
+    maxConcurrency: options.maxConcurrency ?? 4,
+    maxRetries: options.maxRetries ?? 3,
+    initialBackoffMs: options.initialBackoffMs ?? 500,
+    maxBackoffMs: options.maxBackoffMs ?? 30_000,
+    maxRetryDelayMs: options.maxRetryDelayMs ?? 60_000,
+  };
+  for (const key of ["maxBatchSize", "maxConcurrency"] as const) {
+    if (!Number.isInteger(policy[key]) || policy[key] <= 0) {
+      throw new Error(`${name}: ${key} must be a positive integer`);
+    }
+  }
+  if (!Number.isInteger(policy.maxRetries) || policy.maxRetries < 0) {
+    throw new Error(`${name}: maxRetries must be a non-negative integer`);
+  }
+  if (Number.isNaN(policy.maxRetryDelayMs) || policy.maxRetryDelayMs < 0) {
+    throw new Error(`${name}: maxRetryDelayMs must be a non-negative number`);
+  }
+  return policy;
+}
+
+/**
+ * Embeds `texts` in batches of `maxBatchSize`, running at most
+ * `maxConcurrency` batches at once, and returns the vectors in input order.
+ */
+export async function embedInBatches(
+  texts: string[],
+  policy: EmbeddingRequestPolicy,
+  embedBatch: (batch: string[]) => Promise<number[][]>
+): Promise<number[][]> {
+  const batches: string[][] = [];
+  for (let start = 0; start < texts.length; start += policy.maxBatchSize) {
+    batches.push(texts.slice(start, start + policy.maxBatchSize));
+  }
+
+  const results: number[][][] = new Array(batches.length);
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < batches.length) {
+      const index = next++;
+      try {
+        const vectors = await embedBatch(batches[index]);
+        if (vectors.length !== batches[index].length) {
+          throw new Error(
+            `embed: got ${vectors.length} vectors for ${batches[index].length} texts`
+          );
+        }
+        results[index] = vectors;
+      } catch (error) {
+        // Stop starting new batches; requests in flight still settle.
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(
+    Array.from(
+      { length: Math.min(policy.maxConcurrency, batches.length) },
+      worker
+    )
+  );
+  return results.flat();
+}
+
+/**
+ * POSTs `request.body` as JSON and returns the parsed response. Rate limits
+ * (429), timeouts (408 and `timeoutMs`), server errors and network failures
+ * are retried up to `maxRetries` times with exponential backoff and full
+ * jitter; a `Retry-After` (or `retry-after-ms`) header replaces the
+ * computed delay, and one longer than `maxRetryDelayMs` fails the request.
+ */
+export async function postEmbeddingRequest(
+  request: EmbeddingRequest,
+  policy: EmbeddingRequestPolicy
+): Promise<unknown> {
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < policy.maxRetries;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), request.timeoutMs);
+    let retryAfterMs: number | undefined;
+    let failure: Error;
+    try {
+      const res = await fetch(request.url, {
+        method: "POST",
+        headers: {
+          ...request.headers,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(request.body),
+        signal: controller.signal,
+      });
+      if (res.ok) {
+        return await res.json();
+      }
+      const errText = await safeReadText(res);
+      failure = new Error(`${request.label} failed: ${res.status} ${errText}`);
+      if (!isRetryableStatus(res.status)) {
+        throw failure;
+      }
+      if (!canRetry) {
+        transientErrors.add(failure);
+        throw failure;
+      }
+      retryAfterMs = parseRetryAfter(res.headers);
+      if (retryAfterMs !== undefined && retryAfterMs > policy.maxRetryDelayMs) {
+        failure = new Error(
+          `${request.label} failed: ${res.status} ${errText}; retry requested in ${retryAfterMs}ms exceeds maxRetryDelayMs`
+        );
+        transientErrors.add(failure);
+        throw failure;
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        failure = new Error(
+          `${request.label} timed out after ${request.timeoutMs}ms`
+        );
+      } else if (isNetworkError(error)) {
+        failure = error as Error;
+      } else {
+        throw error;
+      }
+      if (!canRetry) {
+        transientErrors.add(failure);
+        throw failure;
+      }
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    await sleep(retryAfterMs ?? backoffDelay(attempt, policy));
+  }
+}
+
+/** Checks applied to the vectors of an embedding response. */
+export interface EmbeddingChecks {
+  /** Matryoshka length the vectors are truncated to first. */
+  truncate?: number;
+  /** Vectors of another length fail with a dimension mismatch. */
+  expectedDimensions?: number;
+}
+
+interface EmbeddingData {
+  data?: Array<{ embedding: number[]; index?: number }>;
+}
+
+/**
+ * Vectors of an OpenAI-style `{ data: [{ index, embedding }] }` response in
+ * input order, passed through {@link checkEmbeddings}.
+ */
+export function parseEmbeddingData(
+  json: unknown,
+  label: string,
+  checks: EmbeddingChecks = {}
+): number[][] {
+  const data = (json as EmbeddingData | null)?.data;
+  if (!Array.isArray(data)) {
+    throw new Error(`${label}: unexpected response shape`);
+  }
+  const vectors = [...data]
+    .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+    .map((d) => d.embedding);
+  return checkEmbeddings(vectors, label, checks);
+}
+
+/** Applies `checks` to the vectors of a response of any shape. */
+export function checkEmbeddings(
+  vectors: number[][],
+  label: string,
+  checks: EmbeddingChecks
+): number[][] {
+  const checked = checks.truncate
+    ? vectors.map((v) => truncateEmbedding(v, checks.truncate!))
+    : vectors;
+  if (checks.expectedDimensions != null) {
+    for (const v of checked) {
+      if (!Array.isArray(v) || v.length !== checks.expectedDimensions) {
+        throw new Error(
+          `${label}: dimension mismatch (expected ${
+            checks.expectedDimensions
+          }, got ${Array.isArray(v) ? v.length : "invalid"})`
+        );
+      }
+    }
+  }
+  return checked;
+}
+
+/** Random delay in `[0, min(maxBackoffMs, initialBackoffMs * 2^attempt))`. */
+export function backoffDelay(
+  attempt: number,
+  policy: Pick<EmbeddingRequestPolicy, "initialBackoffMs" | "maxBackoffMs">
+): number {
+  const ceiling = Math.min(
+    policy.maxBackoffMs,
+    policy.initialBackoffMs * 2 ** attempt
+  );
+  return Math.floor(Math.random() * ceiling);
+}
+
+/** Delay requested by the server in ms, from seconds or an HTTP date. */
+export function parseRetryAfter(headers: Headers): number | undefined {
+  const ms = Number(headers.get("retry-after-ms") ?? NaN);
+  if (Number.isFinite(ms) && ms >= 0) {
+    return ms;
+  }
+  const value = headers.get("retry-after");
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+/** `fetch` rejects with a TypeError when the connection fails. */
+function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError;
+}
+
+async function safeReadText(res: Response): Promise<string> {
+  try {
+    return await res.text();
+  } catch {
+    return "<no body>";
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
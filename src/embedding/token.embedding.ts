@@ -0,0 +1,215 @@
+/** Context window, in tokens, of the supported embedding models. */
+export const EMBEDDING_MODEL_TOKEN_LIMITS: Readonly<Record<string, number>> = {
+  "text-embedding-3-small": 8191,
+  "text-embedding-3-large": 8191,
+  "jina-code-embeddings-0.5b": 32768,
+  "jina-code-embeddings-1.5b": 32768,
+  "jina-embeddings-v2-base-code": 8192,
+  "embed-v4.0": 128000,
+  "embed-english-v3.0": 512,
+  "embed-multilingual-v3.0": 512,
+  "embed-english-light-v3.0": 512,
+  "embed-multilingual-light-v3.0": 512,
+  "voyage-3.5": 32000,
+  "voyage-3.5-lite": 32000,
+  "voyage-3-large": 32000,
+  "voyage-code-3": 32000,
+  "voyage-finance-2": 32000,
+  "voyage-law-2": 16000,
+};
+
+/**
+ * What to do with a text longer than the model accepts:
+ * - `throw`: reject the call before any request, naming the input index.
+ * - `truncate`: embed only the leading tokens that fit.
+ * - `split`: embed consecutive pieces that fit and average their vectors,
+ *   weighted by token count and rescaled to unit length.
+ */
+export type TokenLimitPolicy = "throw" | "truncate" | "split";
+
+export type TokenCounter = (text: string) => number;
+
+export interface EmbeddingTokenOptions {
+  /** Defaults to the limit of the model, see {@link EMBEDDING_MODEL_TOKEN_LIMITS}. */
+  maxInputTokens?: number;
+  /** Defaults to `throw`. */
+  tokenLimitPolicy?: TokenLimitPolicy;
+  /**
+   * Tokens of a text, e.g. the length of a tiktoken encoding. Defaults to
+   * {@link estimateTokens}.
+   */
+  countTokens?: TokenCounter;
+}
+
+export interface TokenLimit {
+  maxTokens: number;
+  policy: TokenLimitPolicy;
+  countTokens: TokenCounter;
+}
+
+/** Undefined for unknown models without an explicit `maxInputTokens`. */
+export function resolveTokenLimit(
+  options: EmbeddingTokenOptions,
+  model: string,
+  name: string
+): TokenLimit | undefined {
+  const maxTokens =
+    options.maxInputTokens ?? EMBEDDING_MODEL_TOKEN_LIMITS[model];
+  if (maxTokens === undefined) {
+    return undefined;
+  }
+  if (!Number.isInteger(maxTokens) || maxTokens <= 0) {
+    throw new Error(`${name}: maxInputTokens must be a positive integer`);
+  }
+  return {
+    maxTokens,
+    policy: options.tokenLimitPolicy ?? "throw",
+    countTokens: options.countTokens ?? estimateTokens,
+  };
+}
+
+const TOKEN_PIECE =
+  /[A-Z]*[a-z]+|[A-Z]+|\d{1,3}| +|[^\x00-\x7f]+|\s|[^\sA-Za-z\d]/g;
+
+/**
+ * Token count without a tokenizer, erring on the high side for prose and
+ * code: a token per 4 letters of every word (camelCase parts count as
+ * words), per 3 digits, per punctuation mark or line break and per 2 UTF-8
+ * bytes of other characters (accents, CJK, emoji). Single spaces are free,
+ * as tokenizers merge them into the following word.
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const [piece] of text.matchAll(TOKEN_PIECE)) {
+    const first = piece.charCodeAt(0);
+    if (piece === " ") {
+      continue;
+    }
+    if (isAsciiLetter(first)) {
+      tokens += Math.ceil(piece.length / 4);
+    } else if (first >= 0x80) {
+      tokens += Math.ceil(Buffer.byteLength(piece, "utf8") / 2);
+    } else {
+      tokens += 1;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Applies `limit` to `texts`, embeds the resulting inputs with `embed` and
+ * returns one vector per text. Without a limit `texts` are passed through.
+ */
+export async function embedWithinTokenLimit(
+  texts: string[],
+  limit: TokenLimit | undefined,
+  label: string,
+  embed: (inputs: string[]) => Promise<number[][]>
+): Promise<number[][]> {
+  if (!limit) {
+    return await embed(texts);
+  }
+
+  const pieces = texts.map((text, index) => {
+    const tokens = limit.countTokens(text);
+    if (tokens <= limit.maxTokens) {
+      return [{ text, tokens }];
+    }
+    if (limit.policy === "throw") {
+      throw new Error(
+        `${label}: input ${index} has ${tokens} tokens, the model accepts ${limit.maxTokens}`
+      );
+    }
+    return splitByTokens(
+      text,
+      limit,
+      limit.policy === "truncate" ? 1 : Infinity
+    );
+  });
+
+  const vectors = await embed(pieces.flat().map((piece) => piece.text));
+  let offset = 0;
+  return pieces.map((parts) => {
+    const own = vectors.slice(offset, offset + parts.length);
+    offset += parts.length;
+    return own.length === 1
+      ? own[0]
+      : averageVectors(
+          own,
+          parts.map((part) => part.tokens)
+        );
+  });
+}
+
+/**
+ * Up to `maxPieces` consecutive pieces of `text` within `maxTokens`, cut at
+ * the last whitespace of the longest fitting prefix when there is one.
+ */
+export function splitByTokens(
+  text: string,
+  limit: Pick<TokenLimit, "maxTokens" | "countTokens">,
+  maxPieces = Infinity
+): Array<{ text: string; tokens: number }> {
+  const pieces: Array<{ text: string; tokens: number }> = [];
+  let rest = text;
+  while (rest.length > 0 && pieces.length < maxPieces) {
+    let end = longestFittingPrefix(rest, limit);
+    if (end < rest.length) {
+      let space = end - 1;
+      while (space > end / 2 && !/\s/.test(rest[space])) {
+        space--;
+      }
+      if (space > end / 2) {
+        end = space + 1;
+      }
+    }
+    const piece = rest.slice(0, end);
+    pieces.push({ text: piece, tokens: limit.countTokens(piece) });
+    rest = rest.slice(end);
+  }
+  return pieces;
+}
+
+/**
+ * Binary search on the prefix length; always at least one character. No
+ * tokenizer packs much more than 32 characters into a token, which bounds
+ * the prefixes counted on very long texts.
+ */
+function longestFittingPrefix(
+  text: string,
+  limit: Pick<TokenLimit, "maxTokens" | "countTokens">
+): number {
+  let low = 1;
+  let high = Math.min(text.length, limit.maxTokens * 32);
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (limit.countTokens(text.slice(0, middle)) <= limit.maxTokens) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  // Do not separate a surrogate pair.
+  const code = text.charCodeAt(low - 1);
+  if (code >= 0xd800 && code <= 0xdbff && low < text.length) {
+    low = low > 1 ? low - 1 : low + 1;
+  }
+  return low;
+}
+
+function averageVectors(vectors: number[][], weights: number[]): number[] {
+  const total = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+  const average = vectors[0].map((_, dimension) =>
+    vectors.reduce(
+      (sum, vector, index) =>
+        sum + (vector[dimension] * weights[index]) / total,
+      0
+    )
+  );
+  const norm = Math.sqrt(average.reduce((sum, value) => sum + value ** 2, 0));
+  return norm > 0 ? average.map((value) => value / norm) : average;
+}
+
+function isAsciiLetter(code: number): boolean {
+  return (code >= 0x41 && code <= 0x5a) || (code >= 0x61 && code <= 0x7a);
+}
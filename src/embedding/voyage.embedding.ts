@@ -0,0 +1,197 @@
+import type { EmbedOptions, EmbeddingProvider } from "./jina_ai.embedding";
+import {
+  resolveOutputDimensions,
+  type EmbeddingDimensionOptions,
+  type OutputDimensions,
+} from "./dimensions.embedding";
+import {
+  embedInBatches,
+  parseEmbeddingData,
+  postEmbeddingRequest,
+  resolveRequestPolicy,
+  type EmbeddingRequestOptions,
+  type EmbeddingRequestPolicy,
+} from "./request.embedding";
+import {
+  embedWithinTokenLimit,
+  resolveTokenLimit,
+  type EmbeddingTokenOptions,
+  type TokenLimit,
+} from "./token.embedding";
+
+/**
+ * Texts per request unless `maxBatchSize` says otherwise. The API accepts
+ * up to 1000 but also caps the tokens of a request, which large batches of
+ * long texts exceed.
+ */
+const VOYAGE_MAX_BATCH_SIZE = 128;
+
+export enum VoyageEmbeddingModel {
+  Voyage3_5 = "voyage-3.5",
+  Voyage3_5_Lite = "voyage-3.5-lite",
+  Voyage3_Large = "voyage-3-large",
+  VoyageCode3 = "voyage-code-3",
+  VoyageFinance2 = "voyage-finance-2",
+  VoyageLaw2 = "voyage-law-2",
+}
+
+/** Output dimensions of every model; the first one is the default. */
+export const VOYAGE_EMBEDDING_DIMENSIONS: Readonly<
+  Record<VoyageEmbeddingModel, readonly number[]>
+> = {
+  [VoyageEmbeddingModel.Voyage3_5]: [1024, 256, 512, 2048],
+  [VoyageEmbeddingModel.Voyage3_5_Lite]: [1024, 256, 512, 2048],
+  [VoyageEmbeddingModel.Voyage3_Large]: [1024, 256, 512, 2048],
+  [VoyageEmbeddingModel.VoyageCode3]: [1024, 256, 512, 2048],
+  [VoyageEmbeddingModel.VoyageFinance2]: [1024],
+  [VoyageEmbeddingModel.VoyageLaw2]: [1024],
+};
+
+/** `document` for texts to index, `query` for search queries. */
+export type VoyageInputType = "query" | "document";
+
+export interface VoyageEmbeddingProviderOptions
+  extends EmbeddingRequestOptions,
+    EmbeddingTokenOptions,
+    EmbeddingDimensionOptions {
+  baseUrl?: string;
+  timeoutMs?: number;
+  expectedDimensions?: number;
+  /**
+   * Used when `embed` gets no role. Omitted by default, which embeds texts
+   * without a retrieval prompt.
+   */
+  inputType?: VoyageInputType;
+}
+
+export class VoyageEmbeddingProvider implements EmbeddingProvider {
+  private readonly apiKey: string;
+  private readonly model: VoyageEmbeddingModel;
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly expectedDimensions?: number;
+  private readonly inputType?: VoyageInputType;
+  private readonly output: OutputDimensions;
+  private readonly policy: EmbeddingRequestPolicy;
+  private readonly tokenLimit?: TokenLimit;
+
+  public constructor(
+    apiKey: string,
+    model: VoyageEmbeddingModel,
+    options: VoyageEmbeddingProviderOptions = {}
+  ) {
+    if (!apiKey) {
+      throw new Error("VoyageEmbeddingProvider: apiKey is required");
+    }
+    if (!model) {
+      throw new Error("VoyageEmbeddingProvider: model is required");
+    }
+    this.apiKey = apiKey;
+    this.model = model;
+    this.baseUrl = options.baseUrl ?? "https://api.voyageai.com/v1";
+    this.timeoutMs = options.timeoutMs ?? 60_000;
+    this.expectedDimensions = options.expectedDimensions;
+    this.inputType = options.inputType;
+    // Only models with several sizes accept `output_dimension`.
+    const sizes = VOYAGE_EMBEDDING_DIMENSIONS[model] ?? [];
+    this.output = resolveOutputDimensions(
+      options,
+      model,
+      sizes.length > 1 ? sizes : false,
+      "VoyageEmbeddingProvider"
+    );
+    this.policy = resolveRequestPolicy(
+      options,
+      VOYAGE_MAX_BATCH_SIZE,
+      "VoyageEmbeddingProvider"
+    );
+    this.tokenLimit = resolveTokenLimit(
+      options,
+      model,
+      "VoyageEmbeddingProvider"
+    );
+  }
+
+  public static fromEnv(
+    options: VoyageEmbeddingProviderOptions = {}
+  ): VoyageEmbeddingProvider {
+    const apiKey = process.env.VOYAGE_API_KEY ?? "";
+    const modelStr =
+      process.env.VOYAGE_EMBEDDING_MODEL ?? VoyageEmbeddingModel.Voyage3_5;
+    const model = toVoyageEmbeddingModel(modelStr);
+    return new VoyageEmbeddingProvider(apiKey, model, options);
+  }
+
+  public async embed(
+    texts: string[],
+    options: EmbedOptions = {}
+  ): Promise<number[][]> {
+    if (!Array.isArray(texts) || texts.length === 0) {
+      throw new Error("embed: provide a non-empty array of texts");
+    }
+    // Voyage input types are named after the roles.
+    const inputType: VoyageInputType | undefined =
+      options.role ?? this.inputType;
+    return await embedWithinTokenLimit(
+      texts,
+      this.tokenLimit,
+      "Voyage embeddings",
+      (inputs) =>
+        embedInBatches(inputs, this.policy, (batch) =>
+          this.embedBatch(batch, inputType)
+        )
+    );
+  }
+
+  /** `dimensions`, or the default dimension of the model. */
+  public get dimensions(): number | undefined {
+    return this.output.dimensions ?? this.expectedDimensions;
+  }
+
+  public async embedOne(
+    text: string,
+    options?: EmbedOptions
+  ): Promise<number[]> {
+    const [vector] = await this.embed([text], options);
+    return vector;
+  }
+
+  private async embedBatch(
+    texts: string[],
+    inputType: VoyageInputType | undefined
+  ): Promise<number[][]> {
+    const json = await postEmbeddingRequest(
+      {
+        label: "Voyage embeddings",
+        url: `${this.baseUrl}/embeddings`,
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+        body: {
+          model: this.model,
+          input: texts,
+          ...(inputType ? { input_type: inputType } : {}),
+          ...(this.output.request
+            ? { output_dimension: this.output.request }
+            : {}),
+        },
+        timeoutMs: this.timeoutMs,
+      },
+      this.policy
+    );
+    return parseEmbeddingData(json, "Voyage embeddings", {
+      truncate: this.output.truncate,
+      expectedDimensions: this.expectedDimensions,
+    });
+  }
+}
+
+function toVoyageEmbeddingModel(value: string): VoyageEmbeddingModel {
+  const allowed = Object.values(VoyageEmbeddingModel) as string[];
+  if (allowed.includes(value)) {
+    return value as VoyageEmbeddingModel;
+  }
+  throw new Error(
+    `Invalid VOYAGE_EMBEDDING_MODEL "${value}". Valid values: ${allowed.join(
+      ", "
+    )}`
+  );
+}
@@ -0,0 +1,44 @@
+export type FilterValue = string | number | boolean;
+
+export interface FilterRange {
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+/**
+ * Condition on a single metadata key. `key` is a dot-separated path, so
+ * `"author.name"` addresses `{ author: { name } }`.
+ */
+export type FilterCondition =
+  | { key: string; match: FilterValue }
+  | { key: string; in: FilterValue[] }
+  | { key: string; range: FilterRange }
+  | { key: string; exists: boolean };
+
+export type FilterClause = FilterCondition | MetadataFilter;
+
+/**
+ * Boolean combination of conditions: every `must` clause, at least one
+ * `should` clause (when present) and no `mustNot` clause have to match.
+ */
+export interface MetadataFilter {
+  must?: FilterClause[];
+  should?: FilterClause[];
+  mustNot?: FilterClause[];
+}
+
+export function isFilterCondition(
+  clause: FilterClause
+): clause is FilterCondition {
+  return typeof (clause as FilterCondition).key === "string";
+}
+
+export function splitFilterKey(key: string): string[] {
+  const path = key.split(".");
+  if (path.some((segment) => segment.length === 0)) {
+    throw new Error(`Filter: invalid key "${key}"`);
+  }
+  return path;
+}
@@ -0,0 +1,12 @@
+export type {
+  FilterClause,
+  FilterCondition,
+  FilterRange,
+  FilterValue,
+  MetadataFilter,
+} from "./base.filter";
+export type { MetadataPredicate } from "./memory.filter";
+export { compileMemoryFilter } from "./memory.filter";
+export { compilePgVectorFilter } from "./pg_vector.filter";
+export { compileQdrantFilter } from "./qdrant.filter";
+export { compileRedisFilter, escapeRedisTagValue } from "./redis.filter";
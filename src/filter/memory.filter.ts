@@ -0,0 +1,87 @@
+import {
+  isFilterCondition,
+  splitFilterKey,
+  type FilterClause,
+  type FilterCondition,
+  type FilterValue,
+  type MetadataFilter,
+} from "./base.filter";
+
+export type MetadataPredicate = (metadata: unknown) => boolean;
+
+/**
+ * Compiles a {@link MetadataFilter} to a predicate over plain metadata
+ * objects, following Qdrant's semantics: a condition on an array value
+ * matches if any element matches, and `exists: false` also matches `null`
+ * and empty arrays.
+ */
+export function compileMemoryFilter(filter: MetadataFilter): MetadataPredicate {
+  const must = (filter.must ?? []).map(compileClause);
+  const should = (filter.should ?? []).map(compileClause);
+  const mustNot = (filter.mustNot ?? []).map(compileClause);
+
+  return (metadata) =>
+    must.every((predicate) => predicate(metadata)) &&
+    (should.length === 0 || should.some((predicate) => predicate(metadata))) &&
+    !mustNot.some((predicate) => predicate(metadata));
+}
+
+function compileClause(clause: FilterClause): MetadataPredicate {
+  if (!isFilterCondition(clause)) {
+    return compileMemoryFilter(clause);
+  }
+
+  const path = splitFilterKey(clause.key);
+  const test = compileCondition(clause);
+
+  return (metadata) => {
+    const value = resolvePath(metadata, path);
+    return test(value);
+  };
+}
+
+function compileCondition(
+  condition: FilterCondition
+): (value: unknown) => boolean {
+  if ("exists" in condition) {
+    return (value) => isPresent(value) === condition.exists;
+  }
+
+  let matches: (value: unknown) => boolean;
+  if ("match" in condition) {
+    matches = (value) => value === condition.match;
+  } else if ("in" in condition) {
+    const values = new Set<FilterValue>(condition.in);
+    matches = (value) => values.has(value as FilterValue);
+  } else {
+    const { gt, gte, lt, lte } = condition.range;
+    matches = (value) =>
+      typeof value === "number" &&
+      (gt === undefined || value > gt) &&
+      (gte === undefined || value >= gte) &&
+      (lt === undefined || value < lt) &&
+      (lte === undefined || value <= lte);
+  }
+
+  return (value) =>
+    Array.isArray(value) ? value.some(matches) : matches(value);
+}
+
+function resolvePath(metadata: unknown, path: string[]): unknown {
+  let current = metadata;
+  for (const segment of path) {
+    if (current === null || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function isPresent(value: unknown): boolean {
+  return (
+    value !== undefined &&
+    value !== null &&
+    !(Array.isArray(value) && value.length === 0)
+  );
+}
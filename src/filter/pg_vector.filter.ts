@@ -0,0 +1,126 @@
+import {
+  isFilterCondition,
+  splitFilterKey,
+  type FilterCondition,
+  type FilterValue,
+  type MetadataFilter,
+} from "./base.filter";
+
+/**
+ * Compiles a {@link MetadataFilter} to a SQL boolean expression over a JSONB
+ * column. Values are appended to `params` and referenced as `$n`, so the
+ * expression can be embedded in a query that already uses `params`.
+ * Equality is expressed as JSONB containment (`@>`) so a GIN index on the
+ * column can serve it; a value also matches an element of an array, since
+ * containment only looks inside top-level arrays. As in Qdrant, `mustNot` keeps rows without metadata
+ * (SQL NULL) and `exists` treats JSON `null` and `[]` as absent.
+ */
+export function compilePgVectorFilter(
+  filter: MetadataFilter,
+  params: unknown[],
+  column: string = "metadata"
+): string {
+  const parts: string[] = [];
+
+  if (filter.must?.length) {
+    parts.push(
+      filter.must
+        .map((clause) => compileClause(clause, params, column))
+        .join(" AND ")
+    );
+  }
+
+  if (filter.should?.length) {
+    parts.push(
+      `(${filter.should
+        .map((clause) => compileClause(clause, params, column))
+        .join(" OR ")})`
+    );
+  }
+
+  if (filter.mustNot?.length) {
+    // `NOT (NULL @> ...)` is NULL, which would drop rows without metadata.
+    const coalesced = column.startsWith("COALESCE(")
+      ? column
+      : `COALESCE(${column}, '{}'::jsonb)`;
+    parts.push(
+      `NOT (${filter.mustNot
+        .map((clause) => compileClause(clause, params, coalesced))
+        .join(" OR ")})`
+    );
+  }
+
+  return parts.length > 0 ? `(${parts.join(" AND ")})` : "TRUE";
+}
+
+function compileClause(
+  clause: FilterCondition | MetadataFilter,
+  params: unknown[],
+  column: string
+): string {
+  if (!isFilterCondition(clause)) {
+    return compilePgVectorFilter(clause, params, column);
+  }
+
+  const path = splitFilterKey(clause.key);
+
+  if ("match" in clause) {
+    const [scalar, element] = containing(path, clause.match);
+    params.push(scalar, element);
+    return `(${column} @> $${params.length - 1}::jsonb OR ${column} @> $${
+      params.length
+    }::jsonb)`;
+  }
+
+  if ("in" in clause) {
+    if (clause.in.length === 0) {
+      return "FALSE";
+    }
+    params.push(clause.in.flatMap((value) => containing(path, value)));
+    return `${column} @> ANY($${params.length}::jsonb[])`;
+  }
+
+  params.push(path);
+  const value = `${column} #> $${params.length}::text[]`;
+
+  if ("exists" in clause) {
+    const present = `COALESCE((${value}) NOT IN ('null'::jsonb, '[]'::jsonb), FALSE)`;
+    return clause.exists ? present : `NOT ${present}`;
+  }
+
+  const bounds: string[] = [];
+  const { gt, gte, lt, lte } = clause.range;
+  for (const [operator, bound] of [
+    [">", gt],
+    [">=", gte],
+    ["<", lt],
+    ["<=", lte],
+  ] as const) {
+    if (bound !== undefined) {
+      params.push(bound);
+      bounds.push(`(${value})::numeric ${operator} $${params.length}`);
+    }
+  }
+  if (bounds.length === 0) {
+    throw new Error(`Filter: empty range for key "${clause.key}"`);
+  }
+  // Non-numeric values never match instead of failing the cast.
+  return `CASE WHEN jsonb_typeof(${value}) = 'number' THEN ${bounds.join(
+    " AND "
+  )} ELSE FALSE END`;
+}
+
+/** Documents holding `value` at `path`, as itself or as an array element. */
+function containing(path: string[], value: FilterValue): [string, string] {
+  return [
+    JSON.stringify(nest(path, value)),
+    JSON.stringify(nest(path, [value])),
+  ];
+}
+
+function nest(path: string[], value: unknown): unknown {
+  return path.reduceRight<unknown>(
+    (inner, segment) => ({ [segment]: inner }),
+    value
+  );
+}
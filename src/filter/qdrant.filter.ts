@@ -0,0 +1,74 @@
+import type { Schemas } from "@qdrant/js-client-rest";
+import {
+  isFilterCondition,
+  splitFilterKey,
+  type FilterClause,
+  type FilterValue,
+  type MetadataFilter,
+} from "./base.filter";
+
+type QdrantFilter = Schemas["Filter"];
+type QdrantCondition = Schemas["Condition"];
+
+/**
+ * Compiles a {@link MetadataFilter} to Qdrant's filter JSON. Qdrant only
+ * matches strings, integers and booleans exactly, so other numbers are
+ * compiled to a closed range. `exists: false` maps to `is_empty`, which also
+ * matches `null` and empty arrays.
+ */
+export function compileQdrantFilter(filter: MetadataFilter): QdrantFilter {
+  const result: QdrantFilter = {};
+  if (filter.must?.length) {
+    result.must = filter.must.map(compileClause);
+  }
+  if (filter.should?.length) {
+    result.should = filter.should.map(compileClause);
+  }
+  if (filter.mustNot?.length) {
+    result.must_not = filter.mustNot.map(compileClause);
+  }
+  return result;
+}
+
+function compileClause(clause: FilterClause): QdrantCondition {
+  if (!isFilterCondition(clause)) {
+    return compileQdrantFilter(clause);
+  }
+
+  const key = splitFilterKey(clause.key).join(".");
+
+  if ("match" in clause) {
+    return matchValue(key, clause.match);
+  }
+
+  if ("in" in clause) {
+    if (clause.in.every(isExactlyMatchable)) {
+      return {
+        key,
+        match: { any: clause.in as Array<string | number> },
+      };
+    }
+    return { should: clause.in.map((value) => matchValue(key, value)) };
+  }
+
+  if ("exists" in clause) {
+    const isEmpty: QdrantCondition = { is_empty: { key } };
+    return clause.exists ? { must_not: [isEmpty] } : isEmpty;
+  }
+
+  return { key, range: { ...clause.range } };
+}
+
+function matchValue(key: string, value: FilterValue): QdrantCondition {
+  if (typeof value === "number" && !Number.isInteger(value)) {
+    return { key, range: { gte: value, lte: value } };
+  }
+  return { key, match: { value } };
+}
+
+function isExactlyMatchable(value: FilterValue): boolean {
+  return (
+    typeof value === "string" ||
+    (typeof value === "number" && Number.isInteger(value))
+  );
+}
@@ -0,0 +1,131 @@
+import {
+  isFilterCondition,
+  splitFilterKey,
+  type FilterClause,
+  type FilterCondition,
+  type FilterValue,
+  type MetadataFilter,
+} from "./base.filter";
+import type { RedisMetadataFieldType } from "../adapter/redis.adapter";
+
+/**
+ * Compiles a {@link MetadataFilter} to a RediSearch query expression usable
+ * as KNN pre-filter. Only keys indexed as TAG or NUMERIC fields can be
+ * filtered; `exists` and ranges over TAG fields cannot be expressed and
+ * throw.
+ */
+export function compileRedisFilter(
+  filter: MetadataFilter,
+  fields: Record<string, RedisMetadataFieldType>
+): string {
+  const parts: string[] = [];
+
+  if (filter.must?.length) {
+    parts.push(...filter.must.map((clause) => compileClause(clause, fields)));
+  }
+
+  if (filter.should?.length) {
+    parts.push(
+      `(${filter.should
+        .map((clause) => compileClause(clause, fields))
+        .join(" | ")})`
+    );
+  }
+
+  if (filter.mustNot?.length) {
+    parts.push(
+      `-(${filter.mustNot
+        .map((clause) => compileClause(clause, fields))
+        .join(" | ")})`
+    );
+  }
+
+  return parts.length > 0 ? `(${parts.join(" ")})` : "*";
+}
+
+export function escapeRedisTagValue(value: string): string {
+  return value.replace(/[,.<>{}\[\]"':;!@#$%^&*()\-+=~|/\\\s]/g, "\\$&");
+}
+
+function compileClause(
+  clause: FilterClause,
+  fields: Record<string, RedisMetadataFieldType>
+): string {
+  if (!isFilterCondition(clause)) {
+    return compileRedisFilter(clause, fields);
+  }
+
+  const key = splitFilterKey(clause.key).join(".");
+  const type = fields[key];
+  if (!type) {
+    throw new Error(
+      `Filter: key "${key}" is not indexed in Redis; add it to metadataFields.`
+    );
+  }
+  const field = `@${key.replace(/[^A-Za-z0-9_]/g, "\\$&")}`;
+
+  if ("exists" in clause) {
+    throw new Error(`Filter: Redis cannot express "exists" (key "${key}").`);
+  }
+
+  if (type === "TAG") {
+    return compileTagCondition(field, key, clause);
+  }
+  return compileNumericCondition(field, key, clause);
+}
+
+function compileTagCondition(
+  field: string,
+  key: string,
+  clause: Exclude<FilterCondition, { exists: boolean }>
+): string {
+  if ("range" in clause) {
+    throw new Error(
+      `Filter: Redis cannot express a range on TAG field "${key}".`
+    );
+  }
+  const values = "match" in clause ? [clause.match] : clause.in;
+  if (values.length === 0) {
+    throw new Error(
+      `Filter: Redis cannot express an empty "in" (key "${key}").`
+    );
+  }
+  return `${field}:{${values
+    .map((value) => escapeRedisTagValue(String(value)))
+    .join(" | ")}}`;
+}
+
+function compileNumericCondition(
+  field: string,
+  key: string,
+  clause: Exclude<FilterCondition, { exists: boolean }>
+): string {
+  if ("range" in clause) {
+    const { gt, gte, lt, lte } = clause.range;
+    const lower =
+      gt !== undefined ? `(${gt}` : gte !== undefined ? `${gte}` : "-inf";
+    const upper =
+      lt !== undefined ? `(${lt}` : lte !== undefined ? `${lte}` : "+inf";
+    return `${field}:[${lower} ${upper}]`;
+  }
+
+  const values = "match" in clause ? [clause.match] : clause.in;
+  if (values.length === 0) {
+    throw new Error(
+      `Filter: Redis cannot express an empty "in" (key "${key}").`
+    );
+  }
+  const ranges = values
+    .map((value) => toNumber(value, key))
+    .map((value) => `${field}:[${value} ${value}]`);
+  return ranges.length === 1 ? ranges[0] : `(${ranges.join(" | ")})`;
+}
+
+function toNumber(value: FilterValue, key: string): number {
+  if (typeof value !== "number") {
+    throw new Error(
+      `Filter: NUMERIC field "${key}" can only match numbers in Redis.`
+    );
+  }
+  return value;
+}
@@ -0,0 +1,102 @@
+export type FusionMethod = "rrf" | "weighted";
+
+export interface FusionOptions<TSignal extends string> {
+  /** Defaults to reciprocal rank fusion. */
+  method?: FusionMethod;
+  /** Per-signal weights; signals without a weight count as 1. */
+  weights?: Partial<Record<TSignal, number>>;
+  /** RRF rank constant; larger values flatten the contribution of top ranks. */
+  rrfK?: number;
+  limit?: number;
+}
+
+export interface RankedCandidate<TItem> {
+  id: number | string;
+  score: number;
+  item: TItem;
+}
+
+export interface FusedCandidate<TItem, TSignal extends string> {
+  id: number | string;
+  score: number;
+  item: TItem;
+  /** Raw score of every signal that returned the item. */
+  scores: Partial<Record<TSignal, number>>;
+  /** 1-based rank of the item in every signal that returned it. */
+  ranks: Partial<Record<TSignal, number>>;
+}
+
+const DEFAULT_RRF_K = 60;
+
+/**
+ * Merges several ranked lists (each ordered best first) into one.
+ *
+ * - `rrf` sums `weight / (rrfK + rank)`, ignoring raw scores, so signals with
+ *   incomparable scales (cosine vs BM25) can be combined safely.
+ * - `weighted` min-max normalises each signal's scores to [0, 1] and sums
+ *   them by weight; an item missing from a signal contributes 0 for it.
+ */
+export function fuseRankings<TItem, TSignal extends string>(
+  signals: Record<TSignal, RankedCandidate<TItem>[]>,
+  options: FusionOptions<TSignal> = {}
+): FusedCandidate<TItem, TSignal>[] {
+  const method = options.method ?? "rrf";
+  const rrfK = options.rrfK ?? DEFAULT_RRF_K;
+  if (method === "rrf" && (!Number.isFinite(rrfK) || rrfK < 0)) {
+    throw new Error("Fusion: rrfK must be a non-negative number.");
+  }
+
+  const fused = new Map<string, FusedCandidate<TItem, TSignal>>();
+
+  for (const signal of Object.keys(signals) as TSignal[]) {
+    const candidates = signals[signal];
+    const weight = options.weights?.[signal] ?? 1;
+    if (!Number.isFinite(weight) || weight < 0) {
+      throw new Error(`Fusion: invalid weight for signal "${signal}".`);
+    }
+
+    const normalise = method === "weighted" ? minMax(candidates) : undefined;
+
+    candidates.forEach((candidate, index) => {
+      const key = `${typeof candidate.id}:${candidate.id}`;
+      let entry = fused.get(key);
+      if (!entry) {
+        entry = {
+          id: candidate.id,
+          score: 0,
+          item: candidate.item,
+          scores: {},
+          ranks: {},
+        };
+        fused.set(key, entry);
+      }
+      if (entry.ranks[signal] !== undefined) {
+        return;
+      }
+
+      entry.scores[signal] = candidate.score;
+      entry.ranks[signal] = index + 1;
+      entry.score += normalise
+        ? weight * normalise(candidate.score)
+        : weight / (rrfK + index + 1);
+    });
+  }
+
+  const results = [...fused.values()].sort((a, b) => b.score - a.score);
+  return options.limit !== undefined
+    ? results.slice(0, options.limit)
+    : results;
+}
+
+/**
+ * Maps the best (first) score to 1 and the worst (last) to 0, which also
+ * works for distance-like signals where lower scores rank higher.
+ */
+function minMax(
+  candidates: RankedCandidate<unknown>[]
+): (score: number) => number {
+  const best = candidates[0]?.score ?? 0;
+  const worst = candidates[candidates.length - 1]?.score ?? 0;
+  const span = best - worst;
+  return (score) => (span !== 0 ? (score - worst) / span : 1);
+}
@@ -0,0 +1,7 @@
+export type {
+  FusedCandidate,
+  FusionMethod,
+  FusionOptions,
+  RankedCandidate,
+} from "./base.fusion";
+export { fuseRankings } from "./base.fusion";
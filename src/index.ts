@@ -1,5 +1,13 @@
 // Main entry point
 export {
   VectorSmithAdapter,
+  VectorStoreType,
   type VectorSmithAdapterConfig,
 } from "@/adapter/index.adapter";
+export * from "@/store";
+export * from "@/filter";
+export * from "@/fusion";
+export * from "@/migration";
+export * from "@/archive";
+export * from "@/chunker";
+export * from "@/ingest";
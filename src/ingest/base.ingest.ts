@@ -0,0 +1,205 @@
+import { createHash } from "crypto";
+import { RecursiveChunker, type Chunker } from "../chunker";
+import type { EmbeddingProvider } from "../embedding";
+import type { VectorStore, VectorStoreId, VectorStoreRecord } from "../store";
+
+export interface IngestDocument {
+  id: VectorStoreId;
+  text: string;
+  /** Source file, passed to the chunker (e.g. to pick a code language). */
+  path?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/** One chunk of a document, ready to be embedded. */
+export interface IngestChunk {
+  id: VectorStoreId;
+  text: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface IngestionPipelineOptions {
+  /** Defaults to a {@link RecursiveChunker} with its default sizes. */
+  chunker?: Chunker;
+  /** Chunks per embedding request and store upsert. Defaults to 64. */
+  batchSize?: number;
+  /**
+   * Id of the `index`-th chunk of a document. Defaults to a UUID derived
+   * from the document id and the index, which every backend accepts
+   * (pgvector tables need `idType: "uuid"` or `"text"`), so re-ingesting a
+   * document overwrites its chunks; chunks past its new `chunkCount` are
+   * deleted. A custom `chunkId` must be deterministic for this to hold.
+   */
+  chunkId?: (documentId: VectorStoreId, index: number) => VectorStoreId;
+  /** Metadata key holding the chunk text; `false` leaves it out. */
+  textKey?: string | false;
+  onProgress?: (progress: IngestProgress) => void;
+}
+
+export interface IngestProgress {
+  documents: number;
+  chunks: number;
+}
+
+export interface IngestResult extends IngestProgress {
+  ids: VectorStoreId[];
+}
+
+const DEFAULT_BATCH_SIZE = 64;
+
+/**
+ * Text to vectors in one call: chunks documents, embeds the chunks in
+ * batches (with the `document` role) and upserts them with their
+ * provenance. Every chunk's metadata holds the document metadata plus
+ * `parentId`, `chunkIndex`, `chunkCount`, `startOffset`/`endOffset`
+ * (characters in the document text), the chunk text and whatever the
+ * chunker adds (e.g. Markdown `headings`).
+ */
+export class IngestionPipeline {
+  private readonly embedder: Pick<EmbeddingProvider, "embed">;
+  private readonly store: VectorStore;
+  private readonly chunker: Chunker;
+  private readonly batchSize: number;
+  private readonly chunkId: (
+    documentId: VectorStoreId,
+    index: number
+  ) => VectorStoreId;
+  private readonly textKey: string | false;
+  private readonly onProgress?: (progress: IngestProgress) => void;
+
+  /**
+   * @param embedder An {@link EmbeddingProvider} or a `VectorSmithEmbedding`
+   *   (its default provider is used).
+   * @param store Destination, e.g. `adapter.getVectorStore(type)`.
+   */
+  public constructor(
+    embedder: Pick<EmbeddingProvider, "embed">,
+    store: VectorStore,
+    options: IngestionPipelineOptions = {}
+  ) {
+    this.embedder = embedder;
+    this.store = store;
+    this.chunker = options.chunker ?? new RecursiveChunker();
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.chunkId = options.chunkId ?? deriveChunkId;
+    this.textKey = options.textKey ?? "text";
+    this.onProgress = options.onProgress;
+
+    if (!Number.isInteger(this.batchSize) || this.batchSize <= 0) {
+      throw new Error(
+        "IngestionPipeline: batchSize must be a positive integer"
+      );
+    }
+  }
+
+  /** Chunks of one document with their ids and metadata, without embedding. */
+  public chunk(document: IngestDocument): IngestChunk[] {
+    const chunks = this.chunker.chunk(document.text, { path: document.path });
+    return chunks.map((chunk, index) => ({
+      id: this.chunkId(document.id, index),
+      text: chunk.text,
+      metadata: {
+        ...document.metadata,
+        ...chunk.metadata,
+        parentId: document.id,
+        chunkIndex: index,
+        chunkCount: chunks.length,
+        startOffset: chunk.start,
+        endOffset: chunk.end,
+        ...(this.textKey !== false ? { [this.textKey]: chunk.text } : {}),
+      },
+    }));
+  }
+
+  /**
+   * Ingests `documents` into `collection`, which must exist. Documents may
+   * be streamed: memory holds the chunks of the current document, less
+   * than one batch of earlier chunks and every written id (`result.ids`).
+   */
+  public async ingest(
+    collection: string,
+    documents: Iterable<IngestDocument> | AsyncIterable<IngestDocument>
+  ): Promise<IngestResult> {
+    const result: IngestResult = { documents: 0, chunks: 0, ids: [] };
+    const pending: IngestChunk[] = [];
+
+    const flush = async () => {
+      const batch = pending.splice(0, this.batchSize);
+      const vectors = await this.embedder.embed(
+        batch.map((chunk) => chunk.text),
+        { role: "document" }
+      );
+      if (vectors.length !== batch.length) {
+        throw new Error(
+          `IngestionPipeline: embedder returned ${vectors.length} vectors for ${batch.length} chunks`
+        );
+      }
+      const records: VectorStoreRecord[] = batch.map((chunk, index) => ({
+        id: chunk.id,
+        vector: vectors[index],
+        metadata: chunk.metadata,
+      }));
+      await this.store.upsert(collection, records);
+      result.chunks += records.length;
+      result.ids.push(...records.map((record) => record.id));
+      this.onProgress?.({
+        documents: result.documents,
+        chunks: result.chunks,
+      });
+    };
+
+    for await (const document of documents) {
+      const chunks = this.chunk(document);
+      await this.deleteStaleChunks(collection, document.id, chunks.length);
+      pending.push(...chunks);
+      result.documents++;
+      while (pending.length >= this.batchSize) {
+        await flush();
+      }
+    }
+    while (pending.length > 0) {
+      await flush();
+    }
+
+    return result;
+  }
+
+  /**
+   * Deletes the chunks an earlier ingestion of the document stored past
+   * `chunkCount`, as counted by the `chunkCount` of its first chunk.
+   */
+  private async deleteStaleChunks(
+    collection: string,
+    documentId: VectorStoreId,
+    chunkCount: number
+  ): Promise<void> {
+    const [first] = await this.store.get(collection, [
+      this.chunkId(documentId, 0),
+    ]);
+    const previous = first?.metadata?.chunkCount;
+    if (typeof previous !== "number" || previous <= chunkCount) {
+      return;
+    }
+    await this.store.delete(
+      collection,
+      Array.from({ length: previous - chunkCount }, (_, offset) =>
+        this.chunkId(documentId, chunkCount + offset)
+      )
+    );
+  }
+}
+
+/** Name-based UUID (v5 layout over SHA-1) of `documentId` and `index`. */
+function deriveChunkId(documentId: VectorStoreId, index: number): string {
+  const bytes = createHash("sha1")
+    .update(`${typeof documentId}:${documentId}#${index}`)
+    .digest()
+    .subarray(0, 16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x50;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = bytes.toString("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(
+    12,
+    16
+  )}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
@@ -0,0 +1,8 @@
+export type {
+  IngestChunk,
+  IngestDocument,
+  IngestionPipelineOptions,
+  IngestProgress,
+  IngestResult,
+} from "./base.ingest";
+export { IngestionPipeline } from "./base.ingest";
@@ -0,0 +1,437 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import type {
+  VectorStore,
+  VectorStoreDistance,
+  VectorStoreId,
+  VectorStoreRecord,
+} from "../store";
+
+export interface VectorMigrationOptions {
+  sourceCollection: string;
+  /** Defaults to `sourceCollection`. */
+  targetCollection?: string;
+  /** Records read and written per batch. Defaults to 256. */
+  batchSize?: number;
+  /** Target id of a source record, e.g. to turn text ids into UUIDs. */
+  mapId?: (id: VectorStoreId, record: VectorStoreRecord) => VectorStoreId;
+  /** Target metadata / payload of a source record. */
+  mapMetadata?: (
+    metadata: Record<string, unknown>,
+    record: VectorStoreRecord
+  ) => Record<string, unknown>;
+  /** Also copies the source id into this metadata key. */
+  sourceIdKey?: string;
+  /**
+   * Creates the target collection with the source dimension before the
+   * first write. Skipped when resuming a run that already created it.
+   */
+  createTarget?: boolean | { distance?: VectorStoreDistance };
+  /**
+   * JSON file recording the scan cursor after every batch. An unfinished
+   * checkpoint for the same collections is resumed; writes are upserts, so
+   * replaying the interrupted batch is harmless.
+   */
+  checkpointPath?: string;
+  /**
+   * Records written by this run that are re-read from the target and
+   * compared. Defaults to 100.
+   */
+  verifySampleSize?: number;
+  /**
+   * `direction` compares unit-normalised vectors, since Qdrant normalises
+   * vectors of Cosine collections on write; `raw` also catches scaling.
+   */
+  compareVectors?: "direction" | "raw";
+  onProgress?: (progress: VectorMigrationProgress) => void;
+}
+
+export interface VectorMigrationProgress {
+  migrated: number;
+  batches: number;
+  /** Source count read when the run started. */
+  total: number;
+  cursor?: string;
+}
+
+export interface VectorMigrationPlan {
+  sourceCollection: string;
+  targetCollection: string;
+  count: number;
+  /** Undefined for an empty source. */
+  dimension?: number;
+  batches: number;
+  /** Float32 vectors plus JSON metadata, extrapolated from the first page. */
+  estimatedBytes: number;
+  /** Present when a checkpoint would be resumed. */
+  resume?: { migrated: number; cursor?: string; completed: boolean };
+}
+
+export interface VectorMigrationVerification {
+  sourceCount: number;
+  targetCount: number;
+  countsMatch: boolean;
+  sampled: number;
+  missing: VectorStoreId[];
+  mismatched: VectorStoreId[];
+  ok: boolean;
+}
+
+export interface VectorMigrationReport {
+  migrated: number;
+  batches: number;
+  resumed: boolean;
+  durationMs: number;
+  verification: VectorMigrationVerification;
+}
+
+interface VectorMigrationCheckpoint {
+  version: 1;
+  sourceCollection: string;
+  targetCollection: string;
+  cursor?: string;
+  migrated: number;
+  batches: number;
+  /** Set once `createTarget` has created the target collection. */
+  targetCreated: boolean;
+  completed: boolean;
+}
+
+const DEFAULT_BATCH_SIZE = 256;
+const DEFAULT_SAMPLE_SIZE = 100;
+const VECTOR_TOLERANCE = 1e-4;
+
+/**
+ * Copies a collection between two {@link VectorStore}s (pgvector, Qdrant,
+ * Redis, in-memory) in batches, with resumable checkpoints and a final
+ * count + sample verification.
+ */
+export class VectorStoreMigration {
+  private readonly source: VectorStore;
+  private readonly target: VectorStore;
+
+  public constructor(source: VectorStore, target: VectorStore) {
+    this.source = source;
+    this.target = target;
+  }
+
+  /** Reports what `run` would do without writing anything. */
+  public async dryRun(
+    options: VectorMigrationOptions
+  ): Promise<VectorMigrationPlan> {
+    const targetCollection =
+      options.targetCollection ?? options.sourceCollection;
+    const batchSize = toBatchSize(options.batchSize);
+    const count = await this.source.count(options.sourceCollection);
+    const page = await this.source.scan(options.sourceCollection, {
+      limit: batchSize,
+    });
+    const mapped = page.records.map((record) => mapRecord(record, options));
+
+    const sampleBytes = mapped.reduce(
+      (total, record) =>
+        total +
+        record.vector.length * 4 +
+        Buffer.byteLength(JSON.stringify(record.metadata ?? {})),
+      0
+    );
+    const checkpoint = await readCheckpoint(options, targetCollection);
+
+    return {
+      sourceCollection: options.sourceCollection,
+      targetCollection,
+      count,
+      dimension: page.records[0]?.vector.length,
+      batches: Math.ceil(count / batchSize),
+      estimatedBytes:
+        mapped.length > 0
+          ? Math.round((sampleBytes / mapped.length) * count)
+          : 0,
+      resume: checkpoint
+        ? {
+            migrated: checkpoint.migrated,
+            cursor: checkpoint.cursor,
+            completed: checkpoint.completed,
+          }
+        : undefined,
+    };
+  }
+
+  public async run(
+    options: VectorMigrationOptions
+  ): Promise<VectorMigrationReport> {
+    const startedAt = Date.now();
+    const targetCollection =
+      options.targetCollection ?? options.sourceCollection;
+    const batchSize = toBatchSize(options.batchSize);
+    const sampleSize = options.verifySampleSize ?? DEFAULT_SAMPLE_SIZE;
+    const total = await this.source.count(options.sourceCollection);
+
+    const resumed = await readCheckpoint(options, targetCollection);
+    const checkpoint: VectorMigrationCheckpoint = resumed ?? {
+      version: 1,
+      sourceCollection: options.sourceCollection,
+      targetCollection,
+      migrated: 0,
+      batches: 0,
+      targetCreated: false,
+      completed: false,
+    };
+
+    const sample = new ReservoirSample<VectorStoreRecord>(sampleSize);
+    // Redis SCAN may return a key twice; copy and count each record once.
+    const seen = new Set<VectorStoreId>();
+    let dimension: number | undefined;
+
+    while (!checkpoint.completed) {
+      const page = await this.source.scan(options.sourceCollection, {
+        limit: batchSize,
+        cursor: checkpoint.cursor,
+      });
+      const records = page.records
+        .filter((record) => {
+          if (seen.has(record.id)) {
+            return false;
+          }
+          seen.add(record.id);
+          return true;
+        })
+        .map((record) => mapRecord(record, options));
+
+      for (const record of records) {
+        dimension ??= record.vector.length;
+        if (record.vector.length === 0 || record.vector.length !== dimension) {
+          throw new Error(
+            `VectorStoreMigration: record ${record.id} has a vector of ${record.vector.length} dimensions, expected ${dimension}`
+          );
+        }
+      }
+
+      if (records.length > 0) {
+        // Not tied to the first batch: SCAN pages may be empty.
+        if (options.createTarget && !checkpoint.targetCreated) {
+          await this.target.createCollection(
+            targetCollection,
+            dimension!,
+            typeof options.createTarget === "object"
+              ? options.createTarget.distance
+              : undefined
+          );
+          checkpoint.targetCreated = true;
+        }
+        await this.target.upsert(targetCollection, records);
+        records.forEach((record) => sample.add(record));
+      }
+
+      checkpoint.migrated += records.length;
+      checkpoint.batches += 1;
+      checkpoint.cursor = page.nextCursor;
+      checkpoint.completed = page.nextCursor === undefined;
+      await writeCheckpoint(options, checkpoint);
+      options.onProgress?.({
+        migrated: checkpoint.migrated,
+        batches: checkpoint.batches,
+        total,
+        cursor: checkpoint.cursor,
+      });
+    }
+
+    return {
+      migrated: checkpoint.migrated,
+      batches: checkpoint.batches,
+      resumed: resumed !== null,
+      durationMs: Date.now() - startedAt,
+      verification: await this.verify(options, targetCollection, sample.items),
+    };
+  }
+
+  private async verify(
+    options: VectorMigrationOptions,
+    targetCollection: string,
+    sample: VectorStoreRecord[]
+  ): Promise<VectorMigrationVerification> {
+    const [sourceCount, targetCount] = await Promise.all([
+      this.source.count(options.sourceCollection),
+      this.target.count(targetCollection),
+    ]);
+
+    const stored = new Map<VectorStoreId, VectorStoreRecord>();
+    for (const record of sample.length > 0
+      ? await this.target.get(
+          targetCollection,
+          sample.map((record) => record.id)
+        )
+      : []) {
+      stored.set(record.id, record);
+    }
+
+    const missing: VectorStoreId[] = [];
+    const mismatched: VectorStoreId[] = [];
+    const compare = options.compareVectors ?? "direction";
+    for (const expected of sample) {
+      const actual = stored.get(expected.id);
+      if (!actual) {
+        missing.push(expected.id);
+      } else if (
+        metadataChecksum(expected) !== metadataChecksum(actual) ||
+        !vectorsMatch(expected.vector, actual.vector, compare)
+      ) {
+        mismatched.push(expected.id);
+      }
+    }
+
+    const countsMatch = sourceCount === targetCount;
+    return {
+      sourceCount,
+      targetCount,
+      countsMatch,
+      sampled: sample.length,
+      missing,
+      mismatched,
+      ok: countsMatch && missing.length === 0 && mismatched.length === 0,
+    };
+  }
+}
+
+function mapRecord(
+  record: VectorStoreRecord,
+  options: VectorMigrationOptions
+): VectorStoreRecord {
+  let metadata = record.metadata ?? {};
+  if (options.mapMetadata) {
+    metadata = options.mapMetadata(metadata, record);
+  }
+  if (options.sourceIdKey) {
+    metadata = { ...metadata, [options.sourceIdKey]: record.id };
+  }
+  return {
+    id: options.mapId ? options.mapId(record.id, record) : record.id,
+    vector: record.vector,
+    metadata,
+  };
+}
+
+/** SHA-256 of the metadata as canonical (key-sorted) JSON. */
+function metadataChecksum(record: VectorStoreRecord): string {
+  return createHash("sha256")
+    .update(canonicalJson(record.metadata ?? {}))
+    .digest("hex");
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson(
+            (value as Record<string, unknown>)[key]
+          )}`
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function vectorsMatch(
+  expected: number[],
+  actual: number[],
+  compare: "direction" | "raw"
+): boolean {
+  if (expected.length !== actual.length) {
+    return false;
+  }
+  const scale = (vector: number[]) => {
+    if (compare === "raw") {
+      return 1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+    return norm > 0 ? 1 / norm : 1;
+  };
+  const a = scale(expected);
+  const b = scale(actual);
+  // Stores keep float32, so compare with a tolerance relative to magnitude.
+  return expected.every(
+    (value, index) =>
+      Math.abs(value * a - actual[index] * b) <=
+      VECTOR_TOLERANCE * Math.max(1, Math.abs(value * a))
+  );
+}
+
+function toBatchSize(batchSize: number = DEFAULT_BATCH_SIZE): number {
+  if (!Number.isInteger(batchSize) || batchSize <= 0) {
+    throw new Error(
+      "VectorStoreMigration: batchSize must be a positive integer"
+    );
+  }
+  return batchSize;
+}
+
+async function readCheckpoint(
+  options: VectorMigrationOptions,
+  targetCollection: string
+): Promise<VectorMigrationCheckpoint | null> {
+  if (!options.checkpointPath) {
+    return null;
+  }
+
+  let content: string;
+  try {
+    content = await fs.readFile(options.checkpointPath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  const checkpoint = JSON.parse(content) as VectorMigrationCheckpoint;
+  if (
+    checkpoint.version !== 1 ||
+    checkpoint.sourceCollection !== options.sourceCollection ||
+    checkpoint.targetCollection !== targetCollection
+  ) {
+    throw new Error(
+      `VectorStoreMigration: checkpoint ${options.checkpointPath} belongs to another migration`
+    );
+  }
+  return checkpoint;
+}
+
+async function writeCheckpoint(
+  options: VectorMigrationOptions,
+  checkpoint: VectorMigrationCheckpoint
+): Promise<void> {
+  if (!options.checkpointPath) {
+    return;
+  }
+  const temporary = `${options.checkpointPath}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify(checkpoint));
+  await fs.rename(temporary, options.checkpointPath);
+}
+
+/** Uniform random sample of a stream of unknown length (Algorithm R). */
+class ReservoirSample<T> {
+  public readonly items: T[] = [];
+  private readonly size: number;
+  private seen = 0;
+
+  public constructor(size: number) {
+    this.size = size;
+  }
+
+  public add(item: T): void {
+    this.seen++;
+    if (this.items.length < this.size) {
+      this.items.push(item);
+      return;
+    }
+    const index = Math.floor(Math.random() * this.seen);
+    if (index < this.size) {
+      this.items[index] = item;
+    }
+  }
+}
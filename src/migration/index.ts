@@ -0,0 +1,8 @@
+export type {
+  VectorMigrationOptions,
+  VectorMigrationPlan,
+  VectorMigrationProgress,
+  VectorMigrationReport,
+  VectorMigrationVerification,
+} from "./base.migration";
+export { VectorStoreMigration } from "./base.migration";
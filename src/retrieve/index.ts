@@ -1,11 +1,21 @@
 export type { RetrieveRequest, DatabaseRetriever } from "./base.retrieve";
-export type { RedisRetrieveQuery } from "./redis.retrieve";
+export type {
+  RedisRetrieveQuery,
+  RedisKeyRetrieveQuery,
+  RedisVectorRetrieveQuery,
+  RedisRetrieveResult,
+} from "./redis.retrieve";
 export type {
   PgVectorRetrieveQuery,
   PgVectorRetrieveResult,
   PgVectorDistanceFunction,
 } from "./pg_vector.retrieve";
-export type { QdrantRetrieveQuery } from "./qdrant.retrieve";
+export type {
+  QdrantRetrieveQuery,
+  QdrantHybridRetrieveQuery,
+} from "./qdrant.retrieve";
+export type { VectorStoreRetrieveQuery } from "./store.retrieve";
 export { RedisRetriever } from "./redis.retrieve";
 export { PgVectorRetriever } from "./pg_vector.retrieve";
-export { QdrantRetriever } from "./qdrant.retrieve";
+export { QdrantRetriever, QdrantHybridRetriever } from "./qdrant.retrieve";
+export { VectorStoreRetriever } from "./store.retrieve";
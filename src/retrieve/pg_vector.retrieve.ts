@@ -1,13 +1,22 @@
 import type { DatabaseRetriever, RetrieveRequest } from "./base.retrieve";
-import type { PgVectorAdapter } from "../adapter/pg_vector.adpater";
+import type {
+  PgVectorAdapter,
+  PgVectorDistanceFunction,
+} from "../adapter/pg_vector.adpater";
+import type { MetadataFilter } from "../filter";
 
-export type PgVectorDistanceFunction = "cosine" | "l2" | "inner_product";
+export type { PgVectorDistanceFunction };
 
 export interface PgVectorRetrieveQuery {
   readonly tableName: string;
   readonly queryVector: number[];
   readonly limit?: number;
   readonly distanceFunction?: PgVectorDistanceFunction;
+  readonly filter?: MetadataFilter;
+  /** HNSW `hnsw.ef_search` for this query. */
+  readonly efSearch?: number;
+  /** IVFFlat `ivfflat.probes` for this query. */
+  readonly probes?: number;
 }
 
 export type PgVectorRetrieveResult = Awaited<
@@ -26,12 +35,21 @@ export class PgVectorRetriever
   public async retrieve(
     request: RetrieveRequest<PgVectorRetrieveQuery>
   ): Promise<PgVectorRetrieveResult> {
-    const { tableName, queryVector, limit, distanceFunction } = request.query;
+    const {
+      tableName,
+      queryVector,
+      limit,
+      distanceFunction,
+      filter,
+      efSearch,
+      probes,
+    } = request.query;
     return await this.adapter.searchSimilar(
       tableName,
       queryVector,
       limit,
-      distanceFunction
+      distanceFunction,
+      { filter, efSearch, probes }
     );
   }
 }
@@ -1,16 +1,41 @@
 import type { DatabaseRetriever, RetrieveRequest } from "./base.retrieve";
 import type {
   QdrantAdapter,
+  QdrantHybridSearchOptions,
+  QdrantHybridSearchResult,
   QdrantSearchOptions,
   QdrantSearchResult,
+  QdrantVector,
 } from "../adapter/qdrant.adapter";
+import type {
+  EmbeddingProvider,
+  SparseEmbeddingProvider,
+  SparseVector,
+} from "../embedding";
 
 export interface QdrantRetrieveQuery {
   readonly collectionName: string;
-  readonly vector: number[];
+  readonly vector: QdrantVector;
+  /** Named vector to search; overrides `options.vectorName`. */
+  readonly vectorName?: string;
   readonly options?: QdrantSearchOptions;
 }
 
+/**
+ * Dense + sparse query. Each side is either given (`vector`,
+ * `sparseVector`) or encoded from `text` with the retriever's encoders; the
+ * dense side is embedded with the `query` role.
+ */
+export interface QdrantHybridRetrieveQuery {
+  readonly collectionName: string;
+  readonly vector?: QdrantVector;
+  readonly vectorName?: string;
+  readonly sparseVectorName: string;
+  readonly sparseVector?: SparseVector;
+  readonly text?: string;
+  readonly options?: QdrantHybridSearchOptions;
+}
+
 export class QdrantRetriever
   implements DatabaseRetriever<QdrantRetrieveQuery, QdrantSearchResult[]>
 {
@@ -23,7 +48,73 @@ export class QdrantRetriever
   public async retrieve(
     request: RetrieveRequest<QdrantRetrieveQuery>
   ): Promise<QdrantSearchResult[]> {
-    const { collectionName, vector, options } = request.query;
-    return await this.adapter.search(collectionName, vector, options);
+    const { collectionName, vector, vectorName, options } = request.query;
+    return await this.adapter.search(collectionName, vector, {
+      ...options,
+      vectorName: vectorName ?? options?.vectorName,
+    });
+  }
+}
+
+export class QdrantHybridRetriever
+  implements
+    DatabaseRetriever<QdrantHybridRetrieveQuery, QdrantHybridSearchResult[]>
+{
+  private readonly adapter: QdrantAdapter;
+  private readonly sparseEncoder?: SparseEmbeddingProvider;
+  private readonly denseEmbedder?: Pick<EmbeddingProvider, "embed">;
+
+  public constructor(
+    adapter: QdrantAdapter,
+    sparseEncoder?: SparseEmbeddingProvider,
+    denseEmbedder?: Pick<EmbeddingProvider, "embed">
+  ) {
+    this.adapter = adapter;
+    this.sparseEncoder = sparseEncoder;
+    this.denseEmbedder = denseEmbedder;
+  }
+
+  public async retrieve(
+    request: RetrieveRequest<QdrantHybridRetrieveQuery>
+  ): Promise<QdrantHybridSearchResult[]> {
+    const query = request.query;
+    const vector = query.vector ?? (await this.embed(query.text));
+    const sparseVector = query.sparseVector ?? (await this.encode(query.text));
+
+    return await this.adapter.hybridSearch(
+      query.collectionName,
+      {
+        dense: { vector, vectorName: query.vectorName },
+        sparse: { vector: sparseVector, vectorName: query.sparseVectorName },
+      },
+      query.options
+    );
+  }
+
+  private async embed(text: string | undefined): Promise<number[]> {
+    if (text === undefined) {
+      throw new Error("QdrantHybridRetriever: provide either vector or text.");
+    }
+    if (!this.denseEmbedder) {
+      throw new Error(
+        "QdrantHybridRetriever: a dense embedder is required to query by text."
+      );
+    }
+    const [vector] = await this.denseEmbedder.embed([text], { role: "query" });
+    return vector;
+  }
+
+  private async encode(text: string | undefined): Promise<SparseVector> {
+    if (text === undefined) {
+      throw new Error(
+        "QdrantHybridRetriever: provide either sparseVector or text."
+      );
+    }
+    if (!this.sparseEncoder) {
+      throw new Error(
+        "QdrantHybridRetriever: a sparse encoder is required to query by text."
+      );
+    }
+    return await this.sparseEncoder.embedQuery(text);
   }
 }
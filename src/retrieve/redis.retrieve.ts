@@ -1,12 +1,28 @@
 import type { DatabaseRetriever, RetrieveRequest } from "./base.retrieve";
-import type { RedisAdapter } from "../adapter/redis.adapter";
+import type {
+  RedisAdapter,
+  RedisVectorSearchOptions,
+  RedisVectorSearchResult,
+} from "../adapter/redis.adapter";
 
-export interface RedisRetrieveQuery {
+export interface RedisKeyRetrieveQuery {
   readonly key: string;
 }
 
+export interface RedisVectorRetrieveQuery {
+  readonly indexName: string;
+  readonly vector: number[];
+  readonly options?: RedisVectorSearchOptions;
+}
+
+export type RedisRetrieveQuery =
+  | RedisKeyRetrieveQuery
+  | RedisVectorRetrieveQuery;
+
+export type RedisRetrieveResult = string | null | RedisVectorSearchResult[];
+
 export class RedisRetriever
-  implements DatabaseRetriever<RedisRetrieveQuery, string | null>
+  implements DatabaseRetriever<RedisRetrieveQuery, RedisRetrieveResult>
 {
   private readonly adapter: RedisAdapter;
 
@@ -14,9 +30,26 @@ export class RedisRetriever
     this.adapter = adapter;
   }
 
+  public async retrieve(
+    request: RetrieveRequest<RedisKeyRetrieveQuery>
+  ): Promise<string | null>;
+  public async retrieve(
+    request: RetrieveRequest<RedisVectorRetrieveQuery>
+  ): Promise<RedisVectorSearchResult[]>;
+  public async retrieve(
+    request: RetrieveRequest<RedisRetrieveQuery>
+  ): Promise<RedisRetrieveResult>;
   public async retrieve(
     request: RetrieveRequest<RedisRetrieveQuery>
-  ): Promise<string | null> {
-    return await this.adapter.get(request.query.key);
+  ): Promise<RedisRetrieveResult> {
+    const { query } = request;
+    if ("key" in query) {
+      return await this.adapter.get(query.key);
+    }
+    return await this.adapter.searchVectors(
+      query.indexName,
+      query.vector,
+      query.options
+    );
   }
 }
@@ -0,0 +1,62 @@
+import type { DatabaseRetriever, RetrieveRequest } from "./base.retrieve";
+import type { EmbeddingProvider } from "../embedding";
+import type {
+  VectorStore,
+  VectorStoreSearchOptions,
+  VectorStoreSearchResult,
+} from "../store";
+
+/** Searches by `vector`, or by `text` embedded as a query. */
+export interface VectorStoreRetrieveQuery {
+  readonly collection: string;
+  readonly text?: string;
+  readonly vector?: number[];
+  readonly options?: VectorStoreSearchOptions;
+}
+
+/**
+ * Text search over any {@link VectorStore}. Query texts are embedded with
+ * the `query` role, matching documents ingested with the `document` role.
+ */
+export class VectorStoreRetriever
+  implements
+    DatabaseRetriever<VectorStoreRetrieveQuery, VectorStoreSearchResult[]>
+{
+  private readonly store: VectorStore;
+  private readonly embedder?: Pick<EmbeddingProvider, "embed">;
+
+  /**
+   * @param embedder An {@link EmbeddingProvider} or a `VectorSmithEmbedding`;
+   *   required to query by text.
+   */
+  public constructor(
+    store: VectorStore,
+    embedder?: Pick<EmbeddingProvider, "embed">
+  ) {
+    this.store = store;
+    this.embedder = embedder;
+  }
+
+  public async retrieve(
+    request: RetrieveRequest<VectorStoreRetrieveQuery>
+  ): Promise<VectorStoreSearchResult[]> {
+    const { collection, options } = request.query;
+    const vector = request.query.vector ?? (await this.embed(request.query));
+    return await this.store.search(collection, vector, options);
+  }
+
+  private async embed(query: VectorStoreRetrieveQuery): Promise<number[]> {
+    if (query.text === undefined) {
+      throw new Error("VectorStoreRetriever: provide either vector or text.");
+    }
+    if (!this.embedder) {
+      throw new Error(
+        "VectorStoreRetriever: an embedder is required to query by text."
+      );
+    }
+    const [vector] = await this.embedder.embed([query.text], {
+      role: "query",
+    });
+    return vector;
+  }
+}
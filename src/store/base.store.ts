@@ -0,0 +1,71 @@
+import type { MetadataFilter } from "../filter";
+
+export type VectorStoreId = number | string;
+
+export type VectorStoreDistance = "cosine" | "l2" | "inner_product";
+
+export interface VectorStoreRecord {
+  readonly id: VectorStoreId;
+  readonly vector: number[];
+  readonly metadata?: Record<string, unknown>;
+}
+
+export interface VectorStoreScanOptions {
+  /** Records per page; only the last page holds fewer. */
+  readonly limit?: number;
+  /** `nextCursor` of the previous page; omit to start from the beginning. */
+  readonly cursor?: string;
+}
+
+/**
+ * One page of a full collection scan. Cursors are opaque strings so they can
+ * be persisted, e.g. to resume a migration.
+ */
+export interface VectorStoreScanPage {
+  records: VectorStoreRecord[];
+  /** Undefined once the collection has been fully scanned. */
+  nextCursor?: string;
+}
+
+export interface VectorStoreSearchOptions {
+  readonly limit?: number;
+  readonly filter?: MetadataFilter;
+  readonly withVectors?: boolean;
+}
+
+/**
+ * Search hit returned by every store. `score` follows the metric of the
+ * collection: cosine similarity for `cosine`, dot product for
+ * `inner_product` (higher is closer) and Euclidean distance for `l2`
+ * (lower is closer). Results are always ordered closest first.
+ */
+export interface VectorStoreSearchResult {
+  id: VectorStoreId;
+  score: number;
+  vector?: number[];
+  metadata: Record<string, unknown>;
+}
+
+export interface VectorStore {
+  createCollection(
+    name: string,
+    dimension: number,
+    distance?: VectorStoreDistance
+  ): Promise<void>;
+  upsert(name: string, records: VectorStoreRecord[]): Promise<void>;
+  search(
+    name: string,
+    vector: number[],
+    options?: VectorStoreSearchOptions
+  ): Promise<VectorStoreSearchResult[]>;
+  /** Records for the ids that exist, vectors included. */
+  get(name: string, ids: VectorStoreId[]): Promise<VectorStoreRecord[]>;
+  /** Pages through every record of the collection, vectors included. */
+  scan(
+    name: string,
+    options?: VectorStoreScanOptions
+  ): Promise<VectorStoreScanPage>;
+  delete(name: string, ids: VectorStoreId[]): Promise<void>;
+  count(name: string): Promise<number>;
+  drop(name: string): Promise<void>;
+}
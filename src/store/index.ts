@@ -0,0 +1,17 @@
+export type {
+  VectorStore,
+  VectorStoreDistance,
+  VectorStoreId,
+  VectorStoreRecord,
+  VectorStoreScanOptions,
+  VectorStoreScanPage,
+  VectorStoreSearchOptions,
+  VectorStoreSearchResult,
+} from "./base.store";
+export type { MemoryStoreOptions } from "./memory.store";
+export type { PgVectorStoreOptions } from "./pg_vector.store";
+export type { RedisStoreOptions } from "./redis.store";
+export { MemoryStore } from "./memory.store";
+export { PgVectorStore } from "./pg_vector.store";
+export { QdrantStore } from "./qdrant.store";
+export { RedisStore } from "./redis.store";
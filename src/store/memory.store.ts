@@ -0,0 +1,119 @@
+import type {
+  VectorStore,
+  VectorStoreDistance,
+  VectorStoreId,
+  VectorStoreRecord,
+  VectorStoreScanOptions,
+  VectorStoreScanPage,
+  VectorStoreSearchOptions,
+  VectorStoreSearchResult,
+} from "./base.store";
+import type {
+  MemoryAdapter,
+  MemoryHnswOptions,
+} from "../adapter/memory.adapter";
+
+export interface MemoryStoreOptions {
+  /** HNSW settings for collections created through the store. */
+  readonly hnsw?: boolean | MemoryHnswOptions;
+}
+
+export class MemoryStore implements VectorStore {
+  private readonly adapter: MemoryAdapter;
+  private readonly options: MemoryStoreOptions;
+
+  public constructor(adapter: MemoryAdapter, options: MemoryStoreOptions = {}) {
+    this.adapter = adapter;
+    this.options = options;
+  }
+
+  public async createCollection(
+    name: string,
+    dimension: number,
+    distance: VectorStoreDistance = "cosine"
+  ): Promise<void> {
+    await this.adapter.createCollection(name, dimension, {
+      distance,
+      hnsw: this.options.hnsw,
+    });
+  }
+
+  public async upsert(
+    name: string,
+    records: VectorStoreRecord[]
+  ): Promise<void> {
+    await this.adapter.upsert(
+      name,
+      records.map((record) => ({
+        id: record.id,
+        vector: record.vector,
+        metadata: record.metadata,
+      }))
+    );
+  }
+
+  public async search(
+    name: string,
+    vector: number[],
+    options: VectorStoreSearchOptions = {}
+  ): Promise<VectorStoreSearchResult[]> {
+    const results = await this.adapter.search(name, vector, {
+      limit: options.limit,
+      filter: options.filter,
+      withVector: options.withVectors,
+    });
+
+    return results.map((result) => ({
+      id: result.id,
+      score: result.score,
+      vector: result.vector,
+      metadata: result.metadata,
+    }));
+  }
+
+  public async get(
+    name: string,
+    ids: VectorStoreId[]
+  ): Promise<VectorStoreRecord[]> {
+    const points = await this.adapter.getPoints(name, ids);
+    return points.map((point) => ({
+      id: point.id,
+      vector: point.vector ?? [],
+      metadata: point.metadata,
+    }));
+  }
+
+  public async scan(
+    name: string,
+    options: VectorStoreScanOptions = {}
+  ): Promise<VectorStoreScanPage> {
+    const page = await this.adapter.scroll(name, {
+      limit: options.limit,
+      offset:
+        options.cursor !== undefined ? JSON.parse(options.cursor) : undefined,
+    });
+    return {
+      records: page.points.map((point) => ({
+        id: point.id,
+        vector: point.vector ?? [],
+        metadata: point.metadata,
+      })),
+      nextCursor:
+        page.nextOffset !== undefined
+          ? JSON.stringify(page.nextOffset)
+          : undefined,
+    };
+  }
+
+  public async delete(name: string, ids: VectorStoreId[]): Promise<void> {
+    await this.adapter.deletePoints(name, ids);
+  }
+
+  public async count(name: string): Promise<number> {
+    return await this.adapter.countPoints(name);
+  }
+
+  public async drop(name: string): Promise<void> {
+    await this.adapter.deleteCollection(name);
+  }
+}
@@ -0,0 +1,177 @@
+import type {
+  VectorStore,
+  VectorStoreDistance,
+  VectorStoreId,
+  VectorStoreRecord,
+  VectorStoreScanOptions,
+  VectorStoreScanPage,
+  VectorStoreSearchOptions,
+  VectorStoreSearchResult,
+} from "./base.store";
+import {
+  PGVECTOR_MAX_INDEX_DIMENSIONS,
+  type PgVectorAdapter,
+  type PgVectorRecord,
+} from "../adapter/pg_vector.adpater";
+
+const DEFAULT_SCAN_LIMIT = 500;
+
+export interface PgVectorStoreOptions {
+  readonly distance?: VectorStoreDistance;
+}
+
+export class PgVectorStore implements VectorStore {
+  private readonly adapter: PgVectorAdapter;
+  private readonly defaultDistance: VectorStoreDistance;
+  private readonly distances = new Map<string, VectorStoreDistance>();
+
+  public constructor(
+    adapter: PgVectorAdapter,
+    options: PgVectorStoreOptions = {}
+  ) {
+    this.adapter = adapter;
+    this.defaultDistance = options.distance ?? "cosine";
+  }
+
+  /**
+   * Creates the table and an HNSW index with the metric's operator class,
+   * which also records the metric for other processes. Dimensions above
+   * {@link PGVECTOR_MAX_INDEX_DIMENSIONS} cannot be indexed and are
+   * rejected before the table is created.
+   */
+  public async createCollection(
+    name: string,
+    dimension: number,
+    distance: VectorStoreDistance = this.defaultDistance
+  ): Promise<void> {
+    if (dimension > PGVECTOR_MAX_INDEX_DIMENSIONS) {
+      throw new Error(
+        `PgVectorStore: pgvector indexes support at most ${PGVECTOR_MAX_INDEX_DIMENSIONS} dimensions, got ${dimension}; reduce them with the embedding \`dimensions\` option`
+      );
+    }
+    await this.adapter.createTable(name, dimension);
+    await this.adapter.createIndex(name, {
+      method: "hnsw",
+      distanceFunction: distance,
+    });
+    this.distances.set(name, distance);
+  }
+
+  public async upsert(
+    name: string,
+    records: VectorStoreRecord[]
+  ): Promise<void> {
+    const result = await this.adapter.upsertVectors(
+      name,
+      records.map((record) => ({
+        id: record.id,
+        embedding: record.vector,
+        metadata: record.metadata,
+      })),
+      { stopOnError: true }
+    );
+    if (result.failures.length > 0) {
+      throw result.failures[0].error;
+    }
+  }
+
+  public async search(
+    name: string,
+    vector: number[],
+    options: VectorStoreSearchOptions = {}
+  ): Promise<VectorStoreSearchResult[]> {
+    const distance = await this.resolveDistance(name);
+    const rows = await this.adapter.searchSimilar(
+      name,
+      vector,
+      options.limit ?? 10,
+      distance,
+      { filter: options.filter, includeEmbedding: options.withVectors ?? false }
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      score: row.score,
+      vector: row.embedding,
+      metadata: (row.metadata as Record<string, unknown> | null) ?? {},
+    }));
+  }
+
+  public async get(
+    name: string,
+    ids: VectorStoreId[]
+  ): Promise<VectorStoreRecord[]> {
+    const rows = await this.adapter.getMany(name, ids);
+    return rows.map(toStoreRecord);
+  }
+
+  public async scan(
+    name: string,
+    options: VectorStoreScanOptions = {}
+  ): Promise<VectorStoreScanPage> {
+    const rows = await this.adapter.scanVectors(name, {
+      limit: options.limit ?? DEFAULT_SCAN_LIMIT,
+      afterId:
+        options.cursor !== undefined ? JSON.parse(options.cursor) : undefined,
+    });
+    const records = rows.map(toStoreRecord);
+    return {
+      records,
+      // A short page is the last one.
+      nextCursor:
+        rows.length === (options.limit ?? DEFAULT_SCAN_LIMIT)
+          ? JSON.stringify(rows[rows.length - 1].id)
+          : undefined,
+    };
+  }
+
+  public async delete(name: string, ids: VectorStoreId[]): Promise<void> {
+    await this.adapter.deleteMany(name, ids);
+  }
+
+  public async count(name: string): Promise<number> {
+    return await this.adapter.countVectors(name);
+  }
+
+  public async drop(name: string): Promise<void> {
+    await this.adapter.dropTable(name);
+    this.distances.delete(name);
+  }
+
+  /**
+   * Metric of the collection: recorded by createCollection, or read back
+   * from the operator class of its vector index. Throws rather than guess
+   * when the table has no vector index or indexes with different metrics.
+   */
+  private async resolveDistance(name: string): Promise<VectorStoreDistance> {
+    const known = this.distances.get(name);
+    if (known) {
+      return known;
+    }
+    const indexed = new Set(
+      (await this.adapter.listIndexes(name))
+        .map((index) => index.distanceFunction)
+        .filter((distance) => distance !== undefined)
+    );
+    if (indexed.size !== 1) {
+      throw new Error(
+        `PgVectorStore: distance metric of collection ${name} is unknown; ${
+          indexed.size === 0
+            ? "create a vector index with its operator class"
+            : "its vector indexes use different metrics"
+        }`
+      );
+    }
+    const [distance] = indexed as Set<VectorStoreDistance>;
+    this.distances.set(name, distance);
+    return distance;
+  }
+}
+
+function toStoreRecord(row: PgVectorRecord): VectorStoreRecord {
+  return {
+    id: row.id,
+    vector: row.embedding ?? [],
+    metadata: (row.metadata as Record<string, unknown> | null) ?? {},
+  };
+}
@@ -0,0 +1,133 @@
+import type {
+  VectorStore,
+  VectorStoreDistance,
+  VectorStoreId,
+  VectorStoreRecord,
+  VectorStoreScanOptions,
+  VectorStoreScanPage,
+  VectorStoreSearchOptions,
+  VectorStoreSearchResult,
+} from "./base.store";
+import type {
+  QdrantAdapter,
+  QdrantDistance,
+  QdrantRecord,
+} from "../adapter/qdrant.adapter";
+
+const QDRANT_DISTANCES: Record<VectorStoreDistance, QdrantDistance> = {
+  cosine: "Cosine",
+  l2: "Euclid",
+  inner_product: "Dot",
+};
+
+export class QdrantStore implements VectorStore {
+  private readonly adapter: QdrantAdapter;
+
+  public constructor(adapter: QdrantAdapter) {
+    this.adapter = adapter;
+  }
+
+  public async createCollection(
+    name: string,
+    dimension: number,
+    distance: VectorStoreDistance = "cosine"
+  ): Promise<void> {
+    await this.adapter.createCollection(
+      name,
+      dimension,
+      QDRANT_DISTANCES[distance]
+    );
+  }
+
+  public async upsert(
+    name: string,
+    records: VectorStoreRecord[]
+  ): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+    await this.adapter.upsert(
+      name,
+      records.map((record) => ({
+        id: record.id,
+        vector: record.vector,
+        payload: record.metadata,
+      }))
+    );
+  }
+
+  public async search(
+    name: string,
+    vector: number[],
+    options: VectorStoreSearchOptions = {}
+  ): Promise<VectorStoreSearchResult[]> {
+    const points = await this.adapter.search(name, vector, {
+      limit: options.limit,
+      metadataFilter: options.filter,
+      withPayload: true,
+      withVector: options.withVectors,
+    });
+
+    return points.map((point) => ({
+      id: point.id,
+      score: point.score,
+      vector:
+        Array.isArray(point.vector) && typeof point.vector[0] === "number"
+          ? (point.vector as number[])
+          : undefined,
+      metadata: point.payload ?? {},
+    }));
+  }
+
+  public async get(
+    name: string,
+    ids: VectorStoreId[]
+  ): Promise<VectorStoreRecord[]> {
+    const points = await this.adapter.getPoints(name, ids, {
+      withVector: true,
+    });
+    return points.map(toStoreRecord);
+  }
+
+  public async scan(
+    name: string,
+    options: VectorStoreScanOptions = {}
+  ): Promise<VectorStoreScanPage> {
+    const page = await this.adapter.scroll(name, {
+      limit: options.limit,
+      offset:
+        options.cursor !== undefined ? JSON.parse(options.cursor) : undefined,
+      withVector: true,
+    });
+    return {
+      records: page.points.map(toStoreRecord),
+      nextCursor:
+        page.nextOffset !== undefined
+          ? JSON.stringify(page.nextOffset)
+          : undefined,
+    };
+  }
+
+  public async delete(name: string, ids: VectorStoreId[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await this.adapter.deletePoints(name, ids);
+  }
+
+  public async count(name: string): Promise<number> {
+    return await this.adapter.countPoints(name);
+  }
+
+  public async drop(name: string): Promise<void> {
+    await this.adapter.deleteCollection(name);
+  }
+}
+
+function toStoreRecord(point: QdrantRecord): VectorStoreRecord {
+  return {
+    id: point.id,
+    vector: Array.isArray(point.vector) ? (point.vector as number[]) : [],
+    metadata: point.payload ?? {},
+  };
+}
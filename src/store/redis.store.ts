@@ -0,0 +1,197 @@
+import type {
+  VectorStore,
+  VectorStoreDistance,
+  VectorStoreId,
+  VectorStoreRecord,
+  VectorStoreScanOptions,
+  VectorStoreScanPage,
+  VectorStoreSearchOptions,
+  VectorStoreSearchResult,
+} from "./base.store";
+import type {
+  RedisAdapter,
+  RedisVectorDistance,
+  RedisVectorIndexOptions,
+} from "../adapter/redis.adapter";
+
+const REDIS_DISTANCES: Record<VectorStoreDistance, RedisVectorDistance> = {
+  cosine: "COSINE",
+  l2: "L2",
+  inner_product: "IP",
+};
+
+const DEFAULT_SCAN_LIMIT = 500;
+
+/**
+ * Position of a RediSearch scan: the SCAN cursor (null once SCAN is done)
+ * and the ids read past the previous page's `limit`.
+ */
+interface RedisScanCursor {
+  scan: string | null;
+  pending: VectorStoreId[];
+}
+
+export interface RedisStoreOptions {
+  readonly distance?: VectorStoreDistance;
+  /** Index settings applied by createCollection (algorithm, storage, ...). */
+  readonly index?: Omit<RedisVectorIndexOptions, "distance">;
+}
+
+export class RedisStore implements VectorStore {
+  private readonly adapter: RedisAdapter;
+  private readonly defaultDistance: VectorStoreDistance;
+  private readonly indexOptions: Omit<RedisVectorIndexOptions, "distance">;
+  private readonly distances = new Map<string, VectorStoreDistance>();
+
+  public constructor(adapter: RedisAdapter, options: RedisStoreOptions = {}) {
+    this.adapter = adapter;
+    this.defaultDistance = options.distance ?? "cosine";
+    this.indexOptions = options.index ?? {};
+  }
+
+  public async createCollection(
+    name: string,
+    dimension: number,
+    distance: VectorStoreDistance = this.defaultDistance
+  ): Promise<void> {
+    await this.adapter.createVectorIndex(name, dimension, {
+      ...this.indexOptions,
+      distance: REDIS_DISTANCES[distance],
+    });
+    this.distances.set(name, distance);
+  }
+
+  public async upsert(
+    name: string,
+    records: VectorStoreRecord[]
+  ): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+    await this.adapter.upsertVectors(
+      name,
+      records.map((record) => ({
+        id: record.id,
+        vector: record.vector,
+        metadata: record.metadata,
+      }))
+    );
+  }
+
+  public async search(
+    name: string,
+    vector: number[],
+    options: VectorStoreSearchOptions = {}
+  ): Promise<VectorStoreSearchResult[]> {
+    const distance = await this.resolveDistance(name);
+    const hits = await this.adapter.searchVectors(name, vector, {
+      limit: options.limit,
+      filter: options.filter,
+      withVector: options.withVectors,
+    });
+
+    return hits.map((hit) => ({
+      id: hit.id,
+      score: toScore(hit.distance, distance),
+      vector: hit.vector,
+      metadata: hit.metadata,
+    }));
+  }
+
+  public async get(
+    name: string,
+    ids: VectorStoreId[]
+  ): Promise<VectorStoreRecord[]> {
+    const documents = await this.adapter.getVectors(name, ids);
+    return documents.map((document) => ({
+      id: document.id,
+      vector: document.vector ?? [],
+      metadata: document.metadata,
+    }));
+  }
+
+  /**
+   * SCAN-based: a record may appear on more than one page. SCAN `COUNT` is
+   * only a hint, so SCAN pages are read until `limit` records are in hand
+   * and the ids past it are carried in the cursor to the next page.
+   */
+  public async scan(
+    name: string,
+    options: VectorStoreScanOptions = {}
+  ): Promise<VectorStoreScanPage> {
+    const limit = options.limit ?? DEFAULT_SCAN_LIMIT;
+    const position: RedisScanCursor =
+      options.cursor !== undefined
+        ? JSON.parse(options.cursor)
+        : { scan: "0", pending: [] };
+
+    // Pending documents deleted since the previous page are skipped.
+    const records =
+      position.pending.length > 0 ? await this.get(name, position.pending) : [];
+    let scan = position.scan;
+    while (records.length < limit && scan !== null) {
+      const page = await this.adapter.scanVectors(name, {
+        cursor: scan,
+        count: limit - records.length,
+      });
+      for (const point of page.points) {
+        records.push({
+          id: point.id,
+          vector: point.vector ?? [],
+          metadata: point.metadata,
+        });
+      }
+      scan = page.cursor ?? null;
+    }
+
+    const pending = records.slice(limit).map((record) => record.id);
+    const next: RedisScanCursor = { scan, pending };
+    return {
+      records: records.slice(0, limit),
+      nextCursor:
+        scan !== null || pending.length > 0 ? JSON.stringify(next) : undefined,
+    };
+  }
+
+  public async delete(name: string, ids: VectorStoreId[]): Promise<void> {
+    await this.adapter.deleteVectors(name, ids);
+  }
+
+  public async count(name: string): Promise<number> {
+    return await this.adapter.countVectors(name);
+  }
+
+  public async drop(name: string): Promise<void> {
+    await this.adapter.dropVectorIndex(name);
+    this.distances.delete(name);
+  }
+
+  /**
+   * Metric of the collection: recorded by createCollection, or read back
+   * from the index for collections created by another process.
+   */
+  private async resolveDistance(name: string): Promise<VectorStoreDistance> {
+    const known = this.distances.get(name);
+    if (known) {
+      return known;
+    }
+    const redisDistance = await this.adapter.getVectorIndexDistance(name);
+    const distance = (
+      Object.keys(REDIS_DISTANCES) as VectorStoreDistance[]
+    ).find((key) => REDIS_DISTANCES[key] === redisDistance)!;
+    this.distances.set(name, distance);
+    return distance;
+  }
+}
+
+function toScore(distance: number, metric: VectorStoreDistance): number {
+  switch (metric) {
+    case "cosine":
+    case "inner_product":
+      // RediSearch reports both as 1 - similarity.
+      return 1 - distance;
+    case "l2":
+      // RediSearch reports the squared Euclidean distance.
+      return Math.sqrt(distance);
+  }
+}
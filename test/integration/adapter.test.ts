@@ -1,5 +1,10 @@
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
 import { VectorSmithAdapter } from "../../src/adapter/index.adapter";
+import {
+  CachedEmbeddingProvider,
+  RedisEmbeddingCache,
+  type EmbeddingProvider,
+} from "../../src/embedding";
 
 describe("VectorSmith Integration Tests", () => {
   let adapter: VectorSmithAdapter;
@@ -54,6 +59,95 @@ describe("VectorSmith Integration Tests", () => {
     }
   });
 
+  it("should search a JSON Redis index with string ids", async () => {
+    await adapter.connect();
+    const redis = adapter.getRedis();
+    const indexName = `test_redis_json_${Date.now()}`;
+    try {
+      await redis.createVectorIndex(indexName, 3, {
+        algorithm: "FLAT",
+        storage: "JSON",
+        metadataFields: { category: "TAG" },
+      });
+      await redis.upsertVectors(indexName, [
+        {
+          id: "6f1c2b9e-2d4a-4f0e-9a57-3c1d8e7b5a10",
+          vector: [0.1, 0.2, 0.3],
+          metadata: { category: "docs" },
+        },
+        { id: 42, vector: [0.3, 0.2, 0.1], metadata: { category: "docs" } },
+      ]);
+
+      const results = await redis.searchVectors(indexName, [0.1, 0.2, 0.3], {
+        limit: 2,
+      });
+      const records = await redis.getVectors(indexName, [
+        "6f1c2b9e-2d4a-4f0e-9a57-3c1d8e7b5a10",
+        42,
+      ]);
+
+      expect(results.map((result) => result.id)).toEqual([
+        "6f1c2b9e-2d4a-4f0e-9a57-3c1d8e7b5a10",
+        42,
+      ]);
+      expect(results[0].metadata).toEqual({ category: "docs" });
+      expect(records.map((record) => record.id)).toEqual([
+        "6f1c2b9e-2d4a-4f0e-9a57-3c1d8e7b5a10",
+        42,
+      ]);
+    } finally {
+      await redis.dropVectorIndex(indexName);
+      await adapter.disconnect();
+    }
+  });
+
+  it("should reject Redis metadata fields with reserved names", async () => {
+    await adapter.connect();
+    try {
+      const redis = adapter.getRedis();
+      await expect(
+        redis.createVectorIndex(`test_redis_reserved_${Date.now()}`, 3, {
+          metadataFields: { metadata: "TAG" },
+        })
+      ).rejects.toThrow('metadata field "metadata" clashes with a reserved');
+    } finally {
+      await adapter.disconnect();
+    }
+  });
+
+  it("should cache embeddings in Redis", async () => {
+    await adapter.connect();
+    try {
+      const redis = adapter.getRedis();
+      const prefix = `test:vectorsmith:embedding:${Date.now()}:`;
+      const calls: string[][] = [];
+      const provider: EmbeddingProvider = {
+        embed: async (texts) => {
+          calls.push(texts);
+          return texts.map((text) => [text.length, 0.25]);
+        },
+        embedOne: async (text) => [text.length, 0.25],
+      };
+      const cached = new CachedEmbeddingProvider(
+        provider,
+        new RedisEmbeddingCache(redis, { prefix, ttlSeconds: 60 }),
+        { provider: "test", model: "length" }
+      );
+
+      await cached.embed(["alpha", "be"]);
+      const vectors = await cached.embed(["be", "gamma"]);
+
+      expect(calls).toEqual([["alpha", "be"], ["gamma"]]);
+      expect(vectors).toEqual([
+        [2, 0.25],
+        [5, 0.25],
+      ]);
+      expect(cached.getStats()).toMatchObject({ hits: 1, misses: 3 });
+    } finally {
+      await adapter.disconnect();
+    }
+  });
+
   it("should access PgVector adapter", async () => {
     await adapter.connect();
     const tableName = "test_vectorsmith_table";
@@ -70,6 +164,234 @@ describe("VectorSmith Integration Tests", () => {
     }
   });
 
+  it("should bulk insert and upsert pgvector rows", async () => {
+    await adapter.connect();
+    const tableName = "test_vectorsmith_bulk";
+    try {
+      const pgvector = adapter.getPgVector();
+      await pgvector.createTable(tableName, 3);
+
+      const inserted = await pgvector.insertVectors(
+        tableName,
+        [
+          { embedding: [1, 0, 0], metadata: { n: 0 } },
+          { embedding: [0, 1, 0], metadata: { n: 1 } },
+          { embedding: [0, 0, 1] },
+        ],
+        { batchSize: 2 }
+      );
+      expect(inserted.failures).toEqual([]);
+      expect(inserted.written).toBe(3);
+      expect(inserted.ids).toHaveLength(3);
+      expect(Number(inserted.ids[0])).toBeLessThan(Number(inserted.ids[1]));
+
+      const upserted = await pgvector.upsertVectors(
+        tableName,
+        [
+          { id: 100, embedding: [1, 1, 0] },
+          { id: 101, embedding: [1, 2, 3, 4] },
+        ],
+        { batchSize: 1 }
+      );
+      expect(upserted.ids).toEqual([100, null]);
+      expect(upserted.failures).toHaveLength(1);
+      expect(upserted.failures[0].startIndex).toBe(1);
+      expect(await pgvector.countVectors(tableName)).toBe(4);
+
+      // Explicit ids move the serial sequence past them.
+      expect(Number(await pgvector.insertVector(tableName, [0, 1, 1]))).toBe(
+        101
+      );
+    } finally {
+      const pgvector = adapter.getPgVector();
+      await pgvector.dropTable(tableName);
+      await adapter.disconnect();
+    }
+  });
+
+  it("should use a custom pgvector table schema with text ids", async () => {
+    await adapter.connect();
+    const tableName = "test_vectorsmith_documents";
+    try {
+      const pgvector = adapter.getPgVector();
+      await pgvector.createTable(tableName, 3, {
+        schemaName: "public",
+        idType: "text",
+        idColumn: "doc_id",
+        embeddingColumn: "vec",
+        metadataColumn: "attrs",
+        createdAtColumn: null,
+        columns: { source: "TEXT" },
+      });
+
+      const id = await pgvector.insertVector(
+        tableName,
+        [1, 0, 0],
+        { lang: "en" },
+        { id: "doc-1", columns: { source: "wiki" } }
+      );
+      expect(id).toBe("doc-1");
+      await pgvector.upsertVectors(tableName, [
+        { id: "doc-2", embedding: [0, 1, 0], metadata: { lang: "it" } },
+        { id: "doc-3", embedding: [0, 0, 1] },
+      ]);
+
+      // Columns a record does not supply keep their stored values.
+      await pgvector.upsertVectors(tableName, [
+        { id: "doc-1", embedding: [1, 0, 0], metadata: { lang: "en" } },
+        { id: "doc-3", embedding: [0, 0, 1], columns: { source: "blog" } },
+      ]);
+
+      const record = await pgvector.getById(tableName, "doc-1");
+      expect(record).toMatchObject({
+        id: "doc-1",
+        embedding: [1, 0, 0],
+        metadata: { lang: "en" },
+        columns: { source: "wiki" },
+      });
+
+      expect(
+        await pgvector.updateMetadata(
+          tableName,
+          "doc-1",
+          { reviewed: true },
+          true
+        )
+      ).toBe(true);
+      const results = await pgvector.searchSimilar(tableName, [1, 0, 0], 1);
+      expect(results[0].id).toBe("doc-1");
+      expect(results[0].metadata).toEqual({ lang: "en", reviewed: true });
+
+      expect(await pgvector.deleteMany(tableName, ["doc-2", "doc-3"])).toBe(2);
+      expect(await pgvector.getById(tableName, "doc-2")).toBeNull();
+      expect(await pgvector.countVectors(tableName)).toBe(1);
+    } finally {
+      const pgvector = adapter.getPgVector();
+      await pgvector.dropTable(tableName);
+      await adapter.disconnect();
+    }
+  });
+
+  it("should run full-text and hybrid pgvector searches", async () => {
+    await adapter.connect();
+    const tableName = "test_vectorsmith_fulltext";
+    const pgvector = adapter.getPgVector();
+    try {
+      await pgvector.createTable(tableName, 3, {
+        textSearch: { language: "english" },
+      });
+      await pgvector.insertVectors(tableName, [
+        {
+          embedding: [1, 0, 0],
+          text: "Connection pooling for PostgreSQL clients",
+          metadata: { kind: "guide" },
+        },
+        {
+          embedding: [0.9, 0.1, 0],
+          text: "Tuning vector indexes",
+          metadata: { kind: "guide" },
+        },
+        {
+          embedding: [0, 0, 1],
+          text: "Pooling connections in Redis",
+          metadata: { kind: "note" },
+        },
+      ]);
+      await pgvector.createTextIndex(tableName);
+
+      const lexical = await pgvector.searchText(tableName, "pooling", 10, {
+        includeEmbedding: false,
+      });
+      expect(lexical).toHaveLength(2);
+      expect(lexical[0].rank).toBeGreaterThan(0);
+      expect(lexical[0].text).toContain("ooling");
+
+      const hybrid = await pgvector.hybridSearch(
+        tableName,
+        { vector: [1, 0, 0], text: "pooling" },
+        3,
+        { includeEmbedding: false }
+      );
+      expect(hybrid).toHaveLength(3);
+      expect(hybrid[0].text).toBe("Connection pooling for PostgreSQL clients");
+      expect(hybrid[0].ranks).toEqual({ vector: 1, text: expect.any(Number) });
+      expect(hybrid[0].scores.text).toBeGreaterThan(0);
+
+      const weighted = await pgvector.hybridSearch(
+        tableName,
+        { vector: [1, 0, 0], text: "pooling" },
+        3,
+        {
+          method: "weighted",
+          weights: { vector: 0, text: 1 },
+          filter: { must: [{ key: "kind", match: "note" }] },
+        }
+      );
+      expect(weighted).toHaveLength(1);
+      expect(weighted[0].scores.vector).toBeDefined();
+      expect(weighted[0].distance).toBeDefined();
+    } finally {
+      await pgvector.dropTable(tableName);
+      await adapter.disconnect();
+    }
+  });
+
+  it("should manage pgvector ANN indexes", async () => {
+    await adapter.connect();
+    const tableName = "test_vectorsmith_indexes";
+    try {
+      const pgvector = adapter.getPgVector();
+      await pgvector.createTable(tableName, 3);
+      await pgvector.insertVector(tableName, [1.0, 2.0, 3.0]);
+
+      const hnsw = await pgvector.createIndex(tableName, {
+        method: "hnsw",
+        distanceFunction: "cosine",
+        m: 8,
+        efConstruction: 32,
+      });
+      const ivfflat = await pgvector.createIndex(tableName, {
+        method: "ivfflat",
+        distanceFunction: "l2",
+        lists: 1,
+      });
+
+      const indexes = await pgvector.listIndexes(tableName);
+      expect(indexes).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            name: hnsw,
+            method: "hnsw",
+            distanceFunction: "cosine",
+          }),
+          expect.objectContaining({
+            name: ivfflat,
+            method: "ivfflat",
+            distanceFunction: "l2",
+          }),
+        ])
+      );
+
+      await pgvector.rebuildIndex(hnsw);
+      const results = await pgvector.searchSimilar(
+        tableName,
+        [1.0, 2.0, 3.0],
+        1,
+        "cosine",
+        { efSearch: 40, probes: 1 }
+      );
+      expect(results.length).toBe(1);
+
+      await pgvector.dropIndex(ivfflat);
+      const remaining = await pgvector.listIndexes(tableName);
+      expect(remaining.some((index) => index.name === ivfflat)).toBe(false);
+    } finally {
+      const pgvector = adapter.getPgVector();
+      await pgvector.dropTable(tableName);
+      await adapter.disconnect();
+    }
+  });
+
   it("should work with only Redis configured", async () => {
     const redisOnly = new VectorSmithAdapter({
       redis: {
@@ -141,6 +463,72 @@ describe("VectorSmith Integration Tests", () => {
     }
   });
 
+  it("should manage Qdrant points and payloads", async () => {
+    await adapter.connect();
+    const collectionName = "vectorsmith_points_test";
+    const qdrant = adapter.getQdrant();
+    try {
+      await qdrant.createCollection(collectionName, 3);
+      await qdrant.upsert(
+        collectionName,
+        Array.from({ length: 5 }, (_, index) => ({
+          id: index + 1,
+          vector: [index + 1, 1, 0.5],
+          payload: { group: index % 2 === 0 ? "even" : "odd", rank: index },
+        }))
+      );
+
+      const fetched = await qdrant.getPoints(collectionName, [1, 2], {
+        withVector: true,
+      });
+      expect(fetched.map((point) => point.id).sort()).toEqual([1, 2]);
+      expect(fetched[0].vector).toBeDefined();
+
+      const firstPage = await qdrant.scroll(collectionName, { limit: 2 });
+      expect(firstPage.points).toHaveLength(2);
+      expect(firstPage.nextOffset).toBeDefined();
+
+      const scrolled: Array<number | string> = [];
+      for await (const point of qdrant.scrollAll(collectionName, {
+        limit: 2,
+      })) {
+        scrolled.push(point.id);
+      }
+      expect(scrolled).toHaveLength(5);
+
+      expect(await qdrant.countPoints(collectionName)).toBe(5);
+      expect(
+        await qdrant.countPoints(collectionName, {
+          metadataFilter: { must: [{ key: "group", match: "even" }] },
+        })
+      ).toBe(3);
+
+      await qdrant.setPayload(collectionName, { reviewed: true }, [1]);
+      await qdrant.deletePayloadKeys(collectionName, ["rank"], {
+        ids: [1, 2],
+      });
+      const [patched] = await qdrant.getPoints(collectionName, [1]);
+      expect(patched.payload).toEqual({ group: "even", reviewed: true });
+
+      await qdrant.overwritePayload(collectionName, { group: "odd" }, [1]);
+      await qdrant.clearPayload(collectionName, [2]);
+      const updated = await qdrant.getPoints(collectionName, [1, 2]);
+      const overwritten = updated.find((point) => point.id === 1)!;
+      const cleared = updated.find((point) => point.id === 2)!;
+      expect(overwritten.payload).toEqual({ group: "odd" });
+      expect(cleared.payload).toEqual({});
+
+      await qdrant.deletePoints(collectionName, {
+        metadataFilter: { must: [{ key: "group", match: "odd" }] },
+      });
+      await qdrant.deletePoints(collectionName, [3]);
+      expect(await qdrant.countPoints(collectionName)).toBe(2);
+    } finally {
+      await qdrant.deleteCollection(collectionName);
+      await adapter.disconnect();
+    }
+  });
+
   it("should work with only Qdrant configured", async () => {
     const qdrantOnly = new VectorSmithAdapter({
       qdrant: {
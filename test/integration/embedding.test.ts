@@ -1,9 +1,13 @@
 import { describe, it, expect } from "vitest";
 import {
+  CohereEmbeddingModel,
+  CohereEmbeddingProvider,
   JinaAIEmbeddingProvider,
   JinaEmbeddingModel,
   OpenAIEmbeddingProvider,
   OpenAIEmbeddingModel,
+  VoyageEmbeddingModel,
+  VoyageEmbeddingProvider,
 } from "@/embedding";
 
 describe("Embedding Providers (integration)", () => {
@@ -98,6 +102,94 @@ describe("Embedding Providers (integration)", () => {
       30_000
     );
   });
+
+  describe("CohereEmbeddingProvider", () => {
+    const apiKey = process.env.COHERE_API_KEY;
+    const runWithKey = apiKey ? it : it.skip;
+
+    runWithKey(
+      "embeds queries and documents with reduced dimensions",
+      async () => {
+        const options = { dimensions: 256, timeoutMs: 30_000 };
+        const documents = new CohereEmbeddingProvider(
+          apiKey!,
+          CohereEmbeddingModel.EmbedV4,
+          { ...options, inputType: "search_document" }
+        );
+        const queries = new CohereEmbeddingProvider(
+          apiKey!,
+          CohereEmbeddingModel.EmbedV4,
+          { ...options, inputType: "search_query" }
+        );
+
+        const vectors = await documents.embed(["hello world", "ciao mondo"]);
+        const query = await queries.embedOne("greeting");
+
+        expect(vectors.length).toBe(2);
+        for (const vec of [...vectors, query]) {
+          expect(vec.length).toBe(256);
+        }
+      },
+      60_000
+    );
+
+    it(
+      "fails with invalid API key",
+      async () => {
+        const badProvider = new CohereEmbeddingProvider(
+          "invalid_api_key",
+          CohereEmbeddingModel.EmbedEnglishLightV3,
+          { timeoutMs: 15_000 }
+        );
+        await expect(badProvider.embedOne("test")).rejects.toThrow();
+      },
+      30_000
+    );
+  });
+
+  describe("VoyageEmbeddingProvider", () => {
+    const apiKey = process.env.VOYAGE_API_KEY;
+    const runWithKey = apiKey ? it : it.skip;
+
+    runWithKey(
+      "embeds queries and documents with reduced dimensions",
+      async () => {
+        const options = { dimensions: 512, timeoutMs: 30_000 };
+        const documents = new VoyageEmbeddingProvider(
+          apiKey!,
+          VoyageEmbeddingModel.Voyage3_5_Lite,
+          { ...options, inputType: "document" }
+        );
+        const queries = new VoyageEmbeddingProvider(
+          apiKey!,
+          VoyageEmbeddingModel.Voyage3_5_Lite,
+          { ...options, inputType: "query" }
+        );
+
+        const vectors = await documents.embed(["hello world", "ciao mondo"]);
+        const query = await queries.embedOne("greeting");
+
+        expect(vectors.length).toBe(2);
+        for (const vec of [...vectors, query]) {
+          expect(vec.length).toBe(512);
+        }
+      },
+      60_000
+    );
+
+    it(
+      "fails with invalid API key",
+      async () => {
+        const badProvider = new VoyageEmbeddingProvider(
+          "invalid_api_key",
+          VoyageEmbeddingModel.Voyage3_5_Lite,
+          { timeoutMs: 15_000 }
+        );
+        await expect(badProvider.embedOne("test")).rejects.toThrow();
+      },
+      30_000
+    );
+  });
 });
 
 
@@ -4,7 +4,9 @@ import {
   RedisRetriever,
   PgVectorRetriever,
   QdrantRetriever,
+  QdrantHybridRetriever,
 } from "../../src/retrieve";
+import { BM25SparseEncoder } from "../../src/embedding";
 
 describe("Retrieve Integration Flow", () => {
   let adapter: VectorSmithAdapter;
@@ -60,6 +62,52 @@ describe("Retrieve Integration Flow", () => {
     }
   });
 
+  it("recupera vettori simili da Redis con pre-filtro", async () => {
+    const redis = adapter.getRedis();
+    const indexName = `retrieve_redis_${Date.now()}`;
+
+    await redis.createVectorIndex(indexName, 3, {
+      algorithm: "FLAT",
+      metadataFields: { category: "TAG", year: "NUMERIC" },
+    });
+    try {
+      await redis.upsertVectors(indexName, [
+        {
+          id: 1,
+          vector: [0.1, 0.2, 0.3],
+          metadata: { category: "docs", year: 2023 },
+        },
+        {
+          id: 2,
+          vector: [0.1, 0.2, 0.31],
+          metadata: { category: "code", year: 2024 },
+        },
+      ]);
+
+      const results = await redisRetriever.retrieve({
+        query: {
+          indexName,
+          vector: [0.1, 0.2, 0.3],
+          options: {
+            limit: 5,
+            filter: {
+              must: [
+                { key: "category", match: "code" },
+                { key: "year", range: { gte: 2024 } },
+              ],
+            },
+          },
+        },
+      });
+
+      expect(results.length).toBe(1);
+      expect(results[0].id).toBe(2);
+      expect(results[0].metadata.category).toBe("code");
+    } finally {
+      await redis.dropVectorIndex(indexName);
+    }
+  });
+
   it("recupera vettori simili da PgVector", async () => {
     const pgvector = adapter.getPgVector();
     const tableName = `retrieve_pgvector_${Date.now()}`;
@@ -85,6 +133,80 @@ describe("Retrieve Integration Flow", () => {
     }
   });
 
+  it("filtra i vettori PgVector sui metadati", async () => {
+    const pgvector = adapter.getPgVector();
+    const tableName = `retrieve_pgvector_filter_${Date.now()}`;
+
+    await pgvector.createTable(tableName, 3);
+    try {
+      await pgvector.createMetadataIndex(tableName);
+      await pgvector.insertVector(tableName, [0.1, 0.2, 0.3], {
+        label: "near",
+        tags: { lang: "it" },
+      });
+      await pgvector.insertVector(tableName, [0.9, 0.8, 0.7], {
+        label: "far",
+        tags: { lang: "en" },
+      });
+
+      const results = await pgVectorRetriever.retrieve({
+        query: {
+          tableName,
+          queryVector: [0.1, 0.2, 0.3],
+          limit: 5,
+          filter: { must: [{ key: "tags.lang", match: "en" }] },
+        },
+      });
+
+      expect(results.length).toBe(1);
+      expect(results[0].metadata).toMatchObject({ label: "far" });
+    } finally {
+      await pgvector.dropTable(tableName);
+    }
+  });
+
+  it("ordina PgVector con la metrica scelta e applica le soglie", async () => {
+    const pgvector = adapter.getPgVector();
+    const tableName = `retrieve_pgvector_metric_${Date.now()}`;
+
+    await pgvector.createTable(tableName, 2);
+    try {
+      // Same direction as the query but far away: closest by cosine,
+      // farthest by L2.
+      await pgvector.insertVector(tableName, [10, 10], { label: "aligned" });
+      await pgvector.insertVector(tableName, [1, 0], { label: "near" });
+
+      const cosine = await pgvector.searchSimilar(
+        tableName,
+        [1, 1],
+        2,
+        "cosine",
+        {
+          includeEmbedding: false,
+        }
+      );
+      expect(cosine[0].metadata).toMatchObject({ label: "aligned" });
+      expect(cosine[0].score).toBeCloseTo(1);
+      expect(cosine[0].distance).toBeCloseTo(0);
+      expect(cosine[0].embedding).toBeUndefined();
+
+      const l2 = await pgvector.searchSimilar(tableName, [1, 1], 2, "l2");
+      expect(l2[0].metadata).toMatchObject({ label: "near" });
+      expect(l2[0].embedding).toEqual([1, 0]);
+
+      const thresholded = await pgvector.searchSimilar(
+        tableName,
+        [1, 1],
+        2,
+        "cosine",
+        { scoreThreshold: 0.9 }
+      );
+      expect(thresholded.length).toBe(1);
+    } finally {
+      await pgvector.dropTable(tableName);
+    }
+  });
+
   it("recupera vettori da Qdrant", async () => {
     const qdrant = adapter.getQdrant();
     const collectionName = `retrieve_qdrant_${Date.now()}`;
@@ -125,4 +247,121 @@ describe("Retrieve Integration Flow", () => {
       await qdrant.deleteCollection(collectionName);
     }
   });
+
+  it("recupera vettori nominati e multivettore da Qdrant", async () => {
+    const qdrant = adapter.getQdrant();
+    const collectionName = `retrieve_qdrant_named_${Date.now()}`;
+
+    await qdrant.createCollection(collectionName, {
+      code: { size: 3 },
+      docstring: { size: 2, distance: "Dot" },
+      tokens: { size: 2, multivector: true },
+    });
+    try {
+      await qdrant.upsert(collectionName, [
+        {
+          id: 1,
+          vector: {
+            code: [1, 0, 0],
+            docstring: [0, 1],
+            tokens: [
+              [1, 0],
+              [0.5, 0.5],
+            ],
+          },
+          payload: { symbol: "parse" },
+        },
+        {
+          id: 2,
+          vector: {
+            code: [0, 1, 0],
+            docstring: [1, 0],
+            tokens: [[0, 1]],
+          },
+          payload: { symbol: "render" },
+        },
+      ]);
+
+      const byDocstring = await qdrantRetriever.retrieve({
+        query: {
+          collectionName,
+          vector: [1, 0],
+          vectorName: "docstring",
+          options: { limit: 1 },
+        },
+      });
+      expect(byDocstring[0].id).toBe(2);
+
+      const byCode = await qdrantRetriever.retrieve({
+        query: {
+          collectionName,
+          vector: [0.9, 0.1, 0],
+          options: { limit: 1, vectorName: "code" },
+        },
+      });
+      expect(byCode[0].id).toBe(1);
+
+      const byTokens = await qdrantRetriever.retrieve({
+        query: {
+          collectionName,
+          vector: [[1, 0]],
+          vectorName: "tokens",
+          options: { limit: 1 },
+        },
+      });
+      expect(byTokens[0].payload?.symbol).toBe("parse");
+    } finally {
+      await qdrant.deleteCollection(collectionName);
+    }
+  });
+
+  it("recupera da Qdrant con ricerca ibrida densa e sparsa", async () => {
+    const qdrant = adapter.getQdrant();
+    const collectionName = `retrieve_qdrant_hybrid_${Date.now()}`;
+    const encoder = new BM25SparseEncoder();
+    const hybridRetriever = new QdrantHybridRetriever(qdrant, encoder);
+    const documents = [
+      { id: 1, dense: [0.9, 0.1, 0], text: "function parseConfigFile(path)" },
+      { id: 2, dense: [0.8, 0.2, 0], text: "load settings from disk" },
+      { id: 3, dense: [0, 0.1, 0.9], text: "render the dashboard widget" },
+    ];
+
+    await qdrant.createCollection(
+      collectionName,
+      { dense: { size: 3 } },
+      "Cosine",
+      { sparseVectors: { bm25: { modifier: "idf" } } }
+    );
+    try {
+      const sparse = await encoder.embedDocuments(
+        documents.map((document) => document.text)
+      );
+      await qdrant.upsert(
+        collectionName,
+        documents.map((document, index) => ({
+          id: document.id,
+          vector: { dense: document.dense, bm25: sparse[index] },
+          payload: { text: document.text },
+        }))
+      );
+
+      const results = await hybridRetriever.retrieve({
+        query: {
+          collectionName,
+          vector: [0.8, 0.2, 0],
+          vectorName: "dense",
+          sparseVectorName: "bm25",
+          text: "parseConfigFile",
+          options: { limit: 2 },
+        },
+      });
+
+      expect(results).toHaveLength(2);
+      expect(results[0].id).toBe(1);
+      expect(results[0].scores.sparse).toBeGreaterThan(0);
+      expect(results[0].ranks.dense).toBeDefined();
+    } finally {
+      await qdrant.deleteCollection(collectionName);
+    }
+  });
 });
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import {
+  VectorSmithAdapter,
+  VectorStoreType,
+} from "../../src/adapter/index.adapter";
+import type { MetadataFilter } from "../../src/filter";
+import { PgVectorStore, RedisStore } from "../../src/store";
+
+describe("VectorStore Integration Tests", () => {
+  let adapter: VectorSmithAdapter;
+
+  beforeAll(async () => {
+    adapter = new VectorSmithAdapter({
+      redis: {
+        host: process.env.REDIS_HOST || "localhost",
+        port: Number(process.env.REDIS_PORT || 6380),
+      },
+      pgvector: {
+        host: process.env.PG_HOST || "localhost",
+        port: Number(process.env.PG_PORT || 55432),
+        user: process.env.PG_USER || "vectorsmith",
+        password: process.env.PG_PASSWORD || "vectorsmith",
+        database: process.env.PG_DB || "vectorsmith",
+      },
+      qdrant: {
+        url: process.env.QDRANT_ENDPOINT || "http://localhost:6333",
+        apiKey: process.env.QDRANT_API_KEY,
+        clusterId: process.env.QDRANT_CLUSTER_ID,
+      },
+      memory: {},
+      defaultStore: VectorStoreType.PgVector,
+    });
+
+    await adapter.connect();
+  });
+
+  afterAll(async () => {
+    if (adapter.isConnected()) {
+      await adapter.disconnect();
+    }
+  });
+
+  it.each([
+    VectorStoreType.Redis,
+    VectorStoreType.PgVector,
+    VectorStoreType.Qdrant,
+  ])("runs the same workflow on %s", async (type) => {
+    const store = adapter.getVectorStore(type);
+    const name = `store_${type.toLowerCase()}_${Date.now()}`;
+
+    await store.createCollection(name, 3, "cosine");
+    try {
+      await store.upsert(name, [
+        { id: 1, vector: [0.9, 0.1, 0.1], metadata: { label: "alpha" } },
+        { id: 2, vector: [0.1, 0.9, 0.1], metadata: { label: "beta" } },
+      ]);
+
+      const results = await store.search(name, [0.88, 0.12, 0.1], {
+        limit: 2,
+        withVectors: true,
+      });
+
+      expect(results.length).toBe(2);
+      expect(results[0].id).toBe(1);
+      expect(results[0].metadata.label).toBe("alpha");
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+      expect(results[0].vector?.length).toBe(3);
+
+      await store.delete(name, [2]);
+      expect(await store.count(name)).toBe(1);
+    } finally {
+      await store.drop(name);
+    }
+  });
+
+  it.each([VectorStoreType.Redis, VectorStoreType.PgVector])(
+    "reads the metric of an existing %s collection back",
+    async (type) => {
+      const name = `store_metric_${type.toLowerCase()}_${Date.now()}`;
+      await adapter.getVectorStore(type).createCollection(name, 3, "l2");
+      // A fresh store, as in another process, has no record of the metric.
+      const store =
+        type === VectorStoreType.Redis
+          ? new RedisStore(adapter.getRedis())
+          : new PgVectorStore(adapter.getPgVector());
+      try {
+        await store.upsert(name, [
+          { id: 1, vector: [1, 0, 0] },
+          { id: 2, vector: [4, 0, 0] },
+        ]);
+
+        const results = await store.search(name, [1, 0, 0], { limit: 2 });
+
+        expect(results.map((result) => result.id)).toEqual([1, 2]);
+        expect(results[1].score).toBeCloseTo(3);
+      } finally {
+        await store.drop(name);
+      }
+    }
+  );
+
+  it("fills Redis scan pages up to the limit", async () => {
+    const store = adapter.getVectorStore(VectorStoreType.Redis);
+    const name = `store_scan_redis_${Date.now()}`;
+
+    await store.createCollection(name, 2, "cosine");
+    try {
+      await store.upsert(
+        name,
+        Array.from({ length: 25 }, (_, id) => ({ id, vector: [1, id] }))
+      );
+
+      const sizes: number[] = [];
+      const ids = new Set<unknown>();
+      let cursor: string | undefined;
+      do {
+        const page = await store.scan(name, { limit: 10, cursor });
+        sizes.push(page.records.length);
+        page.records.forEach((record) => ids.add(record.id));
+        cursor = page.nextCursor;
+      } while (cursor !== undefined);
+
+      expect(sizes.slice(0, 2)).toEqual([10, 10]);
+      expect(Math.max(...sizes)).toBe(10);
+      expect(ids.size).toBe(25);
+    } finally {
+      await store.drop(name);
+    }
+  });
+
+  it.each([
+    VectorStoreType.PgVector,
+    VectorStoreType.Qdrant,
+    VectorStoreType.Memory,
+  ])("filters missing and null metadata like Qdrant on %s", async (type) => {
+    const store = adapter.getVectorStore(type);
+    const name = `store_filter_${type.toLowerCase()}_${Date.now()}`;
+
+    await store.createCollection(name, 2, "cosine");
+    try {
+      await store.upsert(name, [
+        { id: 1, vector: [1, 0] },
+        { id: 2, vector: [1, 0.1], metadata: { draft: null } },
+        { id: 3, vector: [1, 0.2], metadata: { draft: true } },
+        { id: 4, vector: [1, 0.3], metadata: { draft: [] } },
+        { id: 5, vector: [1, 0.4], metadata: { archived: true } },
+      ]);
+      const ids = async (filter: MetadataFilter) =>
+        (await store.search(name, [1, 0], { limit: 10, filter }))
+          .map((result) => Number(result.id))
+          .sort();
+
+      expect(
+        await ids({ mustNot: [{ key: "archived", match: true }] })
+      ).toEqual([1, 2, 3, 4]);
+      expect(await ids({ must: [{ key: "draft", exists: false }] })).toEqual([
+        1, 2, 4, 5,
+      ]);
+      expect(await ids({ must: [{ key: "draft", exists: true }] })).toEqual([
+        3,
+      ]);
+    } finally {
+      await store.drop(name);
+    }
+  });
+
+  it.each([
+    VectorStoreType.PgVector,
+    VectorStoreType.Qdrant,
+    VectorStoreType.Memory,
+  ])("matches array elements like Qdrant on %s", async (type) => {
+    const store = adapter.getVectorStore(type);
+    const name = `store_array_${type.toLowerCase()}_${Date.now()}`;
+
+    await store.createCollection(name, 2, "cosine");
+    try {
+      await store.upsert(name, [
+        { id: 1, vector: [1, 0], metadata: { tags: ["a", "b"] } },
+        { id: 2, vector: [1, 0.1], metadata: { tags: "a" } },
+        { id: 3, vector: [1, 0.2], metadata: { tags: ["c"] } },
+      ]);
+      const ids = async (filter: MetadataFilter) =>
+        (await store.search(name, [1, 0], { limit: 10, filter }))
+          .map((result) => Number(result.id))
+          .sort();
+
+      expect(await ids({ must: [{ key: "tags", match: "a" }] })).toEqual([
+        1, 2,
+      ]);
+      expect(await ids({ must: [{ key: "tags", in: ["b", "c"] }] })).toEqual([
+        1, 3,
+      ]);
+      expect(await ids({ mustNot: [{ key: "tags", match: "b" }] })).toEqual([
+        2, 3,
+      ]);
+    } finally {
+      await store.drop(name);
+    }
+  });
+
+  it("resolves the default store", () => {
+    expect(adapter.getVectorStore()).toBe(
+      adapter.getVectorStore(VectorStoreType.PgVector)
+    );
+  });
+
+  it("throws when the requested store is not configured", () => {
+    const redisOnly = new VectorSmithAdapter({
+      redis: {
+        host: process.env.REDIS_HOST || "localhost",
+        port: Number(process.env.REDIS_PORT || 6380),
+      },
+    });
+
+    expect(() => redisOnly.getVectorStore(VectorStoreType.Qdrant)).toThrow(
+      "store QDRANT is not configured"
+    );
+  });
+});
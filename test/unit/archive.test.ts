@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  VectorSmithAdapter,
+  VectorStoreType,
+} from "../../src/adapter/index.adapter";
+import {
+  exportCollection,
+  importCollection,
+  readArchiveHeader,
+  verifyArchive,
+} from "../../src/archive";
+import type { VectorStore } from "../../src/store";
+
+async function seededStore(): Promise<VectorStore> {
+  const adapter = new VectorSmithAdapter({ memory: {} });
+  await adapter.connect();
+  const store = adapter.getVectorStore();
+  await store.createCollection("docs", 4, "l2");
+  await store.upsert(
+    "docs",
+    Array.from({ length: 12 }, (_, i) => ({
+      id: i % 2 === 0 ? i : `doc-${i}`,
+      vector: [i, 0.5, -0.25, i / 8],
+      metadata: { title: `Document ${i}`, tags: ["x", i % 3] },
+    }))
+  );
+  return store;
+}
+
+describe("collection archives", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "vectorsmith-archive-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  for (const encoding of ["jsonl", "binary"] as const) {
+    it(`round-trips a collection as ${encoding}`, async () => {
+      const source = await seededStore();
+      const path = join(directory, `docs.${encoding}`);
+
+      const exported = await exportCollection(source, "docs", path, {
+        encoding,
+        distance: "l2",
+        embedding: { provider: "openai", model: "text-embedding-3-small" },
+        batchSize: 5,
+      });
+      expect(exported.count).toBe(12);
+      expect(await readArchiveHeader(path)).toMatchObject({
+        encoding,
+        collection: "docs",
+        dimension: 4,
+        distance: "l2",
+        embedding: { model: "text-embedding-3-small" },
+      });
+
+      // Same data, same bytes (the memory store scans in a stable order).
+      const again = join(directory, `again.${encoding}`);
+      await exportCollection(source, "docs", again, {
+        encoding,
+        distance: "l2",
+      });
+      expect(await verifyArchive(again)).toMatchObject({
+        sha256: exported.sha256,
+      });
+
+      const target = new VectorSmithAdapter({ memory: {} });
+      await target.connect();
+      const imported = await target.importCollection(path, {
+        store: VectorStoreType.Memory,
+        collection: "restored",
+        createCollection: true,
+        batchSize: 4,
+      });
+      expect(imported).toMatchObject({ collection: "restored", count: 12 });
+
+      const store = target.getVectorStore();
+      expect(await store.count("restored")).toBe(12);
+      expect(await store.get("restored", [4, "doc-5"])).toEqual(
+        await source.get("docs", [4, "doc-5"])
+      );
+    });
+  }
+
+  it("writes records the scan returns twice once", async () => {
+    const source = await seededStore();
+    const scan = source.scan.bind(source);
+    source.scan = async (name, options) => {
+      const page = await scan(name, options);
+      return { ...page, records: [...page.records, ...page.records] };
+    };
+
+    const exported = await exportCollection(
+      source,
+      "docs",
+      join(directory, "docs.jsonl"),
+      { batchSize: 5 }
+    );
+    expect(exported.count).toBe(12);
+  });
+
+  it("looks past empty pages for the dimension", async () => {
+    const source = await seededStore();
+    const scan = source.scan.bind(source);
+    source.scan = async (name, options) =>
+      options?.cursor === undefined
+        ? { records: [], nextCursor: "start" }
+        : await scan(name, {
+            ...options,
+            cursor: options.cursor === "start" ? undefined : options.cursor,
+          });
+
+    const exported = await exportCollection(
+      source,
+      "docs",
+      join(directory, "docs.jsonl"),
+      { batchSize: 5 }
+    );
+    expect(exported).toMatchObject({ count: 12, header: { dimension: 4 } });
+  });
+
+  it("rejects corrupted and truncated archives before importing", async () => {
+    const source = await seededStore();
+    const target = await seededStore();
+    const path = join(directory, "docs.jsonl");
+    await exportCollection(source, "docs", path);
+    const content = await readFile(path, "utf8");
+
+    await writeFile(path, content.replace("Document 3", "Document 9"));
+    await expect(
+      importCollection(target, path, { collection: "copy" })
+    ).rejects.toThrow("checksum mismatch");
+
+    await writeFile(path, content.split("\n").slice(0, 6).join("\n"));
+    await expect(verifyArchive(path)).rejects.toThrow("truncated");
+
+    const binary = join(directory, "docs.bin");
+    await exportCollection(source, "docs", binary, { encoding: "binary" });
+    const bytes = await readFile(binary);
+    await writeFile(binary, bytes.subarray(0, bytes.length - 20));
+    await expect(verifyArchive(binary)).rejects.toThrow("end of file");
+
+    await expect(target.count("copy")).rejects.toThrow();
+  });
+});
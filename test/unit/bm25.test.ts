@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { BM25SparseEncoder } from "../../src/embedding";
+
+describe("BM25SparseEncoder", () => {
+  const encoder = new BM25SparseEncoder({ avgDocLength: 8 });
+
+  it("keeps identifiers whole and splits their parts", () => {
+    expect(encoder.tokenize("The parseHTTPHeader of get_user_by_id")).toEqual([
+      "parsehttpheader",
+      "parse",
+      "http",
+      "header",
+      "get_user_by_id",
+      "get",
+      "user",
+      "id",
+    ]);
+  });
+
+  it("encodes queries with unit weights and sorted unique indices", () => {
+    const vector = encoder.encodeQuery("vector vector search");
+
+    expect(vector.indices).toHaveLength(2);
+    expect(vector.values).toEqual([1, 1]);
+    expect([...vector.indices].sort((a, b) => a - b)).toEqual(vector.indices);
+  });
+
+  it("saturates repeated terms in documents", async () => {
+    const [once, twice] = await encoder.embedDocuments([
+      "alpha beta",
+      "alpha alpha beta",
+    ]);
+    const alpha = encoder.encodeQuery("alpha").indices[0];
+    const weight = (vector: typeof once) =>
+      vector.values[vector.indices.indexOf(alpha)];
+
+    expect(weight(twice)).toBeGreaterThan(weight(once));
+    expect(weight(twice)).toBeLessThan(2 * weight(once));
+  });
+});
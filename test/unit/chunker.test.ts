@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+  FixedSizeChunker,
+  MarkdownChunker,
+  RecursiveChunker,
+  SentenceChunker,
+  type TextChunk,
+} from "../../src/chunker";
+
+function expectOffsets(text: string, chunks: TextChunk[]): void {
+  for (const chunk of chunks) {
+    expect(text.slice(chunk.start, chunk.end)).toBe(chunk.text);
+  }
+}
+
+describe("chunkers", () => {
+  it("cuts fixed windows with overlap", () => {
+    const text = "abcdefghijklmnopqrstuvwxyz";
+    const chunks = new FixedSizeChunker({
+      chunkSize: 10,
+      chunkOverlap: 4,
+    }).chunk(text);
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      "abcdefghij",
+      "ghijklmnop",
+      "mnopqrstuv",
+      "stuvwxyz",
+    ]);
+    expectOffsets(text, chunks);
+  });
+
+  it("keeps paragraphs and words whole when splitting recursively", () => {
+    const text = [
+      "First paragraph is short.",
+      "Second paragraph is a little bit longer than the first one.",
+      "Third.",
+    ].join("\n\n");
+    const chunks = new RecursiveChunker({
+      chunkSize: 40,
+      chunkOverlap: 10,
+    }).chunk(text);
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      "First paragraph is short.",
+      "Second paragraph is a little bit longer",
+      "longer than the first one.",
+      "Third.",
+    ]);
+    expectOffsets(text, chunks);
+  });
+
+  it("splits Markdown on headings and records the heading path", () => {
+    const text = [
+      "Intro text.",
+      "# Guide",
+      "Overview.",
+      "## Install",
+      "```sh",
+      "# not a heading",
+      "npm install vectorsmith",
+      "```",
+      "### Linux",
+      "Use apt.",
+      "## Usage",
+      "Call connect().",
+    ].join("\n");
+    const chunks = new MarkdownChunker({ chunkSize: 200 }).chunk(text);
+
+    expect(
+      chunks.map((chunk) => [chunk.text.split("\n")[0], chunk.metadata])
+    ).toEqual([
+      ["Intro text.", undefined],
+      ["# Guide", { headings: ["Guide"] }],
+      ["## Install", { headings: ["Guide", "Install"] }],
+      ["### Linux", { headings: ["Guide", "Install", "Linux"] }],
+      ["## Usage", { headings: ["Guide", "Usage"] }],
+    ]);
+    expect(chunks[2].text).toContain("# not a heading");
+    expectOffsets(text, chunks);
+  });
+
+  it("groups whole sentences", () => {
+    const text =
+      "One sentence here. Another one follows! Is this the third? Yes, the fourth.";
+    const chunks = new SentenceChunker({
+      chunkSize: 45,
+      chunkOverlap: 25,
+    }).chunk(text);
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      "One sentence here. Another one follows!",
+      "Another one follows! Is this the third?",
+      "Is this the third? Yes, the fourth.",
+    ]);
+    expectOffsets(text, chunks);
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect } from "vitest";
+import { CodeChunker, detectCodeLanguage } from "../../src/chunker";
+
+const TYPESCRIPT = `import { readFile } from "fs/promises";
+import type { Config } from "./config";
+
+const PATTERN = /[{(]/g;
+
+/**
+ * Loads the configuration.
+ */
+export async function loadConfig(path: string): Promise<Config> {
+  const raw = await readFile(path, "utf8");
+  return JSON.parse(raw) as Config;
+}
+
+@injectable()
+export class UserService {
+  private readonly cache = new Map<string, string>();
+
+  /** Finds a user; braces in strings "}" do not count. */
+  public async find(id: string): Promise<string | undefined> {
+    const key = \`user:\${id}:{\`;
+    if (this.cache.has(key)) {
+      return this.cache.get(key);
+    }
+    return undefined;
+  }
+
+  public clear(): void {
+    this.cache.clear();
+  }
+}
+`;
+
+const PYTHON = `import os
+
+
+@dataclass
+class Settings:
+    """Runtime settings."""
+
+    name: str
+
+    def load(self, path):
+        """Reads the file.
+
+        def not_a_function(): pass
+        """
+        with open(path) as handle:
+            return handle.read()
+
+    def save(self, path):
+        if not path:
+            raise ValueError("path")
+        else:
+            os.remove(path)
+
+
+def main():
+    print(Settings("x").load("a.txt"))
+`;
+
+const GO = `package main
+
+import (
+\t"fmt"
+)
+
+// Server serves requests.
+type Server struct {
+\tAddr string
+}
+
+// Start starts the server.
+func (s *Server) Start() error {
+\tfmt.Println(\`raw { string\`)
+\treturn nil
+}
+
+func main() {
+\t_ = (&Server{}).Start()
+}
+`;
+
+const JAVA = `package demo;
+
+import java.util.List;
+
+/** Repository of orders. */
+public class OrderRepository {
+    private final List<String> orders;
+
+    public OrderRepository(List<String> orders) {
+        this.orders = orders;
+    }
+
+    @Override
+    public String toString() {
+        return """
+            {orders}
+            """;
+    }
+}
+`;
+
+describe("CodeChunker", () => {
+  it("detects languages from file extensions", () => {
+    expect(detectCodeLanguage("src/a.tsx")).toBe("typescript");
+    expect(detectCodeLanguage("lib/a.mjs")).toBe("javascript");
+    expect(detectCodeLanguage("a.py")).toBe("python");
+    expect(detectCodeLanguage("main.go")).toBe("go");
+    expect(detectCodeLanguage("A.java")).toBe("java");
+    expect(detectCodeLanguage("README")).toBeUndefined();
+  });
+
+  it("keeps TypeScript declarations whole with their comments", () => {
+    const chunks = new CodeChunker({ chunkSize: 300 }).chunk(TYPESCRIPT, {
+      path: "src/user.ts",
+    });
+
+    const loadConfig = chunks.find((chunk) =>
+      (chunk.metadata?.symbols as string[]).includes("loadConfig")
+    )!;
+    expect(loadConfig.text).toContain("/**\n * Loads the configuration.");
+    expect(loadConfig.text).toMatch(/return JSON.parse\(raw\) as Config;\n}$/);
+    expect(loadConfig.metadata).toEqual({
+      language: "typescript",
+      filePath: "src/user.ts",
+      symbols: ["PATTERN", "loadConfig"],
+      startLine: 1,
+      endLine: 12,
+    });
+
+    const members = chunks.filter(
+      (chunk) =>
+        (chunk.metadata?.parents as string[] | undefined)?.[0] === "UserService"
+    );
+    expect(members.length).toBeGreaterThan(1);
+    expect(members[0].text).toMatch(
+      /^@injectable\(\)\nexport class UserService/
+    );
+    const find = members.find((chunk) => chunk.text.includes("find(id"))!;
+    expect(find.text).toMatch(/^ *\/\*\* Finds a user/);
+    expect(find.text).toMatch(/return undefined;\n  }$/);
+    for (const chunk of chunks) {
+      expect(chunk.text).toBe(TYPESCRIPT.slice(chunk.start, chunk.end));
+      expect(chunk.text.length).toBeLessThanOrEqual(300);
+    }
+  });
+
+  it("splits Python classes into methods, keeping docstrings", () => {
+    const chunks = new CodeChunker({ chunkSize: 250 }).chunk(PYTHON, {
+      path: "settings.py",
+    });
+    expect(chunks.map((chunk) => chunk.metadata?.symbols)).toEqual([
+      [],
+      ["Settings", "load"],
+      ["save"],
+      ["main"],
+    ]);
+    const load = chunks.find((chunk) =>
+      (chunk.metadata?.symbols as string[]).includes("load")
+    )!;
+    expect(load.metadata?.parents).toEqual(["Settings"]);
+    expect(load.text).toContain("def not_a_function(): pass");
+    expect(load.text.trimEnd()).toMatch(/return handle.read\(\)$/);
+    const save = chunks.find((chunk) =>
+      (chunk.metadata?.symbols as string[]).includes("save")
+    )!;
+    expect(save.text).toContain("os.remove(path)");
+    expect(chunks[chunks.length - 1].metadata?.symbols).toContain("main");
+  });
+
+  it("chunks Go and Java on declarations", () => {
+    const go = new CodeChunker({ chunkSize: 120 }).chunk(GO, {
+      path: "main.go",
+    });
+    expect(go.map((chunk) => chunk.metadata?.symbols)).toEqual([
+      ["Server"],
+      ["Start"],
+      ["main"],
+    ]);
+    expect(go[1].text).toMatch(/^\/\/ Start starts the server\.\nfunc/);
+
+    const java = new CodeChunker({ chunkSize: 200 }).chunk(JAVA, {
+      path: "OrderRepository.java",
+    });
+    const toString = java.find((chunk) =>
+      (chunk.metadata?.symbols as string[]).includes("toString")
+    )!;
+    expect(toString.text).toMatch(/^ *@Override\n/);
+    expect(toString.text).toContain("{orders}");
+    expect(toString.metadata?.parents).toEqual(["OrderRepository"]);
+  });
+
+  it("falls back to line windows for unknown languages", () => {
+    const text = Array.from({ length: 25 }, (_, i) => `line ${i + 1}`).join(
+      "\n"
+    );
+    const chunks = new CodeChunker({ windowLines: 10, windowOverlap: 2 }).chunk(
+      text,
+      { path: "notes.txt" }
+    );
+
+    expect(
+      chunks.map((chunk) => [
+        chunk.metadata?.startLine,
+        chunk.metadata?.endLine,
+      ])
+    ).toEqual([
+      [1, 10],
+      [9, 18],
+      [17, 25],
+    ]);
+    expect(chunks[0].metadata).not.toHaveProperty("language");
+  });
+});
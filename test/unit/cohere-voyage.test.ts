@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  CohereEmbeddingModel,
+  CohereEmbeddingProvider,
+  EmbeddingProviderType,
+  VectorSmithEmbedding,
+  VoyageEmbeddingModel,
+  VoyageEmbeddingProvider,
+} from "../../src/embedding";
+
+interface Call {
+  url: string;
+  body: Record<string, unknown>;
+}
+
+/** Answers with `respond(body)` and records the requests. */
+function stubFetch(respond: (body: Record<string, unknown>) => unknown) {
+  const calls: Call[] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string) as Record<string, unknown>;
+      calls.push({ url, body });
+      return Response.json(respond(body));
+    })
+  );
+  return calls;
+}
+
+describe("Cohere and Voyage providers", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it("sends the Cohere input type and output dimension", async () => {
+    const calls = stubFetch((body) => ({
+      embeddings: { float: (body.texts as string[]).map(() => [0.1, 0.2]) },
+    }));
+    const provider = new CohereEmbeddingProvider(
+      "key",
+      CohereEmbeddingModel.EmbedV4,
+      { inputType: "search_query", dimensions: 256 }
+    );
+
+    expect(provider.dimensions).toBe(256);
+    expect(await provider.embedOne("where is the cache?")).toEqual([0.1, 0.2]);
+    expect(calls[0].url).toBe("https://api.cohere.com/v2/embed");
+    expect(calls[0].body).toEqual({
+      model: "embed-v4.0",
+      texts: ["where is the cache?"],
+      input_type: "search_query",
+      embedding_types: ["float"],
+      output_dimension: 256,
+    });
+  });
+
+  it("sends the Voyage input type only when set", async () => {
+    const calls = stubFetch((body) => ({
+      data: (body.input as string[]).map((_, index) => ({
+        index,
+        embedding: [index],
+      })),
+    }));
+    const documents = new VoyageEmbeddingProvider(
+      "key",
+      VoyageEmbeddingModel.VoyageCode3,
+      { inputType: "document" }
+    );
+    const plain = new VoyageEmbeddingProvider(
+      "key",
+      VoyageEmbeddingModel.VoyageCode3
+    );
+
+    expect(await documents.embed(["a", "b"])).toEqual([[0], [1]]);
+    await plain.embedOne("c");
+
+    expect(calls[0].body).toEqual({
+      model: "voyage-code-3",
+      input: ["a", "b"],
+      input_type: "document",
+    });
+    expect(calls[1].body).not.toHaveProperty("input_type");
+  });
+
+  it("truncates to dimensions the model does not offer", async () => {
+    const calls = stubFetch((body) => ({
+      data: (body.input as string[]).map((_, index) => ({
+        index,
+        embedding: [3, 4, ...new Array<number>(1022).fill(1)],
+      })),
+    }));
+    const law = new VoyageEmbeddingProvider(
+      "key",
+      VoyageEmbeddingModel.VoyageLaw2,
+      { dimensions: 2 }
+    );
+    const large = new VoyageEmbeddingProvider(
+      "key",
+      VoyageEmbeddingModel.Voyage3_5,
+      { dimensions: 2048 }
+    );
+
+    expect(await law.embedOne("a")).toEqual([0.6, 0.8]);
+    expect(calls[0].body).not.toHaveProperty("output_dimension");
+    expect(large.dimensions).toBe(2048);
+    expect(
+      () =>
+        new VoyageEmbeddingProvider("key", VoyageEmbeddingModel.VoyageLaw2, {
+          dimensions: 2048,
+        })
+    ).toThrow("voyage-law-2 has 1024 dimensions, cannot return 2048");
+  });
+
+  it("is created from the environment and registered by type", () => {
+    vi.stubEnv("COHERE_API_KEY", "cohere-key");
+    vi.stubEnv("COHERE_EMBEDDING_MODEL", "embed-english-v3.0");
+    expect(CohereEmbeddingProvider.fromEnv()).toBeInstanceOf(
+      CohereEmbeddingProvider
+    );
+    vi.stubEnv("VOYAGE_EMBEDDING_MODEL", "voyage-9");
+    expect(() => VoyageEmbeddingProvider.fromEnv()).toThrow(
+      'Invalid VOYAGE_EMBEDDING_MODEL "voyage-9"'
+    );
+
+    const embedding = new VectorSmithEmbedding({
+      cohere: { apiKey: "key", model: CohereEmbeddingModel.EmbedV4 },
+      voyage: { apiKey: "key", model: VoyageEmbeddingModel.Voyage3_5 },
+      defaultProvider: EmbeddingProviderType.Voyage,
+    });
+    expect(embedding.getProvider()).toBeInstanceOf(VoyageEmbeddingProvider);
+    expect(embedding.getProvider(EmbeddingProviderType.Cohere)).toBeInstanceOf(
+      CohereEmbeddingProvider
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  CachedEmbeddingProvider,
+  LruEmbeddingCache,
+  decodeEmbedding,
+  encodeEmbedding,
+  type EmbeddingProvider,
+} from "../../src/embedding";
+
+class CountingProvider implements EmbeddingProvider {
+  public readonly calls: string[][] = [];
+
+  public async embed(texts: string[]): Promise<number[][]> {
+    this.calls.push(texts);
+    return texts.map((text) => [text.length, 0.5, -1]);
+  }
+
+  public async embedOne(text: string): Promise<number[]> {
+    const [vector] = await this.embed([text]);
+    return vector;
+  }
+}
+
+describe("CachedEmbeddingProvider", () => {
+  const identity = { provider: "openai", model: "text-embedding-3-small" };
+
+  it("sends only the distinct misses to the provider", async () => {
+    const provider = new CountingProvider();
+    const cached = new CachedEmbeddingProvider(
+      provider,
+      new LruEmbeddingCache(),
+      identity
+    );
+
+    await cached.embed(["alpha", "beta"]);
+    const vectors = await cached.embed(["beta", "gamma", "gamma", "alpha"]);
+
+    expect(provider.calls).toEqual([["alpha", "beta"], ["gamma"]]);
+    expect(vectors).toEqual([
+      [4, 0.5, -1],
+      [5, 0.5, -1],
+      [5, 0.5, -1],
+      [5, 0.5, -1],
+    ]);
+    expect(cached.getStats()).toEqual({ hits: 3, misses: 3, hitRate: 0.5 });
+
+    cached.resetStats();
+    expect(cached.getStats()).toEqual({ hits: 0, misses: 0, hitRate: 0 });
+  });
+
+  it("keeps vectors of different models apart", async () => {
+    const provider = new CountingProvider();
+    const cache = new LruEmbeddingCache();
+    const small = new CachedEmbeddingProvider(provider, cache, identity);
+    const large = new CachedEmbeddingProvider(provider, cache, {
+      ...identity,
+      model: "text-embedding-3-large",
+    });
+
+    await small.embedOne("alpha");
+    await large.embedOne("alpha");
+    await small.embedOne("alpha");
+
+    expect(provider.calls).toEqual([["alpha"], ["alpha"]]);
+    expect(cache.size).toBe(2);
+  });
+});
+
+describe("LruEmbeddingCache", () => {
+  it("evicts the least recently used vector", async () => {
+    const cache = new LruEmbeddingCache({ maxEntries: 2 });
+    const value = encodeEmbedding([1]);
+
+    await cache.setMany([
+      { key: "a", value },
+      { key: "b", value },
+    ]);
+    await cache.getMany(["a"]);
+    await cache.setMany([{ key: "c", value }]);
+
+    expect(await cache.getMany(["a", "b", "c"])).toEqual([value, null, value]);
+  });
+
+  it("round-trips vectors as float32", () => {
+    const buffer = encodeEmbedding([0.25, -1.5, 3]);
+
+    expect(buffer.length).toBe(12);
+    expect(decodeEmbedding(buffer)).toEqual([0.25, -1.5, 3]);
+    expect(() => decodeEmbedding(Buffer.alloc(3))).toThrow();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  EmbeddingProviderType,
+  JinaAIEmbeddingProvider,
+  JinaEmbeddingModel,
+  OpenAIEmbeddingModel,
+  OpenAIEmbeddingProvider,
+  truncateEmbedding,
+  VectorSmithEmbedding,
+} from "../../src/embedding";
+
+/** Answers with `vector` for every input and records the request bodies. */
+function stubFetch(vector: number[]) {
+  const bodies: Array<Record<string, unknown>> = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string) as Record<string, unknown>;
+      bodies.push(body);
+      return Response.json({
+        data: (body.input as string[]).map((_, index) => ({
+          index,
+          embedding: vector,
+        })),
+      });
+    })
+  );
+  return bodies;
+}
+
+describe("embedding dimensions", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("asks the API for reduced dimensions when the model supports it", async () => {
+    const bodies = stubFetch([0.1, 0.2, 0.3]);
+    const provider = new OpenAIEmbeddingProvider(
+      "key",
+      OpenAIEmbeddingModel.TextEmbedding3Large,
+      { dimensions: 3 }
+    );
+
+    expect(provider.dimensions).toBe(3);
+    expect(await provider.embedOne("a")).toEqual([0.1, 0.2, 0.3]);
+    expect(bodies[0].dimensions).toBe(3);
+  });
+
+  it("truncates and re-normalises locally otherwise", async () => {
+    const bodies = stubFetch([3, 4, 12]);
+    const jina = new JinaAIEmbeddingProvider(
+      "key",
+      JinaEmbeddingModel.Embeddings_V2_Base_Code,
+      { dimensions: 2 }
+    );
+    const forced = new OpenAIEmbeddingProvider(
+      "key",
+      OpenAIEmbeddingModel.TextEmbedding3Small,
+      { dimensions: 2, truncateDimensions: true }
+    );
+
+    expect(await jina.embedOne("a")).toEqual([0.6, 0.8]);
+    expect(await forced.embedOne("a")).toEqual([0.6, 0.8]);
+    expect(bodies.map((body) => body.dimensions)).toEqual([
+      undefined,
+      undefined,
+    ]);
+    expect(truncateEmbedding([0, 0, 1], 2)).toEqual([0, 0]);
+  });
+
+  it("rejects dimensions larger than the model's", () => {
+    expect(
+      () =>
+        new OpenAIEmbeddingProvider(
+          "key",
+          OpenAIEmbeddingModel.TextEmbedding3Small,
+          { dimensions: 2048 }
+        )
+    ).toThrow("text-embedding-3-small has 1536 dimensions");
+  });
+
+  it("exposes the effective dimension to size collections", () => {
+    const embedding = new VectorSmithEmbedding({
+      openai: {
+        apiKey: "key",
+        model: OpenAIEmbeddingModel.TextEmbedding3Small,
+        options: { dimensions: 512 },
+      },
+      openaiCompatible: {
+        model: "custom-model",
+        options: { baseUrl: "http://localhost:8000/v1" },
+      },
+    });
+
+    expect(embedding.getDimensions(EmbeddingProviderType.OpenAI)).toBe(512);
+    expect(() =>
+      embedding.getDimensions(EmbeddingProviderType.OpenAICompatible)
+    ).toThrow("the dimension of this model is unknown");
+  });
+});
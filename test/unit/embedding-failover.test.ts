@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  EmbeddingProviderType,
+  JinaEmbeddingModel,
+  looksLikeCode,
+  OpenAIEmbeddingModel,
+  VectorSmithEmbedding,
+  type VectorSmithEmbeddingConfig,
+} from "../../src/embedding";
+
+/** Fails with 503 for the hosts in `down`; embeds every input as `vector`. */
+function stubFetch(down: Set<string>, vector: number[] = [0.6, 0.8]) {
+  const hosts: string[] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string, init: RequestInit) => {
+      const host = new URL(url).host;
+      hosts.push(host);
+      if (down.has(host)) {
+        return new Response("unavailable", { status: 503 });
+      }
+      const body = JSON.parse(init.body as string) as { input: string[] };
+      return Response.json({
+        data: body.input.map((_, index) => ({ index, embedding: vector })),
+      });
+    })
+  );
+  return hosts;
+}
+
+const failoverConfig: VectorSmithEmbeddingConfig = {
+  defaultProvider: EmbeddingProviderType.OpenAI,
+  openai: {
+    apiKey: "key",
+    model: OpenAIEmbeddingModel.TextEmbedding3Small,
+    options: { dimensions: 2, maxRetries: 0 },
+  },
+  openaiCompatible: {
+    apiKey: "key",
+    model: "text-embedding-3-small",
+    options: {
+      azure: { endpoint: "https://example.openai.azure.com", deployment: "e" },
+      dimensions: 2,
+      maxRetries: 0,
+    },
+  },
+  fallbacks: {
+    [EmbeddingProviderType.OpenAI]: [EmbeddingProviderType.OpenAICompatible],
+  },
+};
+
+describe("embedding failover", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("falls back to the next provider and reports it", async () => {
+    const hosts = stubFetch(new Set(["api.openai.com"]));
+    const embedding = new VectorSmithEmbedding(failoverConfig);
+
+    expect(await embedding.embedOne("a")).toEqual([0.6, 0.8]);
+    expect(await embedding.embedRouted(["a"])).toEqual([
+      { provider: EmbeddingProviderType.OpenAICompatible, vector: [0.6, 0.8] },
+    ]);
+    expect(hosts).toEqual([
+      "api.openai.com",
+      "example.openai.azure.com",
+      "api.openai.com",
+      "example.openai.azure.com",
+    ]);
+  });
+
+  it("rethrows caller errors without failing over", async () => {
+    const hosts: string[] = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        hosts.push(new URL(url).host);
+        return new Response("invalid input", { status: 400 });
+      })
+    );
+    const embedding = new VectorSmithEmbedding({
+      ...failoverConfig,
+      circuitBreaker: { failureThreshold: 1 },
+    });
+
+    await expect(embedding.embed(["a"])).rejects.toThrow("failed: 400");
+    await expect(embedding.embed([])).rejects.toThrow("non-empty array");
+    expect(hosts).toEqual(["api.openai.com"]);
+    expect(embedding.getCircuitState()).toBe("closed");
+  });
+
+  it("only chains providers of the same dimension", () => {
+    expect(
+      () =>
+        new VectorSmithEmbedding({
+          openai: {
+            apiKey: "key",
+            model: OpenAIEmbeddingModel.TextEmbedding3Small,
+          },
+          jina: {
+            apiKey: "key",
+            model: JinaEmbeddingModel.Embeddings_V2_Base_Code,
+          },
+          fallbacks: {
+            [EmbeddingProviderType.OpenAI]: [EmbeddingProviderType.Jina],
+          },
+        })
+    ).toThrow("fallback JINA returns 768 dimensions, OPENAI returns 1536");
+  });
+
+  it("skips providers whose circuit is open until a trial succeeds", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const down = new Set(["api.openai.com"]);
+    const hosts = stubFetch(down);
+    const embedding = new VectorSmithEmbedding({
+      ...failoverConfig,
+      circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 1000 },
+    });
+
+    await embedding.embed(["a"]);
+    expect(embedding.getCircuitState()).toBe("closed");
+    await embedding.embed(["b"]);
+    expect(embedding.getCircuitState()).toBe("open");
+    await embedding.embed(["c"]);
+    expect(hosts.filter((host) => host === "api.openai.com")).toHaveLength(2);
+
+    vi.advanceTimersByTime(1000);
+    expect(embedding.getCircuitState()).toBe("half_open");
+    down.clear();
+    expect(await embedding.embedRouted(["d"])).toEqual([
+      { provider: EmbeddingProviderType.OpenAI, vector: [0.6, 0.8] },
+    ]);
+    expect(embedding.getCircuitState()).toBe("closed");
+    expect(
+      embedding.getCircuitState(EmbeddingProviderType.OpenAICompatible)
+    ).toBe("closed");
+  });
+
+  it("routes code and prose to different providers", async () => {
+    const hosts = stubFetch(new Set());
+    const embedding = new VectorSmithEmbedding({
+      defaultProvider: EmbeddingProviderType.OpenAI,
+      openai: {
+        apiKey: "key",
+        model: OpenAIEmbeddingModel.TextEmbedding3Small,
+      },
+      jina: {
+        apiKey: "key",
+        model: JinaEmbeddingModel.CodeEmbeddings_0_5B,
+      },
+      routes: [{ provider: EmbeddingProviderType.Jina, match: looksLikeCode }],
+    });
+    const code = "function add(a, b) {\n  return a + b;\n}";
+
+    const results = await embedding.embedRouted([
+      "How do I add two numbers?",
+      code,
+      "Addition is commutative.",
+    ]);
+
+    expect(results.map((result) => result.provider)).toEqual([
+      EmbeddingProviderType.OpenAI,
+      EmbeddingProviderType.Jina,
+      EmbeddingProviderType.OpenAI,
+    ]);
+    expect(hosts).toEqual(["api.openai.com", "api.jina.ai"]);
+    expect(looksLikeCode("import os\nprint(os.getcwd())")).toBe(true);
+    expect(looksLikeCode("A sentence about caching.")).toBe(false);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  OpenAIEmbeddingModel,
+  OpenAIEmbeddingProvider,
+} from "../../src/embedding";
+import { parseRetryAfter } from "../../src/embedding/request.embedding";
+
+interface Call {
+  input: string[];
+}
+
+/** Answers every request with `respond`, recording the request bodies. */
+function stubFetch(respond: (call: Call, attempt: number) => Response) {
+  const calls: Call[] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (_url: string, init: RequestInit) => {
+      const call = JSON.parse(init.body as string) as Call;
+      calls.push(call);
+      return respond(call, calls.length);
+    })
+  );
+  return calls;
+}
+
+/** OpenAI style response, listed in reverse to exercise `index`. */
+function embeddings(input: string[]): Response {
+  const data = input.map((text, index) => ({
+    index,
+    embedding: [text.length, index],
+  }));
+  return Response.json({ data: data.reverse() });
+}
+
+describe("OpenAIEmbeddingProvider requests", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("splits large inputs into batches and keeps the input order", async () => {
+    const calls = stubFetch((call) => embeddings(call.input));
+    const provider = new OpenAIEmbeddingProvider(
+      "key",
+      OpenAIEmbeddingModel.TextEmbedding3Small,
+      { maxBatchSize: 2, maxConcurrency: 2 }
+    );
+
+    const vectors = await provider.embed(["a", "bb", "ccc", "dddd", "eeeee"]);
+
+    expect(calls.map((call) => call.input)).toEqual([
+      ["a", "bb"],
+      ["ccc", "dddd"],
+      ["eeeee"],
+    ]);
+    expect(vectors).toEqual([
+      [1, 0],
+      [2, 1],
+      [3, 0],
+      [4, 1],
+      [5, 0],
+    ]);
+  });
+
+  it("retries rate limits and server errors", async () => {
+    const calls = stubFetch((call, attempt) => {
+      if (attempt === 1) {
+        return new Response("slow down", {
+          status: 429,
+          headers: { "Retry-After": "0" },
+        });
+      }
+      if (attempt === 2) {
+        return new Response("unavailable", { status: 503 });
+      }
+      return embeddings(call.input);
+    });
+    const provider = new OpenAIEmbeddingProvider(
+      "key",
+      OpenAIEmbeddingModel.TextEmbedding3Small,
+      { initialBackoffMs: 1 }
+    );
+
+    expect(await provider.embedOne("abc")).toEqual([3, 0]);
+    expect(calls).toHaveLength(3);
+  });
+
+  it("fails on client errors and once retries run out", async () => {
+    const calls = stubFetch((_call, attempt) =>
+      attempt === 1
+        ? new Response("bad input", { status: 400 })
+        : new Response("overloaded", { status: 500 })
+    );
+    const provider = new OpenAIEmbeddingProvider(
+      "key",
+      OpenAIEmbeddingModel.TextEmbedding3Small,
+      { maxRetries: 2, initialBackoffMs: 1 }
+    );
+
+    await expect(provider.embedOne("abc")).rejects.toThrow(
+      "OpenAI embeddings failed: 400 bad input"
+    );
+    expect(calls).toHaveLength(1);
+
+    await expect(provider.embedOne("abc")).rejects.toThrow(
+      "OpenAI embeddings failed: 500 overloaded"
+    );
+    expect(calls).toHaveLength(4);
+  });
+
+  it("gives up when Retry-After exceeds maxRetryDelayMs", async () => {
+    const calls = stubFetch(
+      () =>
+        new Response("slow down", {
+          status: 429,
+          headers: { "Retry-After": "3600" },
+        })
+    );
+    const provider = new OpenAIEmbeddingProvider(
+      "key",
+      OpenAIEmbeddingModel.TextEmbedding3Small,
+      { maxRetryDelayMs: 1000 }
+    );
+
+    await expect(provider.embedOne("abc")).rejects.toThrow(
+      "retry requested in 3600000ms exceeds maxRetryDelayMs"
+    );
+    expect(calls).toHaveLength(1);
+  });
+
+  it("reads Retry-After as seconds, milliseconds or a date", () => {
+    expect(parseRetryAfter(new Headers({ "Retry-After": "2" }))).toBe(2000);
+    expect(parseRetryAfter(new Headers({ "retry-after-ms": "150" }))).toBe(150);
+    const date = new Date(Date.now() + 60_000).toUTCString();
+    expect(
+      parseRetryAfter(new Headers({ "Retry-After": date }))
+    ).toBeGreaterThan(50_000);
+    expect(parseRetryAfter(new Headers())).toBeUndefined();
+  });
+});
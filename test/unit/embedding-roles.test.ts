@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { MemoryAdapter } from "../../src/adapter/memory.adapter";
+import { MemoryStore } from "../../src/store/memory.store";
+import {
+  CachedEmbeddingProvider,
+  CohereEmbeddingModel,
+  EmbeddingProviderType,
+  JinaAIEmbeddingProvider,
+  JinaEmbeddingModel,
+  LruEmbeddingCache,
+  OpenAICompatibleEmbeddingProvider,
+  VectorSmithEmbedding,
+  type EmbedOptions,
+  type EmbeddingProvider,
+} from "../../src/embedding";
+import { IngestionPipeline } from "../../src/ingest";
+import { VectorStoreRetriever } from "../../src/retrieve";
+
+/** Records the request bodies and embeds every input as `[length, 1]`. */
+function stubFetch() {
+  const bodies: Array<Record<string, unknown>> = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string) as Record<string, unknown>;
+      bodies.push(body);
+      const texts = (body.input ?? body.texts) as string[];
+      const vectors = texts.map((text) => [text.length, 1]);
+      return Response.json(
+        body.texts
+          ? { embeddings: { float: vectors } }
+          : { data: vectors.map((embedding, index) => ({ index, embedding })) }
+      );
+    })
+  );
+  return bodies;
+}
+
+/** Queries point along [1, 0], documents along [0, 1]. */
+class RoleEmbedder implements EmbeddingProvider {
+  public readonly roles: Array<EmbedOptions["role"]> = [];
+
+  public async embed(
+    texts: string[],
+    options: EmbedOptions = {}
+  ): Promise<number[][]> {
+    this.roles.push(options.role);
+    return texts.map(() => (options.role === "query" ? [1, 0] : [0, 1]));
+  }
+
+  public async embedOne(text: string, options?: EmbedOptions) {
+    const [vector] = await this.embed([text], options);
+    return vector;
+  }
+}
+
+describe("embedding roles", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("maps roles to each provider's native parameter", async () => {
+    const bodies = stubFetch();
+    const jina = new JinaAIEmbeddingProvider(
+      "key",
+      JinaEmbeddingModel.CodeEmbeddings_0_5B
+    );
+    const local = new OpenAICompatibleEmbeddingProvider(
+      undefined,
+      "nomic-embed-text",
+      {
+        baseUrl: "http://localhost:11434/v1",
+        prefixes: { query: "search_query: " },
+      }
+    );
+    const embedding = new VectorSmithEmbedding({
+      cohere: {
+        apiKey: "key",
+        model: CohereEmbeddingModel.EmbedEnglishV3,
+        options: { inputType: "clustering" },
+      },
+    });
+
+    await jina.embedOne("parse a date", { role: "query" });
+    await jina.embed(["function parse() {}"], { role: "document" });
+    await jina.embedOne("no role");
+    await local.embedOne("cache", { role: "query" });
+    await local.embedOne("cache", { role: "document" });
+    await embedding.embedQuery("cache");
+    await embedding.embedDocuments(["a cache"]);
+    await embedding.embed(["cache"], EmbeddingProviderType.Cohere);
+
+    expect(bodies.map((body) => body.task)).toEqual([
+      "nl2code.query",
+      "nl2code.passage",
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+    ]);
+    expect(bodies[3].input).toEqual(["search_query: cache"]);
+    expect(bodies[4].input).toEqual(["cache"]);
+    expect(bodies.slice(5).map((body) => body.input_type)).toEqual([
+      "search_query",
+      "search_document",
+      "clustering",
+    ]);
+  });
+
+  it("caches queries and documents separately", async () => {
+    const embedder = new RoleEmbedder();
+    const cached = new CachedEmbeddingProvider(
+      embedder,
+      new LruEmbeddingCache(),
+      { provider: "test", model: "roles" }
+    );
+
+    expect(await cached.embedOne("cache", { role: "query" })).toEqual([1, 0]);
+    expect(await cached.embedOne("cache", { role: "document" })).toEqual([
+      0, 1,
+    ]);
+    expect(await cached.embedOne("cache", { role: "query" })).toEqual([1, 0]);
+    expect(embedder.roles).toEqual(["query", "document"]);
+  });
+
+  it("ingests documents and retrieves with queries", async () => {
+    const adapter = new MemoryAdapter();
+    await adapter.connect();
+    const store = new MemoryStore(adapter);
+    await store.createCollection("docs", 2, "cosine");
+    const embedder = new RoleEmbedder();
+
+    await new IngestionPipeline(embedder, store).ingest("docs", [
+      { id: "a", text: "Caching embeddings" },
+    ]);
+    const retriever = new VectorStoreRetriever(store, embedder);
+    const results = await retriever.retrieve({
+      query: { collection: "docs", text: "cache", options: { limit: 1 } },
+    });
+
+    expect(embedder.roles).toEqual(["document", "query"]);
+    expect(results).toHaveLength(1);
+    expect(results[0].metadata.parentId).toBe("a");
+    await expect(
+      new VectorStoreRetriever(store).retrieve({
+        query: { collection: "docs", text: "cache" },
+      })
+    ).rejects.toThrow("an embedder is required");
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  estimateTokens,
+  OpenAIEmbeddingModel,
+  OpenAIEmbeddingProvider,
+  splitByTokens,
+  type TokenCounter,
+} from "../../src/embedding";
+
+const countWords: TokenCounter = (text) =>
+  text.split(/\s+/).filter(Boolean).length;
+
+/** Embeds every input as `[words, 1]` and records the inputs. */
+function stubFetch() {
+  const inputs: string[][] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (_url: string, init: RequestInit) => {
+      const { input } = JSON.parse(init.body as string) as { input: string[] };
+      inputs.push(input);
+      return Response.json({
+        data: input.map((text, index) => ({
+          index,
+          embedding: [countWords(text), 1],
+        })),
+      });
+    })
+  );
+  return inputs;
+}
+
+describe("embedding token limits", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("estimates tokens of prose, code and other scripts", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("the cat sat")).toBe(3);
+    expect(estimateTokens("getUserById(42);")).toBe(8);
+    expect(estimateTokens("東京")).toBe(3);
+    expect(estimateTokens("a ".repeat(8191))).toBe(8191);
+  });
+
+  it("rejects long inputs with their index before any request", async () => {
+    const inputs = stubFetch();
+    const provider = new OpenAIEmbeddingProvider(
+      "key",
+      OpenAIEmbeddingModel.TextEmbedding3Small,
+      { maxInputTokens: 3, countTokens: countWords }
+    );
+
+    await expect(
+      provider.embed(["short", "one two three four"])
+    ).rejects.toThrow("OpenAI embeddings: input 1 has 4 tokens");
+    expect(inputs).toHaveLength(0);
+  });
+
+  it("truncates long inputs", async () => {
+    const inputs = stubFetch();
+    const provider = new OpenAIEmbeddingProvider(
+      "key",
+      OpenAIEmbeddingModel.TextEmbedding3Small,
+      {
+        maxInputTokens: 3,
+        countTokens: countWords,
+        tokenLimitPolicy: "truncate",
+      }
+    );
+
+    await provider.embed(["one two three four five", "six"]);
+
+    expect(inputs).toEqual([["one two three ", "six"]]);
+  });
+
+  it("splits long inputs and averages their vectors", async () => {
+    const inputs = stubFetch();
+    const provider = new OpenAIEmbeddingProvider(
+      "key",
+      OpenAIEmbeddingModel.TextEmbedding3Small,
+      { maxInputTokens: 2, countTokens: countWords, tokenLimitPolicy: "split" }
+    );
+
+    const [long, short] = await provider.embed(["a b c d e", "f g"]);
+
+    expect(inputs).toEqual([["a b ", "c d ", "e", "f g"]]);
+    // (2·[2,1] + 2·[2,1] + 1·[1,1]) / 5 = [1.8, 1], rescaled to unit length.
+    const norm = Math.hypot(1.8, 1);
+    expect(long[0]).toBeCloseTo(1.8 / norm);
+    expect(long[1]).toBeCloseTo(1 / norm);
+    expect(short).toEqual([2, 1]);
+  });
+
+  it("never cuts inside a surrogate pair", () => {
+    const pieces = splitByTokens("😀😀😀", {
+      maxTokens: 1,
+      countTokens: (text) => text.length,
+    });
+
+    expect(pieces.map((piece) => piece.text)).toEqual(["😀", "😀", "😀"]);
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect } from "vitest";
+import {
+  compilePgVectorFilter,
+  compileQdrantFilter,
+  compileRedisFilter,
+  type MetadataFilter,
+} from "../../src/filter";
+
+describe("compilePgVectorFilter", () => {
+  it("compiles equality on nested keys to JSONB containment", () => {
+    const params: unknown[] = ["[1,2,3]", 10];
+    const sql = compilePgVectorFilter(
+      { must: [{ key: "author.name", match: "ada" }] },
+      params
+    );
+
+    expect(sql).toBe("((metadata @> $3::jsonb OR metadata @> $4::jsonb))");
+    expect(params.slice(2)).toEqual([
+      '{"author":{"name":"ada"}}',
+      '{"author":{"name":["ada"]}}',
+    ]);
+  });
+
+  it("compiles in, range and exists conditions", () => {
+    const params: unknown[] = [];
+    const sql = compilePgVectorFilter(
+      {
+        must: [
+          { key: "category", in: ["docs", "code"] },
+          { key: "year", range: { gte: 2020, lt: 2025 } },
+          { key: "draft", exists: false },
+        ],
+      },
+      params
+    );
+
+    expect(sql).toBe(
+      "(metadata @> ANY($1::jsonb[]) AND " +
+        "CASE WHEN jsonb_typeof(metadata #> $2::text[]) = 'number' THEN " +
+        "(metadata #> $2::text[])::numeric >= $3 AND " +
+        "(metadata #> $2::text[])::numeric < $4 ELSE FALSE END AND " +
+        "NOT COALESCE((metadata #> $5::text[]) NOT IN ('null'::jsonb, '[]'::jsonb), FALSE))"
+    );
+    expect(params).toEqual([
+      [
+        '{"category":"docs"}',
+        '{"category":["docs"]}',
+        '{"category":"code"}',
+        '{"category":["code"]}',
+      ],
+      ["year"],
+      2020,
+      2025,
+      ["draft"],
+    ]);
+  });
+
+  it("combines should, mustNot and nested filters", () => {
+    const params: unknown[] = [];
+    const sql = compilePgVectorFilter(
+      {
+        should: [
+          { key: "lang", match: "ts" },
+          {
+            must: [
+              { key: "lang", match: "js" },
+              { key: "legacy", match: false },
+            ],
+          },
+        ],
+        mustNot: [{ key: "archived", match: true }],
+      },
+      params
+    );
+
+    expect(sql).toBe(
+      "(((metadata @> $1::jsonb OR metadata @> $2::jsonb) OR " +
+        "((metadata @> $3::jsonb OR metadata @> $4::jsonb) AND " +
+        "(metadata @> $5::jsonb OR metadata @> $6::jsonb))) AND " +
+        "NOT ((COALESCE(metadata, '{}'::jsonb) @> $7::jsonb OR " +
+        "COALESCE(metadata, '{}'::jsonb) @> $8::jsonb)))"
+    );
+    expect(params).toHaveLength(8);
+  });
+
+  it("returns TRUE for an empty filter and rejects empty ranges", () => {
+    expect(compilePgVectorFilter({}, [])).toBe("TRUE");
+    expect(() =>
+      compilePgVectorFilter({ must: [{ key: "year", range: {} }] }, [])
+    ).toThrow('empty range for key "year"');
+  });
+});
+
+describe("compileQdrantFilter", () => {
+  it("maps clauses and conditions to Qdrant filter JSON", () => {
+    const filter: MetadataFilter = {
+      must: [
+        { key: "author.name", match: "ada" },
+        { key: "year", range: { gte: 2020 } },
+      ],
+      should: [
+        { key: "lang", in: ["ts", "js"] },
+        { key: "translated", exists: true },
+      ],
+      mustNot: [{ must: [{ key: "draft", match: true }] }],
+    };
+
+    expect(compileQdrantFilter(filter)).toEqual({
+      must: [
+        { key: "author.name", match: { value: "ada" } },
+        { key: "year", range: { gte: 2020 } },
+      ],
+      should: [
+        { key: "lang", match: { any: ["ts", "js"] } },
+        { must_not: [{ is_empty: { key: "translated" } }] },
+      ],
+      must_not: [{ must: [{ key: "draft", match: { value: true } }] }],
+    });
+  });
+
+  it("falls back for values Qdrant cannot match exactly", () => {
+    expect(
+      compileQdrantFilter({
+        must: [
+          { key: "ratio", match: 0.5 },
+          { key: "flag", in: [true, false] },
+          { key: "gone", exists: false },
+        ],
+      })
+    ).toEqual({
+      must: [
+        { key: "ratio", range: { gte: 0.5, lte: 0.5 } },
+        {
+          should: [
+            { key: "flag", match: { value: true } },
+            { key: "flag", match: { value: false } },
+          ],
+        },
+        { is_empty: { key: "gone" } },
+      ],
+    });
+  });
+});
+
+describe("compileRedisFilter", () => {
+  const fields = {
+    category: "TAG",
+    year: "NUMERIC",
+    "author.name": "TAG",
+  } as const;
+
+  it("compiles TAG and NUMERIC conditions", () => {
+    expect(
+      compileRedisFilter(
+        {
+          must: [
+            { key: "category", in: ["how-to", "faq"] },
+            { key: "year", range: { gt: 2020, lte: 2024 } },
+          ],
+          should: [
+            { key: "author.name", match: "Ada Lovelace" },
+            { key: "year", in: [1999, 2001] },
+          ],
+          mustNot: [{ key: "category", match: "draft" }],
+        },
+        fields
+      )
+    ).toBe(
+      "(@category:{how\\-to | faq} @year:[(2020 2024] " +
+        "(@author\\.name:{Ada\\ Lovelace} | (@year:[1999 1999] | @year:[2001 2001])) " +
+        "-(@category:{draft}))"
+    );
+    expect(compileRedisFilter({}, fields)).toBe("*");
+  });
+
+  it("rejects operators Redis cannot express", () => {
+    expect(() =>
+      compileRedisFilter({ must: [{ key: "category", exists: true }] }, fields)
+    ).toThrow('Redis cannot express "exists"');
+    expect(() =>
+      compileRedisFilter(
+        { must: [{ key: "category", range: { gte: 1 } }] },
+        fields
+      )
+    ).toThrow('range on TAG field "category"');
+    expect(() =>
+      compileRedisFilter({ must: [{ key: "missing", match: "x" }] }, fields)
+    ).toThrow('key "missing" is not indexed');
+    expect(() =>
+      compileRedisFilter({ must: [{ key: "year", match: "2020" }] }, fields)
+    ).toThrow('NUMERIC field "year"');
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { fuseRankings } from "../../src/fusion";
+
+const dense = [
+  { id: 1, score: 0.9, item: "a" },
+  { id: 2, score: 0.8, item: "b" },
+  { id: 3, score: 0.1, item: "c" },
+];
+const sparse = [
+  { id: 3, score: 12, item: "c" },
+  { id: 1, score: 4, item: "a" },
+];
+
+describe("fuseRankings", () => {
+  it("fuses with reciprocal rank fusion and keeps per-signal scores", () => {
+    const fused = fuseRankings({ dense, sparse }, { rrfK: 0 });
+
+    expect(fused.map((candidate) => candidate.id)).toEqual([1, 3, 2]);
+    expect(fused[0].score).toBeCloseTo(1 + 1 / 2);
+    expect(fused[0].scores).toEqual({ dense: 0.9, sparse: 4 });
+    expect(fused[0].ranks).toEqual({ dense: 1, sparse: 2 });
+    expect(fused[2].scores).toEqual({ dense: 0.8 });
+  });
+
+  it("fuses normalised scores by weight", () => {
+    const fused = fuseRankings(
+      { dense, sparse },
+      { method: "weighted", weights: { dense: 0.2, sparse: 0.8 }, limit: 2 }
+    );
+
+    expect(fused).toHaveLength(2);
+    expect(fused[0].id).toBe(3);
+    expect(fused[0].score).toBeCloseTo(0.8);
+    expect(fused[1].id).toBe(1);
+    expect(fused[1].score).toBeCloseTo(0.2);
+  });
+
+  it("rejects negative weights", () => {
+    expect(() => fuseRankings({ dense }, { weights: { dense: -1 } })).toThrow(
+      /invalid weight/
+    );
+  });
+});
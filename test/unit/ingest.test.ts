@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { MemoryAdapter } from "../../src/adapter/memory.adapter";
+import { MemoryStore } from "../../src/store/memory.store";
+import { MarkdownChunker } from "../../src/chunker";
+import { IngestionPipeline } from "../../src/ingest";
+
+/** Deterministic stand-in for an embedding API: [length, vowels, 1]. */
+class FakeEmbedder {
+  public readonly calls: string[][] = [];
+
+  public async embed(texts: string[]): Promise<number[][]> {
+    this.calls.push(texts);
+    return texts.map((text) => [
+      text.length,
+      (text.match(/[aeiou]/g) ?? []).length,
+      1,
+    ]);
+  }
+}
+
+describe("IngestionPipeline", () => {
+  it("chunks, embeds in batches and upserts with provenance", async () => {
+    const adapter = new MemoryAdapter();
+    await adapter.connect();
+    const store = new MemoryStore(adapter);
+    await store.createCollection("docs", 3, "l2");
+    const embedder = new FakeEmbedder();
+
+    const pipeline = new IngestionPipeline(embedder, store, {
+      chunker: new MarkdownChunker({ chunkSize: 60, chunkOverlap: 0 }),
+      batchSize: 2,
+    });
+
+    async function* documents() {
+      yield {
+        id: "guide",
+        text: "# Setup\nInstall the package.\n# Usage\nConnect first.",
+        metadata: { source: "guide.md" },
+      };
+      yield { id: 7, text: "Plain text without headings." };
+    }
+
+    const result = await pipeline.ingest("docs", documents());
+
+    expect(result).toMatchObject({ documents: 2, chunks: 3 });
+    expect(embedder.calls.map((batch) => batch.length)).toEqual([2, 1]);
+    expect(await store.count("docs")).toBe(3);
+
+    const [usage] = await store.get("docs", [result.ids[1]]);
+    expect(usage.vector).toEqual(["# Usage\nConnect first.".length, 5, 1]);
+    expect(usage.metadata).toEqual({
+      source: "guide.md",
+      headings: ["Usage"],
+      parentId: "guide",
+      chunkIndex: 1,
+      chunkCount: 2,
+      startOffset: 29,
+      endOffset: 51,
+      text: "# Usage\nConnect first.",
+    });
+
+    // Chunk ids are stable, so ingesting again overwrites instead of duplicating.
+    const again = await pipeline.ingest("docs", [
+      { id: 7, text: "Plain text without headings." },
+    ]);
+    expect(again.ids).toEqual([result.ids[2]]);
+    expect(await store.count("docs")).toBe(3);
+
+    // A document that now has fewer chunks loses the old extra ones.
+    const shorter = await pipeline.ingest("docs", [
+      { id: "guide", text: "# Setup\nInstall the package." },
+    ]);
+    expect(shorter.ids).toEqual([result.ids[0]]);
+    expect(await store.get("docs", [result.ids[1]])).toEqual([]);
+    expect(await store.count("docs")).toBe(2);
+  });
+});
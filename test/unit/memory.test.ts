@@ -0,0 +1,203 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  VectorSmithAdapter,
+  VectorStoreType,
+} from "../../src/adapter/index.adapter";
+import { MemoryAdapter } from "../../src/adapter/memory.adapter";
+
+async function connected(): Promise<MemoryAdapter> {
+  const memory = new MemoryAdapter();
+  await memory.connect();
+  return memory;
+}
+
+function randomVectors(count: number, dimension: number): number[][] {
+  let seed = 7;
+  const random = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647 - 0.5;
+  };
+  return Array.from({ length: count }, () =>
+    Array.from({ length: dimension }, random)
+  );
+}
+
+describe("MemoryAdapter", () => {
+  it("ranks points with every distance function", async () => {
+    const memory = await connected();
+    const points = [
+      { id: 1, vector: [1, 0] },
+      { id: 2, vector: [3, 3] },
+      { id: 3, vector: [-1, 0] },
+    ];
+
+    for (const distance of ["cosine", "l2", "inner_product"] as const) {
+      await memory.createCollection(distance, 2, { distance });
+      await memory.upsert(distance, points);
+    }
+
+    const cosine = await memory.search("cosine", [1, 0.1]);
+    expect(cosine.map((hit) => hit.id)).toEqual([1, 2, 3]);
+    expect(cosine[0].score).toBeCloseTo(1 - cosine[0].distance);
+
+    const l2 = await memory.search("l2", [0, 0], { limit: 2 });
+    expect(l2.map((hit) => hit.id)).toEqual([1, 3]);
+    expect(l2[0].score).toBeCloseTo(1);
+
+    const inner = await memory.search("inner_product", [1, 1], {
+      scoreThreshold: 0,
+    });
+    expect(inner.map((hit) => [hit.id, hit.score])).toEqual([
+      [2, 6],
+      [1, 1],
+    ]);
+  });
+
+  it("filters, updates and deletes by metadata", async () => {
+    const memory = await connected();
+    await memory.createCollection("docs", 2);
+    await memory.upsert("docs", [
+      { id: "a", vector: [1, 0], metadata: { tags: ["x", "y"], year: 2020 } },
+      { id: "b", vector: [0.9, 0.1], metadata: { tags: ["y"], year: 2024 } },
+      { id: "c", vector: [0, 1], metadata: { year: 2024 } },
+    ]);
+
+    const hits = await memory.search("docs", [1, 0], {
+      filter: {
+        must: [{ key: "tags", match: "y" }],
+        mustNot: [{ key: "year", range: { lt: 2021 } }],
+      },
+    });
+    expect(hits.map((hit) => hit.id)).toEqual(["b"]);
+    expect(
+      await memory.countPoints("docs", {
+        must: [{ key: "tags", exists: false }],
+      })
+    ).toBe(1);
+
+    expect(
+      await memory.updateMetadata("docs", "c", { draft: true }, true)
+    ).toBe(true);
+    const [record] = await memory.getPoints("docs", ["c"], false);
+    expect(record).toEqual({
+      id: "c",
+      vector: undefined,
+      metadata: { year: 2024, draft: true },
+    });
+
+    expect(
+      await memory.deletePoints("docs", {
+        filter: { must: [{ key: "year", match: 2024 }] },
+      })
+    ).toBe(2);
+    expect(await memory.deletePoints("docs", ["a", "missing"])).toBe(1);
+    expect(await memory.countPoints("docs")).toBe(0);
+  });
+
+  it("scrolls by id without skipping points deleted between pages", async () => {
+    const memory = await connected();
+    await memory.createCollection("docs", 2);
+    await memory.upsert(
+      "docs",
+      [5, 3, 1, 4, 2].map((id) => ({ id, vector: [id, 1] }))
+    );
+
+    const first = await memory.scroll("docs", { limit: 2, withVector: false });
+    expect(first.points.map((point) => point.id)).toEqual([1, 2]);
+    expect(first.nextOffset).toBe(2);
+
+    await memory.deletePoints("docs", [1, 2]);
+    const second = await memory.scroll("docs", { offset: first.nextOffset });
+    expect(second.points.map((point) => point.id)).toEqual([3, 4, 5]);
+    expect(second.nextOffset).toBeUndefined();
+  });
+
+  it("matches exact search with the HNSW index", async () => {
+    const memory = await connected();
+    const vectors = randomVectors(400, 8);
+    await memory.createCollection("exact", 8);
+    await memory.createCollection("hnsw", 8, { hnsw: { m: 8 } });
+    const points = vectors.map((vector, id) => ({
+      id,
+      vector,
+      metadata: { even: id % 2 === 0 },
+    }));
+    await memory.upsert("exact", points);
+    await memory.upsert("hnsw", points);
+    await memory.deletePoints("hnsw", [0, 1, 2]);
+    await memory.deletePoints("exact", [0, 1, 2]);
+
+    let overlap = 0;
+    for (const query of randomVectors(20, 8)) {
+      const exact = await memory.search("exact", query, { limit: 5 });
+      const approximate = await memory.search("hnsw", query, { limit: 5 });
+      const ids = new Set(exact.map((hit) => hit.id));
+      overlap += approximate.filter((hit) => ids.has(hit.id)).length;
+    }
+    expect(overlap / 100).toBeGreaterThanOrEqual(0.9);
+
+    const filtered = await memory.search("hnsw", vectors[10], {
+      limit: 3,
+      filter: { must: [{ key: "even", match: true }] },
+    });
+    expect(filtered[0].id).toBe(10);
+    expect(filtered.every((hit) => (hit.id as number) % 2 === 0)).toBe(true);
+  });
+
+  it("persists collections to a file", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "vectorsmith-"));
+    const path = join(directory, "store.json");
+    try {
+      const first = new MemoryAdapter({ path });
+      await first.connect();
+      await first.createCollection("notes", 3, {
+        distance: "l2",
+        hnsw: true,
+      });
+      await first.upsert("notes", [
+        { id: 1, vector: [1, 2, 3], metadata: { title: "one" } },
+      ]);
+      await first.disconnect();
+
+      const second = new MemoryAdapter({ path });
+      await second.connect();
+      expect(await second.listCollections()).toEqual([
+        {
+          name: "notes",
+          dimension: 3,
+          distance: "l2",
+          count: 1,
+          indexed: true,
+        },
+      ]);
+      const [hit] = await second.search("notes", [1, 2, 3], {
+        withVector: true,
+      });
+      expect(hit).toMatchObject({
+        id: 1,
+        distance: 0,
+        vector: [1, 2, 3],
+        metadata: { title: "one" },
+      });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("is available as a VectorSmithAdapter store", async () => {
+    const adapter = new VectorSmithAdapter({ memory: {} });
+    await adapter.connect();
+    const store = adapter.getVectorStore();
+    expect(store).toBe(adapter.getVectorStore(VectorStoreType.Memory));
+
+    await store.createCollection("items", 2);
+    await store.upsert("items", [{ id: 1, vector: [0, 1] }]);
+    expect(await store.count("items")).toBe(1);
+    expect((await store.search("items", [0, 1]))[0].id).toBe(1);
+    await adapter.disconnect();
+    expect(adapter.isConnected()).toBe(false);
+  });
+});
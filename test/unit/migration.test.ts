@@ -0,0 +1,201 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { MemoryAdapter } from "../../src/adapter/memory.adapter";
+import { MemoryStore } from "../../src/store/memory.store";
+import { VectorStoreMigration } from "../../src/migration";
+import type { VectorStoreRecord } from "../../src/store";
+
+async function store(): Promise<MemoryStore> {
+  const adapter = new MemoryAdapter();
+  await adapter.connect();
+  return new MemoryStore(adapter);
+}
+
+async function seeded(count: number): Promise<MemoryStore> {
+  const source = await store();
+  await source.createCollection("docs", 3, "cosine");
+  await source.upsert(
+    "docs",
+    Array.from({ length: count }, (_, i) => ({
+      id: `doc-${i}`,
+      vector: [i + 1, 1, (i % 3) - 1],
+      metadata: { index: i, tags: ["a", String(i % 2)] },
+    }))
+  );
+  return source;
+}
+
+/** Starts every page with the last record of the previous one, as SCAN may. */
+function repeatLastRecord(source: MemoryStore): void {
+  const scan = source.scan.bind(source);
+  let previous: VectorStoreRecord | undefined;
+  source.scan = async (name, options) => {
+    const page = await scan(name, options);
+    const records = previous ? [previous, ...page.records] : page.records;
+    previous = page.records[page.records.length - 1];
+    return { ...page, records };
+  };
+}
+
+describe("VectorStoreMigration", () => {
+  it("copies a collection in batches and verifies the target", async () => {
+    const source = await seeded(25);
+    const target = await store();
+    const progress: number[] = [];
+
+    const report = await new VectorStoreMigration(source, target).run({
+      sourceCollection: "docs",
+      targetCollection: "copy",
+      batchSize: 10,
+      createTarget: true,
+      mapId: (id) => Number(String(id).slice(4)),
+      mapMetadata: (metadata) => ({ ...metadata, migrated: true }),
+      sourceIdKey: "sourceId",
+      onProgress: ({ migrated }) => progress.push(migrated),
+    });
+
+    expect(report.migrated).toBe(25);
+    expect(report.batches).toBe(3);
+    expect(progress).toEqual([10, 20, 25]);
+    expect(report.verification).toMatchObject({
+      sourceCount: 25,
+      targetCount: 25,
+      countsMatch: true,
+      sampled: 25,
+      missing: [],
+      mismatched: [],
+      ok: true,
+    });
+
+    const [record] = await target.get("copy", [7]);
+    expect(record.metadata).toEqual({
+      index: 7,
+      tags: ["a", "1"],
+      migrated: true,
+      sourceId: "doc-7",
+    });
+  });
+
+  it("resumes from a checkpoint and reports missing records", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "vectorsmith-migration-"));
+    const checkpointPath = join(directory, "checkpoint.json");
+    try {
+      const source = await seeded(30);
+      const target = await store();
+      await target.createCollection("docs", 3, "cosine");
+
+      let failAfter = 2;
+      const flaky = Object.create(target) as MemoryStore;
+      flaky.upsert = async (name, records) => {
+        if (failAfter-- === 0) {
+          throw new Error("connection reset");
+        }
+        return target.upsert(name, records);
+      };
+
+      const migration = {
+        sourceCollection: "docs",
+        batchSize: 8,
+        checkpointPath,
+      };
+      await expect(
+        new VectorStoreMigration(source, flaky).run(migration)
+      ).rejects.toThrow("connection reset");
+      expect(JSON.parse(await readFile(checkpointPath, "utf8"))).toMatchObject({
+        migrated: 16,
+        completed: false,
+      });
+
+      const plan = await new VectorStoreMigration(source, target).dryRun(
+        migration
+      );
+      expect(plan.resume).toMatchObject({ migrated: 16, completed: false });
+
+      const report = await new VectorStoreMigration(source, target).run(
+        migration
+      );
+      expect(report.resumed).toBe(true);
+      expect(report.migrated).toBe(30);
+      expect(report.verification.ok).toBe(true);
+
+      const lossyTarget = await store();
+      await lossyTarget.createCollection("docs", 3, "cosine");
+      const lossy = Object.create(lossyTarget) as MemoryStore;
+      lossy.upsert = (name, records) =>
+        lossyTarget.upsert(
+          name,
+          records.filter((record) => record.id !== "doc-29")
+        );
+      await rm(checkpointPath);
+      const incomplete = await new VectorStoreMigration(source, lossy).run(
+        migration
+      );
+      expect(incomplete.verification).toMatchObject({
+        countsMatch: false,
+        missing: ["doc-29"],
+        ok: false,
+      });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("counts records the scan returns twice once", async () => {
+    const source = await seeded(10);
+    repeatLastRecord(source);
+
+    const report = await new VectorStoreMigration(source, await store()).run({
+      sourceCollection: "docs",
+      batchSize: 4,
+      createTarget: true,
+    });
+
+    expect(report.migrated).toBe(10);
+    expect(report.verification.ok).toBe(true);
+  });
+
+  it("creates the target before the first non-empty page", async () => {
+    const source = await seeded(5);
+    const scan = source.scan.bind(source);
+    source.scan = async (name, options) =>
+      options?.cursor === undefined
+        ? { records: [], nextCursor: "start" }
+        : await scan(name, {
+            ...options,
+            cursor: options.cursor === "start" ? undefined : options.cursor,
+          });
+    const target = await store();
+
+    const report = await new VectorStoreMigration(source, target).run({
+      sourceCollection: "docs",
+      batchSize: 2,
+      createTarget: true,
+    });
+
+    expect(report.migrated).toBe(5);
+    expect(await target.count("docs")).toBe(5);
+  });
+
+  it("estimates volume in a dry run without writing", async () => {
+    const source = await seeded(40);
+    const target = await store();
+
+    const plan = await new VectorStoreMigration(source, target).dryRun({
+      sourceCollection: "docs",
+      batchSize: 16,
+    });
+
+    expect(plan).toMatchObject({
+      sourceCollection: "docs",
+      targetCollection: "docs",
+      count: 40,
+      dimension: 3,
+      batches: 3,
+    });
+    expect(plan.estimatedBytes).toBeGreaterThan(40 * 3 * 4);
+    expect(plan.resume).toBeUndefined();
+    await expect(target.count("docs")).rejects.toThrow();
+  });
+});
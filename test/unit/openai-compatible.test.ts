@@ -0,0 +1,130 @@
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import {
+  EmbeddingProviderType,
+  OpenAICompatibleEmbeddingProvider,
+  VectorSmithEmbedding,
+} from "../../src/embedding";
+
+interface ReceivedRequest {
+  url: string;
+  headers: IncomingMessage["headers"];
+  body: { model: string; input: string[] };
+}
+
+describe("OpenAICompatibleEmbeddingProvider", () => {
+  let server: Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        const body = JSON.parse(raw) as ReceivedRequest["body"];
+        received.push({ url: req.url!, headers: req.headers, body });
+        res.setHeader("Content-Type", "application/json");
+        res.end(
+          JSON.stringify({
+            data: body.input.map((text, index) => ({
+              index,
+              embedding: [text.length, index],
+            })),
+          })
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  it("calls a self-hosted server with a free-form model id", async () => {
+    const provider = new OpenAICompatibleEmbeddingProvider(
+      "local-key",
+      "nomic-embed-text",
+      { baseUrl: `${baseUrl}/v1/`, headers: { "X-Team": "search" } }
+    );
+
+    const vectors = await provider.embed(["ab", "abc"]);
+
+    expect(vectors).toEqual([
+      [2, 0],
+      [3, 1],
+    ]);
+    expect(received).toHaveLength(1);
+    expect(received[0].url).toBe("/v1/embeddings");
+    expect(received[0].body).toEqual({
+      model: "nomic-embed-text",
+      input: ["ab", "abc"],
+    });
+    expect(received[0].headers.authorization).toBe("Bearer local-key");
+    expect(received[0].headers["x-team"]).toBe("search");
+  });
+
+  it("routes to Azure deployments with an api-key header", async () => {
+    const provider = new OpenAICompatibleEmbeddingProvider(
+      "azure-key",
+      "text-embedding-3-small",
+      {
+        azure: {
+          endpoint: baseUrl,
+          deployment: "embeddings-prod",
+          apiVersion: "2024-06-01",
+        },
+      }
+    );
+
+    await provider.embedOne("hello");
+
+    expect(received[0].url).toBe(
+      "/openai/deployments/embeddings-prod/embeddings?api-version=2024-06-01"
+    );
+    expect(received[0].headers["api-key"]).toBe("azure-key");
+    expect(received[0].headers.authorization).toBeUndefined();
+  });
+
+  it("supports custom auth schemes and no auth", async () => {
+    const gateway = new OpenAICompatibleEmbeddingProvider("secret", "bge-m3", {
+      baseUrl,
+      authHeader: "X-Api-Key",
+      authScheme: "",
+      query: { tenant: "acme" },
+    });
+    const anonymous = new OpenAICompatibleEmbeddingProvider(
+      undefined,
+      "bge-m3",
+      { baseUrl }
+    );
+
+    await gateway.embedOne("a");
+    await anonymous.embedOne("a");
+
+    expect(received[0].url).toBe("/embeddings?tenant=acme");
+    expect(received[0].headers["x-api-key"]).toBe("secret");
+    expect(received[1].headers.authorization).toBeUndefined();
+  });
+
+  it("is configurable through VectorSmithEmbedding", async () => {
+    const embedding = new VectorSmithEmbedding({
+      openaiCompatible: { model: "all-minilm", options: { baseUrl } },
+    });
+
+    expect(embedding.getDefaultProviderType()).toBe(
+      EmbeddingProviderType.OpenAICompatible
+    );
+    expect(await embedding.embedOne("abcd")).toEqual([4, 0]);
+    expect(() => new OpenAICompatibleEmbeddingProvider("", "m", {})).toThrow(
+      "baseUrl or azure is required"
+    );
+  });
+});
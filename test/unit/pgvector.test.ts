@@ -0,0 +1,14 @@
+import { describe, it, expect } from "vitest";
+import { PgVectorAdapter } from "../../src/adapter/pg_vector.adpater";
+import { PgVectorStore } from "../../src/store/pg_vector.store";
+
+describe("PgVectorStore", () => {
+  it("rejects dimensions pgvector cannot index before any DDL", async () => {
+    // Never connected: any query would fail with "not connected".
+    const store = new PgVectorStore(new PgVectorAdapter());
+
+    await expect(store.createCollection("large", 3072)).rejects.toThrow(
+      "pgvector indexes support at most 2000 dimensions, got 3072"
+    );
+  });
+});
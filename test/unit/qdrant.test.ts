@@ -0,0 +1,110 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { QdrantAdapter } from "../../src/adapter/qdrant.adapter";
+
+describe("QdrantAdapter server version", () => {
+  let server: Server;
+  let url: string;
+  let version: string;
+  let created: string[];
+  let queried: string[];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      req.resume();
+      req.on("end", () => {
+        res.setHeader("Content-Type", "application/json");
+        if (req.url === "/") {
+          res.end(JSON.stringify({ title: "qdrant", version }));
+          return;
+        }
+        if (req.method === "PUT") {
+          created.push(req.url!);
+        }
+        if (req.method === "POST") {
+          queried.push(req.url!);
+        }
+        res.end(
+          JSON.stringify({
+            result:
+              req.method === "PUT"
+                ? true
+                : req.method === "POST"
+                ? { points: [] }
+                : { collections: [] },
+            status: "ok",
+            time: 0,
+          })
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    created = [];
+    queried = [];
+  });
+
+  it("refuses to create collections on servers without the Query API", async () => {
+    version = "1.9.0";
+    const adapter = new QdrantAdapter({ url });
+    await adapter.connect();
+
+    await expect(adapter.createCollection("docs", 4)).rejects.toThrow(
+      "Qdrant 1.9.0 is not supported"
+    );
+    expect(created).toEqual([]);
+  });
+
+  it("creates collections on 1.10 and later", async () => {
+    version = "1.10.1";
+    const adapter = new QdrantAdapter({ url });
+    await adapter.connect();
+
+    await adapter.createCollection("docs", 4);
+    await adapter.createCollection("code", 4);
+
+    expect(created).toEqual(["/collections/docs", "/collections/code"]);
+  });
+
+  it("refuses to search servers without the Query API", async () => {
+    version = "1.9.0";
+    const adapter = new QdrantAdapter({ url });
+    await adapter.connect();
+
+    await expect(adapter.search("docs", [0.1, 0.2])).rejects.toThrow(
+      "Qdrant 1.9.0 is not supported"
+    );
+    await expect(
+      adapter.hybridSearch("docs", {
+        dense: { vector: [0.1, 0.2], vectorName: "dense" },
+        sparse: {
+          vector: { indices: [1], values: [0.5] },
+          vectorName: "sparse",
+        },
+      })
+    ).rejects.toThrow("Qdrant 1.9.0 is not supported");
+    expect(queried).toEqual([]);
+  });
+
+  it("searches on 1.10 and later", async () => {
+    version = "1.10.0";
+    const adapter = new QdrantAdapter({ url });
+    await adapter.connect();
+
+    await adapter.search("docs", [0.1, 0.2]);
+    await adapter.search("docs", [0.2, 0.1]);
+
+    expect(queried).toEqual([
+      "/collections/docs/points/query",
+      "/collections/docs/points/query",
+    ]);
+  });
+});